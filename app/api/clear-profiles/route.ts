@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
 import { validateSessionId, createValidationErrorResponse } from '@/lib/validation';
 import { clearProfilesBySession } from '@/lib/utils';
 
@@ -23,7 +23,7 @@ async function handleDelete(request: NextRequest, user: AuthenticatedUser): Prom
     }
 
     // Verify the session belongs to the authenticated user
-    if (!sessionId.startsWith(`upload-${user.userId}-`) && !sessionId.startsWith(`user-${user.userId}-`)) {
+    if (!isUserSessionId(sessionId, user.userId)) {
       return NextResponse.json({
         error: 'Unauthorized',
         message: 'You can only clear your own profiles'
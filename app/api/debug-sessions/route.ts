@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
 import { getActiveSessions, getSessionProfiles, getSessionCount } from '@/lib/session-storage';
 
 /**
@@ -15,7 +15,7 @@ async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise
     const sessionDetails = activeSessions.map(sessionId => ({
       sessionId,
       profileCount: getSessionProfiles(sessionId).length,
-      belongsToUser: sessionId.startsWith(`upload-${user.userId}-`) || sessionId.startsWith(`user-${user.userId}-`)
+      belongsToUser: isUserSessionId(sessionId, user.userId)
     }));
 
     return NextResponse.json({
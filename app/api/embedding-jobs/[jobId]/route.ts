@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { getEmbeddingJob } from '@/lib/utils';
+import { isEmbeddingJobActive, runEmbeddingJob, toEmbeddingJobProgress } from '@/lib/embedding-jobs';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * Embedding Job Status API
+ *
+ * Reports progress of a background embedding job. Polling also keeps the job
+ * moving: if it is due and no worker holds it, the next slice runs after the
+ * response is sent.
+ *
+ * @param request - GET request
+ * @returns Job progress
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { jobId } = await context.params;
+
+    const job = await getEmbeddingJob(jobId, user.userId);
+    if (!job) {
+      return NextResponse.json({
+        error: 'Embedding job not found'
+      }, { status: 404 });
+    }
+
+    if (isEmbeddingJobActive(job)) {
+      after(() => runEmbeddingJob(job.jobId, user.userId));
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: toEmbeddingJobProgress(job)
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
+import { validateRequestBody, validateSessionId, createValidationErrorResponse } from '@/lib/validation';
+import { getLatestEmbeddingJob } from '@/lib/utils';
+import { startEmbeddingJob, toEmbeddingJobProgress } from '@/lib/embedding-jobs';
+
+// Check that a session ID is valid and belongs to the user; returns an error response otherwise
+const checkSession = (sessionId: unknown, userId: string): NextResponse | null => {
+  const sessionValidation = validateSessionId(sessionId as string);
+  if (!sessionValidation.isValid) {
+    return createValidationErrorResponse(sessionValidation.errors);
+  }
+  if (!isUserSessionId(sessionId as string, userId)) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      message: 'You can only embed profiles from your own uploads'
+    }, { status: 403 });
+  }
+  return null;
+};
+
+/**
+ * Session Embedding Progress API
+ *
+ * Reports the most recent embedding job of an upload session.
+ *
+ * @param request - GET with ?sessionId=
+ * @returns Job progress, or job: null if the session was never enqueued
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    const sessionError = checkSession(sessionId, user.userId);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    const job = await getLatestEmbeddingJob(sessionId as string, user.userId);
+
+    return NextResponse.json({
+      success: true,
+      job: job ? toEmbeddingJobProgress(job) : null
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Enqueue Embedding Job API
+ *
+ * Enqueues background embedding of an upload session's missing or stale
+ * embeddings and starts running it after the response is sent. Returns the
+ * session's active job instead if one is already queued or running; a failed
+ * job can be retried by enqueueing again.
+ *
+ * @param request - JSON with sessionId
+ * @returns Job progress
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    // Validate request body
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const { sessionId } = bodyValidation.data;
+    const sessionError = checkSession(sessionId, user.userId);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    const job = await startEmbeddingJob(user.userId, sessionId);
+
+    return NextResponse.json({
+      success: true,
+      job: toEmbeddingJobProgress(job)
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const POST = withAuth(handlePost);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueEmbeddingJobs } from '@/lib/embedding-jobs';
+
+// Jobs looked at per invocation
+const JOBS_PER_RUN = 20;
+
+/**
+ * Embedding Job Worker (cron)
+ *
+ * Runs due embedding jobs of all users, so queued jobs and retries progress
+ * even when nobody polls them. Scheduled in vercel.json; Vercel sends
+ * `Authorization: Bearer $CRON_SECRET`.
+ *
+ * @param request - GET request from the scheduler
+ * @returns IDs of the jobs that were run
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      return NextResponse.json({
+        error: 'CRON_SECRET is not configured'
+      }, { status: 500 });
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const jobIds = await runDueEmbeddingJobs(JOBS_PER_RUN);
+
+    return NextResponse.json({
+      success: true,
+      jobsRun: jobIds.length,
+      jobIds
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
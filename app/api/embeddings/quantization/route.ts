@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { createValidationErrorResponse } from '@/lib/validation';
+import { sampleEmbeddedProfiles } from '@/lib/utils';
+import { getEmbeddingModelId, needsEmbedding } from '@/lib/embedding-cache';
+import { getEmbeddingStorageFormat, measureQuantizationLoss } from '@/lib/vector-encoding';
+
+// Measured synchronously in the request: queries x sample cosine comparisons per format
+const DEFAULT_SAMPLE_SIZE = 500;
+const MAX_SAMPLE_SIZE = 1000;
+const DEFAULT_QUERIES = 20;
+const MAX_QUERIES = 50;
+const DEFAULT_K = 10;
+const MAX_K = 100;
+
+// Parse an optional positive integer query parameter; null if invalid
+const parseLimit = (value: string | null, fallback: number, max: number): number | null => {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+};
+
+/**
+ * Embedding Quantization Report API
+ *
+ * Measures how each embedding storage format (float64, float32, int8) changes
+ * search results on a sample of the user's own profiles: recall of the
+ * full-precision top K and cosine similarity error, next to bytes per vector.
+ * Only the sample is loaded, picked at random by the database.
+ * Use it to choose EMBEDDING_STORAGE_FORMAT for a deployment. Stored vectors
+ * are the baseline, so measure before switching to a lossier format.
+ *
+ * @param request - GET with optional ?sample= (default 500, max 1000), ?queries= (default 20, max 50) and ?k= (default 10, max 100)
+ * @returns Configured format and a report per format
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const sampleSize = parseLimit(params.get('sample'), DEFAULT_SAMPLE_SIZE, MAX_SAMPLE_SIZE);
+    const queries = parseLimit(params.get('queries'), DEFAULT_QUERIES, MAX_QUERIES);
+    const k = parseLimit(params.get('k'), DEFAULT_K, MAX_K);
+    if (sampleSize === null || queries === null || k === null) {
+      return createValidationErrorResponse([
+        `sample, queries and k must be positive integers up to ${MAX_SAMPLE_SIZE}, ${MAX_QUERIES} and ${MAX_K}`
+      ]);
+    }
+
+    const modelId = getEmbeddingModelId();
+    // Skip sampled profiles edited since they were embedded
+    const corpus = (await sampleEmbeddedProfiles(user.userId, modelId, sampleSize))
+      .filter(profile => !needsEmbedding(profile, modelId))
+      .map(profile => profile.embedding!);
+    if (corpus.length < 2) {
+      return NextResponse.json({
+        error: 'Not enough embedded profiles to measure'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      model: modelId,
+      configuredFormat: getEmbeddingStorageFormat(),
+      sampled: corpus.length,
+      queries: Math.min(queries, corpus.length),
+      k,
+      formats: measureQuantizationLoss(corpus, queries, k)
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
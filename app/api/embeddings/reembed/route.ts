@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse } from '@/lib/validation';
+import { getEmbeddingStatus, reembedStaleProfiles } from '@/lib/embedding-cache';
+
+const DEFAULT_BATCH_SIZE = 200;
+const MAX_BATCH_SIZE = 1000;
+
+/**
+ * Embedding Status API
+ *
+ * Counts the user's profiles whose embeddings are current, i.e. generated by
+ * the configured model from the profile's current text.
+ *
+ * @returns Model ID and counts of current and stale embeddings
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const status = await getEmbeddingStatus(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      ...status
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Re-embed Job API
+ *
+ * Regenerates missing or stale embeddings (after a model change or a change to
+ * the profile text), reusing cached embeddings of identical text. Processes up
+ * to `limit` profiles per call; call again while `remaining` is above zero.
+ *
+ * @param request - JSON with optional limit (default 200, max 1000)
+ * @returns Profiles processed, cache hits, generated embeddings and remaining stale profiles
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    // Validate request body
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const { limit = DEFAULT_BATCH_SIZE } = bodyValidation.data;
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_BATCH_SIZE) {
+      return createValidationErrorResponse([`Limit must be an integer between 1 and ${MAX_BATCH_SIZE}`]);
+    }
+
+    const result = await reembedStaleProfiles(user.userId, limit);
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const POST = withAuth(handlePost);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { checkDatabaseConfig, testDatabaseConnection } from '@/lib/db-check';
+import { getEmbeddingProviderName } from '@/lib/embeddings';
 
 /**
  * Health check endpoint
@@ -17,7 +18,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       configuration: {
         mongodb: config.hasMongoUri ? 'configured' : 'missing',
         azureOpenAI: config.hasAzureOpenAI ? 'configured' : 'missing',
-        rapidAPI: config.hasRapidAPI ? 'configured' : 'missing'
+        rapidAPI: config.hasRapidAPI ? 'configured' : 'missing',
+        embeddings: getEmbeddingProviderName()
       },
       database: {
         connected: dbTest.success,
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase, UserProfile } from '@/lib/mongodb';
 import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { getUserProfile, migrateLegacyMatchRuns, listMatchRuns, getMatchRun } from '@/lib/utils';
+import { isStorageConfigured } from '@/lib/repository';
 
 /**
- * Load user data from MongoDB
- * Returns user's profiles and match history
+ * Load user data from storage
+ * Returns the user's profile and their most recent match run; older runs are
+ * paged through /api/matches. Runs still stored on the user document are
+ * migrated to the match run collection first.
  */
 async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
   try {
@@ -18,8 +21,8 @@ async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise
       }, { status: 401 });
     }
 
-    // Check if MongoDB URI is configured
-    if (!process.env.MONGODB_URI) {
+    // Check if storage is configured (MONGODB_URI, or STORAGE_BACKEND=memory|file)
+    if (!isStorageConfigured()) {
       console.error('MONGODB_URI environment variable is not set');
       return NextResponse.json(
         { error: 'Database configuration error' },
@@ -27,24 +30,28 @@ async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise
       );
     }
 
-    const db = await getDatabase();
-    const usersCollection = db.collection<UserProfile>('users');
-
-    const userDoc = await usersCollection.findOne({ email: userEmail });
+    const userDoc = await getUserProfile(userEmail);
 
     if (!userDoc) {
       return NextResponse.json({ 
         success: true, 
         data: {
-          matches: []
+          totalMatches: 0,
+          latestMatch: null
         }
       });
     }
 
+    await migrateLegacyMatchRuns(userEmail, user.userId);
+
+    const { runs, total } = await listMatchRuns(user.userId, { limit: 1, offset: 0, sortBy: 'createdAt', order: 'desc' });
+    const latestMatch = runs.length > 0 ? await getMatchRun(user.userId, runs[0].id) : null;
+
     return NextResponse.json({ 
       success: true, 
       data: {
-        matches: userDoc.matches || [],
+        totalMatches: total,
+        latestMatch,
         user: {
           name: userDoc.name,
           imageUrl: userDoc.imageUrl,
@@ -1,37 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
 import { 
   validateMissionStatement, 
-  validateSessionId, 
+  validateSearchScope, 
   createValidationErrorResponse,
-  validateRequestBody 
+  validateRequestBody,
+  validateRecencyOptions,
+  validateSearchPaging,
+  validateDiversityOptions
 } from '@/lib/validation';
 import { 
-  getProfilesBySession, 
-  saveProfiles,
-  findTopMatches, 
-  generateProfileText, 
   generateMissionText,
-  MissionAttributes 
+  filterByRecency,
+  MissionAttributes,
+  RecencyOptions
 } from '@/lib/utils';
+import { embedQueryText, getEmbeddingModelId, isEmbeddingCurrent } from '@/lib/embedding-cache';
+import { startEmbeddingJobsForProfiles, EmbeddingJobProgress } from '@/lib/embedding-jobs';
+import { findScopeMatches } from '@/lib/profile-index';
+import { loadScopeProfiles, SearchScope } from '@/lib/search-scope';
+import { resolveSearchPage, takeSearchPage, SearchPage } from '@/lib/search-paging';
+import { diversifyMatches, DiversityOptions, DIVERSITY_POOL_SIZE } from '@/lib/diversity';
+import { loadMissionFeedback } from '@/lib/relevance-feedback';
 
 /**
  * Profile Matching API
  * 
  * This endpoint performs intelligent profile matching using:
- * 1. Azure OpenAI Embeddings for vector representations
+ * 1. Embeddings from the configured provider (Azure OpenAI, OpenAI or local) for vector representations
  * 2. Cosine similarity for semantic matching
- * 3. Azure OpenAI GPT for generating recommendations
+ * 3. Azure OpenAI GPT for generating recommendations, when configured
  * 
  * Process:
  * 1. Generate embedding for mission statement
- * 2. Generate embeddings for all profiles (if not cached) with progress saving
- * 3. Calculate cosine similarity between mission and profiles
- * 4. Find top 5 most similar profiles
+ * 2. Keep profiles that already have current embeddings; the rest are embedded by
+ *    a background job (enqueued here if needed) and searched once it catches up
+ * 3. Calculate cosine similarity between mission and profiles (with Atlas Vector Search when
+ *    available, otherwise in process through the user's ANN index for large networks)
+ * 4. Take the page of `limit` matches at `offset` (or `cursor`) above `minSimilarity`;
+ *    unset values come from the user's search defaults, then 5 matches at 0.3.
+ *    With `diversity`, matches are re-ranked by maximal marginal relevance first
  * 5. Generate AI-powered recommendations
  * 
- * @param request - Contains mission statement, parsed attributes, and sessionId
+ * Matches come from all of the user's contacts, or from the sessions given as
+ * `sessionIds` (or a single `sessionId`); `scope: 'all'` forces a search across
+ * every upload and import. Contacts marked irrelevant in a saved run of the same
+ * mission are left out.
+ * 
+ * @param request - Contains mission statement, parsed attributes, and optional scope
  * @returns Top matches and intelligent recommendations
  */
 async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
@@ -48,14 +65,12 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
         return createValidationErrorResponse(bodyValidation.errors);
       }
 
-      const { mission, attributes, sessionId } = bodyValidation.data;
-
-      console.log('Received sessionId:', sessionId, 'Type:', typeof sessionId);
+      const { mission, attributes } = bodyValidation.data;
 
       // Validate required inputs
-      if (!mission || !attributes || !sessionId) {
+      if (!mission || !attributes) {
         return NextResponse.json({ 
-          error: 'Mission, attributes, and sessionId are required' 
+          error: 'Mission and attributes are required' 
         }, { status: 400 });
       }
 
@@ -65,137 +80,101 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
         return createValidationErrorResponse(missionValidation.errors);
       }
 
-      // Validate session ID
-      if (!sessionId) {
-        return NextResponse.json({
-          error: 'Session ID is required',
-          message: 'Please upload a CSV file first to get a session ID'
-        }, { status: 400 });
+      // Validate connection recency options
+      const recencyValidation = validateRecencyOptions(bodyValidation.data.recency);
+      if (!recencyValidation.isValid) {
+        return createValidationErrorResponse(recencyValidation.errors);
+      }
+      const recency = recencyValidation.data as RecencyOptions | undefined;
+
+      // Validate diversity re-ranking
+      const diversityValidation = validateDiversityOptions(bodyValidation.data.diversity);
+      if (!diversityValidation.isValid) {
+        return createValidationErrorResponse(diversityValidation.errors);
+      }
+      const diversity = diversityValidation.data as DiversityOptions | undefined;
+
+      // Validate paging; unset values come from the user's search defaults
+      const pagingValidation = validateSearchPaging(bodyValidation.data);
+      if (!pagingValidation.isValid) {
+        return createValidationErrorResponse(pagingValidation.errors);
       }
+      const page = await resolveSearchPage(user.userId, pagingValidation.data as Partial<SearchPage>, { limit: 5, minSimilarity: 0.3 });
 
-      const sessionValidation = validateSessionId(sessionId);
-      if (!sessionValidation.isValid) {
-        console.log('Session validation failed:', sessionValidation.errors);
-        return createValidationErrorResponse(sessionValidation.errors);
+      // Validate search scope
+      const scopeValidation = validateSearchScope(bodyValidation.data);
+      if (!scopeValidation.isValid) {
+        return createValidationErrorResponse(scopeValidation.errors);
       }
+      const scope = scopeValidation.data as SearchScope;
 
-      // Verify the session belongs to the authenticated user
-      if (!sessionId.startsWith(`upload-${user.userId}-`) && !sessionId.startsWith(`user-${user.userId}-`)) {
+      // Verify the sessions belong to the authenticated user
+      if (scope.sessionIds?.some(sessionId => !isUserSessionId(sessionId, user.userId))) {
         return NextResponse.json({
           error: 'Unauthorized',
           message: 'You can only match profiles from your own uploads'
         }, { status: 403 });
       }
 
-    // Get profiles from the specific upload session with user isolation
-    const profiles = await getProfilesBySession(sessionId, user.userId);
-    console.log(`Processing ${profiles.length} profiles from session: ${sessionId}`);
+    // Get profiles in scope with user isolation, without contacts rejected for the mission (vectors are loaded by the search)
+    const { rejectedIds } = await loadMissionFeedback(user.userId, mission);
+    const profiles = (await loadScopeProfiles(user.userId, scope, false)).filter(profile => !rejectedIds.has(profile.id));
     
     if (profiles.length === 0) {
       return NextResponse.json({
-        error: 'No profiles found for this upload session'
+        error: scope.sessionIds ? 'No profiles found for the selected sessions' : 'No profiles found'
       }, { status: 400 });
     }
     
 
-    // Validate Azure OpenAI configuration
-    if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT || !process.env.AZURE_OPENAI_DEPLOYMENT) {
-      return NextResponse.json({ 
-        error: 'Azure OpenAI configuration missing' 
-      }, { status: 500 });
-    }
-
-    // Initialize Azure OpenAI client
-    const openai = new OpenAI({
-      apiKey: process.env.AZURE_OPENAI_API_KEY,
-      baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/v1`,
-    });
+    // Initialize Azure OpenAI client for match reasoning and recommendations; without
+    // it (e.g. offline with EMBEDDING_PROVIDER=local) matches get the fallback reasoning
+    const openai = process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_DEPLOYMENT
+      ? new OpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/v1`,
+      })
+      : null;
 
-    const embeddingsDeployment = 'text-embedding-3-large';
+    const embeddingModelId = getEmbeddingModelId();
     const gptDeployment = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
 
     // Step 1: Generate mission embedding
     const missionText = generateMissionText(mission, attributes as MissionAttributes);
-    const missionEmbeddingResponse = await openai.embeddings.create({
-      model: embeddingsDeployment,
-      input: missionText
-    });
-    const missionEmbedding = missionEmbeddingResponse.data[0].embedding;
+    const missionEmbedding = await embedQueryText(missionText);
 
-    // Step 2: Generate embeddings for profiles that don't have them
-    const profilesToProcess = profiles.filter(p => !p.embedding || p.embedding.length === 0);
+    // Step 2: Search profiles whose embeddings are current; missing or stale ones are left to the background job
+    const currentProfiles = profiles.filter(p => isEmbeddingCurrent(p, embeddingModelId));
+    const pendingCount = profiles.length - currentProfiles.length;
+    let embeddingJob: EmbeddingJobProgress | undefined;
     
-    console.log(`Total profiles loaded: ${profiles.length}`);
-    console.log(`Profiles with embeddings: ${profiles.filter(p => p.embedding && p.embedding.length > 0).length}`);
-    console.log(`Profiles needing embeddings: ${profilesToProcess.length}`);
-    
-    // For very large datasets, limit processing to prevent timeouts
-    const maxProfilesToProcess = 200; // Limit to prevent timeout
-    const limitedProfilesToProcess = profilesToProcess.slice(0, maxProfilesToProcess);
-    
-    if (profilesToProcess.length > maxProfilesToProcess) {
-      console.log(`Large dataset detected (${profilesToProcess.length} profiles). Processing first ${maxProfilesToProcess} profiles to prevent timeout.`);
+    if (pendingCount > 0) {
+      embeddingJob = await startEmbeddingJobsForProfiles(user.userId, profiles.filter(p => !isEmbeddingCurrent(p, embeddingModelId)));
     }
-    
-    if (limitedProfilesToProcess.length > 0) {
-      console.log(`Processing embeddings for ${limitedProfilesToProcess.length} profiles...`);
-      
-      // Process embeddings in batches for better performance and reliability
-      const batchSize = 5; // Smaller batch size for faster processing and better timeout handling
-      let processedCount = 0;
-      let failedBatches = 0;
-      const maxFailedBatches = 3; // Allow some failures but not too many
-      
-      for (let i = 0; i < limitedProfilesToProcess.length; i += batchSize) {
-        const batch = limitedProfilesToProcess.slice(i, i + batchSize);
-        
-        try {
-          // Generate all profile texts first
-          const profileTexts = batch.map(profile => generateProfileText(profile));
-          
-          // Single API call for the entire batch with timeout
-          const batchEmbeddingResponse = await Promise.race([
-            openai.embeddings.create({
-              model: embeddingsDeployment,
-              input: profileTexts
-            }),
-            new Promise<never>((_, reject) => 
-              setTimeout(() => reject(new Error('Embedding API timeout')), 30000)
-            )
-          ]);
-
-          // Assign embeddings back to profiles
-          batch.forEach((profile, index) => {
-            profile.embedding = batchEmbeddingResponse.data[index].embedding;
-          });
-          
-          processedCount += batch.length;
-          console.log(`Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(limitedProfilesToProcess.length / batchSize)} (${processedCount}/${limitedProfilesToProcess.length} profiles)`);
-          
-          // Save progress after each batch to prevent data loss on timeout
-          await saveProfiles(profiles, user.userId);
-          console.log(`Progress saved: ${processedCount}/${limitedProfilesToProcess.length} profiles processed`);
-          
-        } catch (error) {
-          console.error(`Failed to process batch starting at index ${i}:`, error);
-          failedBatches++;
-          
-          // If too many batches fail, stop processing
-          if (failedBatches >= maxFailedBatches) {
-            console.error(`Too many failed batches (${failedBatches}), stopping processing`);
-            break;
-          }
-          
-          // Continue with next batch instead of failing completely
-          continue;
-        }
-      }
-      
-      console.log(`Embeddings processing completed for ${processedCount} profiles`);
+
+    if (currentProfiles.length === 0) {
+      return NextResponse.json({
+        error: 'Profiles are still being prepared for search',
+        details: 'Embeddings are generated in the background after upload. Try again in a moment.',
+        embeddingJob
+      }, { status: 503 });
     }
 
-    // Step 3: Find top matches using cosine similarity with minimum threshold
-    const finalMatches = findTopMatches(missionEmbedding, profiles, 5, 0.3); // 0.3 minimum similarity threshold
+    // Step 3: Find top matches using cosine similarity with minimum threshold, down to the requested page
+    const needed = page.offset + page.limit + 1;
+    const ranked = await findScopeMatches(user.userId, scope, missionEmbedding, filterByRecency(currentProfiles, recency?.connectedAfter), diversity ? Math.max(DIVERSITY_POOL_SIZE, needed) : needed, page.minSimilarity, recency);
+    const ordered = diversity ? diversifyMatches(ranked, match => match.similarity, diversity, needed) : ranked;
+    const { matches: finalMatches, pagination } = takeSearchPage(ordered, page);
+
+    if (finalMatches.length === 0 && page.offset > 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No more matches',
+        matches: [],
+        scope,
+        pagination
+      });
+    }
 
     if (finalMatches.length === 0) {
       return NextResponse.json({
@@ -220,6 +199,7 @@ Profile to analyze:
 - Name: ${match.name}
 - Title: ${match.title || 'Not specified'}
 - Company: ${match.company || 'Not specified'}
+- Previous Role: ${match.previousRole ? [match.previousRole.title, match.previousRole.company].filter(Boolean).join(' at ') : 'Not known'}
 - Location: ${match.location || 'Not specified'}
 - Industry: ${match.industry || 'Not specified'}
 - Summary: ${match.summary || 'Not specified'}
@@ -229,7 +209,7 @@ Please provide a concise explanation (2-3 sentences) of why this person is a goo
 `;
 
         try {
-          const reasonResponse = await openai.chat.completions.create({
+          const reasonResponse = openai && await openai.chat.completions.create({
             model: gptDeployment,
             messages: [
               {
@@ -247,7 +227,7 @@ Please provide a concise explanation (2-3 sentences) of why this person is a goo
 
           return {
             ...match,
-            reasoning: reasonResponse.choices[0]?.message?.content || 'Good match based on profile analysis.'
+            reasoning: reasonResponse?.choices[0]?.message?.content || 'Good match based on profile analysis.'
           };
         } catch (error) {
           return {
@@ -287,7 +267,7 @@ Please provide a brief summary (2-3 sentences) that:
 Keep it concise and professional.
 `;
 
-    const recommendationsResponse = await openai.chat.completions.create({
+    const recommendationsResponse = openai && await openai.chat.completions.create({
       model: gptDeployment,
       messages: [
         {
@@ -303,7 +283,7 @@ Keep it concise and professional.
       max_tokens: 1000
     });
 
-    const recommendations = recommendationsResponse.choices[0]?.message?.content || '';
+    const recommendations = recommendationsResponse?.choices[0]?.message?.content || '';
 
     return NextResponse.json({
       success: true,
@@ -317,15 +297,21 @@ Keep it concise and professional.
         industry: match.industry,
         linkedinUrl: match.linkedinUrl,
         summary: match.summary,
+        connectedOn: match.connectedOn,
+        jobChangedAt: match.jobChangedAt,
+        previousRole: match.previousRole,
         similarity: match.similarity,
         reasoning: match.reasoning
       })),
+      scope,
+      pagination,
       recommendations,
       totalProfiles: profiles.length,
-      processedProfiles: limitedProfilesToProcess.length,
-      skippedProfiles: profilesToProcess.length > maxProfilesToProcess ? profilesToProcess.length - maxProfilesToProcess : 0,
-      processingInfo: profilesToProcess.length > maxProfilesToProcess ? 
-        `Processed first ${maxProfilesToProcess} profiles to prevent timeout. ${profilesToProcess.length - maxProfilesToProcess} profiles skipped.` : 
+      processedProfiles: currentProfiles.length,
+      skippedProfiles: pendingCount,
+      embeddingJob,
+      processingInfo: pendingCount > 0 ?
+        `Searched ${currentProfiles.length} embedded profiles. ${pendingCount} profiles are still being embedded in the background.` :
         'All profiles processed successfully.'
     });
 
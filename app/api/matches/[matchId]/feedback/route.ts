@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse, validateMatchFeedback } from '@/lib/validation';
+import { getMatchRun, getRunFeedback, saveMatchFeedback, clearMatchFeedback, getProfilesByIds } from '@/lib/utils';
+import { FeedbackVerdict } from '@/lib/mongodb';
+
+interface RouteContext {
+  params: Promise<{ matchId: string }>;
+}
+
+/**
+ * Match Feedback API
+ *
+ * Relevant/irrelevant verdicts on the matches of a saved run. Searching again
+ * with the run's ID re-ranks with them, and contacts marked irrelevant are left
+ * out of every later search for the same mission (see relevance-feedback).
+ *
+ * @param request - GET request
+ * @returns The run's verdicts
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    const run = await getMatchRun(user.userId, matchId);
+    if (!run) {
+      return NextResponse.json({
+        error: 'Match run not found'
+      }, { status: 404 });
+    }
+
+    const feedback = await getRunFeedback(user.userId, matchId);
+
+    return NextResponse.json({
+      success: true,
+      feedback: feedback.map(entry => ({
+        profileId: entry.profileId,
+        verdict: entry.verdict,
+        updatedAt: entry.updatedAt
+      }))
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Mark a match of the run as relevant or irrelevant
+ * Contacts found by re-ranking or paging the run's search can be marked too.
+ *
+ * @param request - PUT with { profileId, verdict: 'relevant' | 'irrelevant' }
+ * @returns The saved verdict
+ */
+async function handlePut(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const feedbackValidation = validateMatchFeedback(bodyValidation.data);
+    if (!feedbackValidation.isValid) {
+      return createValidationErrorResponse(feedbackValidation.errors);
+    }
+    const { profileId, verdict } = feedbackValidation.data as { profileId: string; verdict: FeedbackVerdict };
+
+    const run = await getMatchRun(user.userId, matchId);
+    if (!run) {
+      return NextResponse.json({
+        error: 'Match run not found'
+      }, { status: 404 });
+    }
+
+    if (!run.matches.some(match => match.id === profileId) && (await getProfilesByIds([profileId], user.userId)).length === 0) {
+      return NextResponse.json({
+        error: 'Profile not found'
+      }, { status: 404 });
+    }
+
+    const feedback = await saveMatchFeedback(user.userId, run, profileId, verdict);
+
+    return NextResponse.json({
+      success: true,
+      feedback: {
+        profileId: feedback.profileId,
+        verdict: feedback.verdict,
+        updatedAt: feedback.updatedAt
+      }
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Remove the verdict on a match of the run
+ *
+ * @param request - DELETE with ?profileId=
+ * @returns Confirmation of the removal
+ */
+async function handleDelete(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+    const profileId = request.nextUrl.searchParams.get('profileId');
+
+    if (!profileId) {
+      return createValidationErrorResponse(['profileId is required']);
+    }
+
+    const deleted = await clearMatchFeedback(user.userId, matchId, profileId);
+    if (!deleted) {
+      return NextResponse.json({
+        error: 'Feedback not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Feedback removed'
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(handlePut);
+export const DELETE = withAuth(handleDelete);
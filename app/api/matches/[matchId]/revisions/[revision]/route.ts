@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { createValidationErrorResponse } from '@/lib/validation';
+import { getMatchRunRevision } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ matchId: string; revision: string }>;
+}
+
+/**
+ * Match Run Revision API
+ * 
+ * @param request - GET request
+ * @returns An earlier revision of a saved run with its matches and recommendations
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId, revision: revisionParam } = await context.params;
+
+    const revisionNumber = Number(revisionParam);
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return createValidationErrorResponse(['Revision must be a positive integer']);
+    }
+
+    const revision = await getMatchRunRevision(user.userId, matchId, revisionNumber);
+    if (!revision) {
+      return NextResponse.json({ 
+        error: 'Revision not found' 
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      revision: {
+        id: revision.runId,
+        revision: revision.revision,
+        mission: revision.mission,
+        matches: revision.matches,
+        recommendations: revision.recommendations,
+        matchCount: revision.matchCount,
+        createdAt: revision.createdAt,
+        replacedAt: revision.replacedAt
+      }
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
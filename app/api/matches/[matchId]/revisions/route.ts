@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { getMatchRun, getMatchRunRevisions } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ matchId: string }>;
+}
+
+/**
+ * Match Run Revision History API
+ * 
+ * Lists the earlier results of a saved run, kept each time the run was updated.
+ * 
+ * @param request - GET request
+ * @returns The current revision and earlier revisions, newest first
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    const run = await getMatchRun(user.userId, matchId);
+    if (!run) {
+      return NextResponse.json({ 
+        error: 'Match run not found' 
+      }, { status: 404 });
+    }
+
+    const revisions = await getMatchRunRevisions(user.userId, matchId);
+
+    return NextResponse.json({
+      success: true,
+      currentRevision: run.revision,
+      revisions: revisions.map(revision => ({
+        revision: revision.revision,
+        mission: revision.mission,
+        matchCount: revision.matchCount,
+        createdAt: revision.createdAt,
+        replacedAt: revision.replacedAt
+      }))
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse, validateMatchRunUpdate } from '@/lib/validation';
+import { getMatchRun, deleteMatchRun, replaceMatchRun } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ matchId: string }>;
+}
+
+/**
+ * Saved Match Run API
+ * 
+ * @param request - GET request
+ * @returns The run with its mission, matches and recommendations
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    const run = await getMatchRun(user.userId, matchId);
+    if (!run) {
+      return NextResponse.json({ 
+        error: 'Match run not found' 
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      run: {
+        id: run.id,
+        mission: run.mission,
+        matches: run.matches,
+        recommendations: run.recommendations,
+        matchCount: run.matchCount,
+        revision: run.revision,
+        createdAt: run.createdAt,
+        updatedAt: run.updatedAt
+      }
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Update Saved Match Run API
+ * 
+ * Replaces the results of a saved run, e.g. after searching again with an
+ * edited mission. The previous results are kept as a revision (see
+ * /api/matches/[matchId]/revisions).
+ * 
+ * @param request - JSON with mission, matches, recommendations and optionally
+ *   the revision the client last loaded, to reject updates based on stale results
+ * @returns The run's new revision
+ */
+async function handlePut(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    // Validate request body
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const updateValidation = validateMatchRunUpdate(bodyValidation.data);
+    if (!updateValidation.isValid) {
+      return createValidationErrorResponse(updateValidation.errors);
+    }
+
+    const { mission, matches, recommendations, revision } = updateValidation.data;
+
+    const current = await getMatchRun(user.userId, matchId);
+    if (!current) {
+      return NextResponse.json({ 
+        error: 'Match run not found' 
+      }, { status: 404 });
+    }
+
+    if (revision !== undefined && revision !== current.revision) {
+      return NextResponse.json({
+        error: 'Match run was updated since it was loaded',
+        revision: current.revision
+      }, { status: 409 });
+    }
+
+    const updated = await replaceMatchRun(current, { mission, matches, recommendations });
+    if (!updated) {
+      return NextResponse.json({
+        error: 'Match run was updated by a concurrent request'
+      }, { status: 409 });
+    }
+
+    console.log(`Updated match run ${matchId} to revision ${updated.revision} for user ${user.userId}`);
+
+    return NextResponse.json({
+      success: true,
+      run: {
+        id: updated.id,
+        mission: updated.mission,
+        matchCount: updated.matchCount,
+        revision: updated.revision,
+        createdAt: updated.createdAt,
+        updatedAt: updated.updatedAt
+      }
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Delete Saved Match Run API
+ * 
+ * @param request - DELETE request
+ * @returns Confirmation of the deletion
+ */
+async function handleDelete(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { matchId } = await context.params;
+
+    const deleted = await deleteMatchRun(user.userId, matchId);
+    if (!deleted) {
+      return NextResponse.json({ 
+        error: 'Match run not found' 
+      }, { status: 404 });
+    }
+
+    console.log(`Deleted match run ${matchId} for user ${user.userId}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Match run deleted'
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(handlePut);
+export const DELETE = withAuth(handleDelete);
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { createValidationErrorResponse } from '@/lib/validation';
+import { listMatchRuns, migrateLegacyMatchRuns } from '@/lib/utils';
+import { MatchRunSortField } from '@/lib/repository';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const SORT_FIELDS: MatchRunSortField[] = ['createdAt', 'mission', 'matchCount'];
+
+/**
+ * Saved Match Runs API
+ * 
+ * Pages through the user's saved match runs. Runs are listed without their
+ * matches; load a single run through /api/matches/[matchId].
+ * 
+ * @param request - GET request with optional `limit` (default 20, max 100),
+ *   `offset`, `sortBy` (createdAt, mission or matchCount) and `order` (asc or desc)
+ * @returns Run summaries and the total number of runs
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+    const offset = params.has('offset') ? Number(params.get('offset')) : 0;
+    const sortBy = (params.get('sortBy') || 'createdAt') as MatchRunSortField;
+    const order = params.get('order') || (sortBy === 'mission' ? 'asc' : 'desc');
+
+    const errors: string[] = [];
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+      errors.push(`Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      errors.push('Offset must be a non-negative integer');
+    }
+    if (!SORT_FIELDS.includes(sortBy)) {
+      errors.push(`Sort field must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
+    if (order !== 'asc' && order !== 'desc') {
+      errors.push('Order must be asc or desc');
+    }
+    if (errors.length > 0) {
+      return createValidationErrorResponse(errors);
+    }
+
+    await migrateLegacyMatchRuns(user.email, user.userId);
+
+    const { runs, total } = await listMatchRuns(user.userId, { limit, offset, sortBy, order: order as 'asc' | 'desc' });
+
+    return NextResponse.json({
+      success: true,
+      runs: runs.map(run => ({
+        id: run.id,
+        mission: run.mission,
+        matchCount: run.matchCount,
+        revision: run.revision,
+        createdAt: run.createdAt,
+        updatedAt: run.updatedAt
+      })),
+      total,
+      limit,
+      offset,
+      hasMore: offset + runs.length < total
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
 import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
 import { validateMissionStatement, createValidationErrorResponse, validateRequestBody } from '@/lib/validation';
+import { getWorkspaceTaxonomy, compileTaxonomy, classifyMission } from '@/lib/taxonomy';
 
 /**
  * Mission Statement Parser API
@@ -12,8 +13,11 @@ import { validateMissionStatement, createValidationErrorResponse, validateReques
  * - Role: Type of role or relationship being sought
  * - Description: Brief summary of the mission
  * 
+ * The industry is steered towards the workspace taxonomy's labels, and the mission
+ * is classified into taxonomy IDs (industry, sub-industry, role family, seniority).
+ * 
  * @param request - Contains mission statement in JSON body
- * @returns Structured attributes extracted from the mission
+ * @returns Structured attributes extracted from the mission and its classification
  */
 async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
   try {
@@ -45,6 +49,7 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
     });
 
     const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
+    const { taxonomy } = await getWorkspaceTaxonomy(user.userId);
 
     // Create structured prompt for attribute extraction
     const prompt = `
@@ -54,7 +59,7 @@ Mission: "${mission}"
 
 Extract and return ONLY a valid JSON object with these exact fields:
 {
-  "industry": "the primary industry or sector",
+  "industry": "the primary industry or sector, preferably one of: ${taxonomy.industries.map(industry => industry.label).join(', ')}",
   "location": "the geographic location or region", 
   "role": "the type of role or relationship being sought",
   "description": "a brief summary of the mission"
@@ -120,6 +125,7 @@ CRITICAL: Return ONLY the JSON object. No explanations, no markdown, no addition
     return NextResponse.json({
       success: true,
       attributes,
+      classification: classifyMission(mission, attributes, compileTaxonomy(taxonomy)),
       originalMission: mission,
       userId: user.userId
     });
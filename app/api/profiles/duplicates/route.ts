@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { findDuplicateProfiles } from '@/lib/utils';
+
+/**
+ * Duplicate Contacts API
+ * 
+ * Lists groups of the user's contacts that share a normalized name but were not
+ * merged automatically (different LinkedIn URLs or emails, or an ambiguous
+ * company). Each record carries the `key` used to merge it via /api/profiles/merges.
+ * 
+ * @returns Groups of possibly duplicated contacts
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const groups = await findDuplicateProfiles(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      groups: groups.map(profiles => profiles.map(profile => ({
+        key: profile.uniqueKey,
+        name: profile.name,
+        title: profile.title,
+        company: profile.company,
+        location: profile.location,
+        linkedinUrl: profile.linkedinUrl,
+        email: profile.email,
+        connectedOn: profile.connectedOn
+      })))
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { createValidationErrorResponse } from '@/lib/validation';
+import { getRecentJobChanges, getPreviousRole } from '@/lib/utils';
+
+const DEFAULT_WINDOW_DAYS = 90;
+const MAX_WINDOW_DAYS = 3650;
+
+/**
+ * Recently Changed Jobs API
+ * 
+ * Lists contacts whose title or company changed between imports or profile
+ * enrichments, with the role they held before. A new job is a natural reason
+ * to reach out.
+ * 
+ * @param request - GET request with optional `days` window (default 90)
+ * @returns Contacts with their current and previous roles, most recent change first
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const daysParam = request.nextUrl.searchParams.get('days');
+    const days = daysParam === null ? DEFAULT_WINDOW_DAYS : Number(daysParam);
+    if (!Number.isInteger(days) || days <= 0 || days > MAX_WINDOW_DAYS) {
+      return createValidationErrorResponse([`Days must be an integer between 1 and ${MAX_WINDOW_DAYS}`]);
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const profiles = await getRecentJobChanges(user.userId, since);
+
+    return NextResponse.json({
+      success: true,
+      days,
+      contacts: profiles.map(profile => ({
+        id: profile.id,
+        name: profile.name,
+        title: profile.title,
+        company: profile.company,
+        location: profile.location,
+        linkedinUrl: profile.linkedinUrl,
+        profilePicture: profile.profilePicture,
+        jobChangedAt: profile.jobChangedAt,
+        previousRole: getPreviousRole(profile)
+      }))
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
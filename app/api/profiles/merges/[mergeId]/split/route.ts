@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { splitProfileRecord } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ mergeId: string }>;
+}
+
+/**
+ * Contact Split API
+ * 
+ * Undoes a merge: the absorbed record is restored as its own contact (and a
+ * manually merged survivor is reverted). Restored records are not merged again
+ * by name on later imports, only by LinkedIn URL or email.
+ * 
+ * @param request - POST request
+ * @returns Key of the survivor and the time of the split
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { mergeId } = await context.params;
+
+    if (!mergeId.startsWith(`merge-${user.userId}-`)) {
+      return NextResponse.json({ 
+        error: 'Access denied to this merge' 
+      }, { status: 403 });
+    }
+
+    const entry = await splitProfileRecord(user.userId, mergeId);
+    if (!entry) {
+      return NextResponse.json({ 
+        error: 'Merge not found or already split' 
+      }, { status: 404 });
+    }
+
+    console.log(`Split contact ${entry.mergedName} from ${entry.survivorName} for user ${user.userId}`);
+
+    return NextResponse.json({
+      success: true,
+      mergeId: entry.mergeId,
+      survivorKey: entry.survivorKey,
+      splitAt: entry.splitAt
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const POST = withAuth(handlePost);
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse } from '@/lib/validation';
+import { getMergeLog, mergeProfileRecords } from '@/lib/utils';
+import { ProfileMergeLog } from '@/lib/mongodb';
+
+const toMergeSummary = (entry: ProfileMergeLog) => ({
+  mergeId: entry.mergeId,
+  survivorKey: entry.survivorKey,
+  mergedKey: entry.mergedKey,
+  rule: entry.rule,
+  source: entry.source,
+  survivorName: entry.survivorName,
+  mergedName: entry.mergedName,
+  createdAt: entry.createdAt,
+  splitAt: entry.splitAt
+});
+
+/**
+ * Contact Merge Log API
+ * 
+ * Returns the user's merge history: merges made during imports by entity
+ * resolution (matched on LinkedIn URL, email or name + company) and manual ones.
+ * 
+ * @returns Merge log entries, newest first
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const merges = await getMergeLog(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      merges: merges.map(toMergeSummary)
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Manual Contact Merge API
+ * 
+ * Merges one contact record into another. Empty fields on the survivor are
+ * filled from the merged record, which is removed and kept in the merge log so
+ * the merge can be split again.
+ * 
+ * @param request - JSON with survivorKey and mergedKey
+ * @returns The merge log entry
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    // Validate request body
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const { survivorKey, mergedKey } = bodyValidation.data;
+
+    const errors: string[] = [];
+    if (!survivorKey || typeof survivorKey !== 'string') {
+      errors.push('Survivor key is required');
+    }
+    if (!mergedKey || typeof mergedKey !== 'string') {
+      errors.push('Merged key is required');
+    }
+    if (survivorKey && survivorKey === mergedKey) {
+      errors.push('Cannot merge a contact into itself');
+    }
+    if (errors.length > 0) {
+      return createValidationErrorResponse(errors);
+    }
+
+    const entry = await mergeProfileRecords(user.userId, survivorKey, mergedKey);
+    if (!entry) {
+      return NextResponse.json({ 
+        error: 'Contact not found' 
+      }, { status: 404 });
+    }
+
+    console.log(`Merged contact ${entry.mergedName} into ${entry.survivorName} for user ${user.userId}`);
+
+    return NextResponse.json({
+      success: true,
+      merge: toMergeSummary(entry)
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const POST = withAuth(handlePost);
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase, UserProfile, UserMatch } from '@/lib/mongodb';
+import { UserProfile } from '@/lib/mongodb';
 import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
 import { validateRequestBody, createValidationErrorResponse, validateEmail } from '@/lib/validation';
+import { getUserProfile, createUserProfile, updateUserProfile, saveMatchRun } from '@/lib/utils';
 
 /**
- * Save user data to MongoDB
- * This includes profiles and matches for a specific user
+ * Save user data to storage
+ * Updates the user's profile and saves the match run, if any, to the match run collection
  */
 async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
   try {
@@ -26,51 +27,16 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
       return createValidationErrorResponse(emailValidation.errors);
     }
 
-    const db = await getDatabase();
-    const usersCollection = db.collection<UserProfile>('users');
-
     // Check if user already exists
-    const existingUser = await usersCollection.findOne({ email: userEmail });
+    const existingUser = await getUserProfile(userEmail);
+    let userId = existingUser?._id;
 
     if (existingUser) {
       // Update existing user
-      const updateData: Partial<UserProfile> = {
+      await updateUserProfile(userEmail, {
         name,
         imageUrl,
         updatedAt: new Date(),
-      };
-
-      // Add new match if provided
-      if (matches && matches.length > 0 && mission && recommendations) {
-        const newMatch: UserMatch = {
-          id: `match_${Date.now()}`,
-          mission,
-          matches,
-          recommendations,
-          createdAt: new Date(),
-        };
-        
-        // Check if a similar match already exists (same mission and same number of matches)
-        const existingMatch = existingUser.matches.find(existing => 
-          existing.mission === mission && 
-          existing.matches.length === matches.length &&
-          Math.abs(new Date(existing.createdAt).getTime() - newMatch.createdAt.getTime()) < 300000 // Within 5 minutes
-        );
-        
-        if (!existingMatch) {
-          updateData.matches = [...existingUser.matches, newMatch];
-        }
-      }
-
-      await usersCollection.updateOne(
-        { email: userEmail },
-        { $set: updateData }
-      );
-
-      return NextResponse.json({ 
-        success: true, 
-        message: 'User data updated successfully',
-        userId: existingUser._id 
       });
     } else {
       // Create new user
@@ -78,32 +44,27 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
         email: userEmail,
         name: name || user.email.split('@')[0],
         imageUrl,
-        matches: [],
         createdAt: new Date(),
         updatedAt: new Date(),
       };
 
-      // Add initial match if provided
-      if (matches && matches.length > 0 && mission && recommendations) {
-        const initialMatch: UserMatch = {
-          id: `match_${Date.now()}`,
-          mission,
-          matches,
-          recommendations,
-          createdAt: new Date(),
-        };
-        newUser.matches = [initialMatch];
-      }
-
-      const result = await usersCollection.insertOne(newUser);
+      userId = await createUserProfile(newUser);
+    }
 
-      return NextResponse.json({ 
-        success: true, 
-        message: 'User data saved successfully',
-        userId: result.insertedId,
-        userEmail: userEmail
-      });
+    // Save the match run in its own collection if provided
+    let matchId: string | undefined;
+    if (matches && matches.length > 0 && mission && recommendations) {
+      const run = await saveMatchRun(user.userId, { mission, matches, recommendations });
+      matchId = run.id;
     }
+
+    return NextResponse.json({ 
+      success: true, 
+      message: existingUser ? 'User data updated successfully' : 'User data saved successfully',
+      userId,
+      userEmail,
+      matchId
+    });
   } catch (err) {
     console.error('Error saving user data:', err);
     return NextResponse.json(
@@ -56,22 +56,22 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
     console.log(`- Email: ${profile.email ? 'Found' : 'Not found'}`);
     console.log(`- Skills: ${profile.skills?.length || 0} skills found`);
 
-    // Store in MongoDB with user isolation
-    await addProfile(profile, user.userId);
+    // Store in MongoDB with user isolation (title/company changes are recorded as enrichment)
+    const stored = await addProfile(profile, user.userId, 'enrichment');
 
     return NextResponse.json({
       success: true,
       message: 'Profile scraped successfully',
       profile: {
-        id: profile.id,
-        name: profile.name,
-        title: profile.title,
-        company: profile.company,
-        location: profile.location,
-        industry: profile.industry,
-        linkedinUrl: profile.linkedinUrl,
-        summary: profile.summary,
-        uploadSessionId: profile.uploadSessionId
+        id: stored.id,
+        name: stored.name,
+        title: stored.title,
+        company: stored.company,
+        location: stored.location,
+        industry: stored.industry,
+        linkedinUrl: stored.linkedinUrl,
+        summary: stored.summary,
+        uploadSessionId: stored.uploadSessionId
       },
       userId: user.userId
     });
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse, validateSearchDefaults } from '@/lib/validation';
+import { saveWorkspaceSettings, clearWorkspaceSettings } from '@/lib/utils';
+import { getSearchDefaults, SearchDefaults } from '@/lib/search-paging';
+
+/**
+ * Search Defaults API
+ *
+ * Matches per page (`limit`) and similarity threshold (`minSimilarity`) used by
+ * searches that don't set them. Unset values fall back to each endpoint's own
+ * defaults.
+ *
+ * @param request - GET request
+ * @returns The user's saved search defaults
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const searchDefaults = await getSearchDefaults(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      searchDefaults
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Save search defaults
+ *
+ * @param request - PUT with { searchDefaults: { limit?, minSimilarity? } }
+ * @returns The saved defaults
+ */
+async function handlePut(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const defaultsValidation = validateSearchDefaults(bodyValidation.data.searchDefaults);
+    if (!defaultsValidation.isValid) {
+      return createValidationErrorResponse(defaultsValidation.errors);
+    }
+    const searchDefaults = defaultsValidation.data as SearchDefaults;
+
+    await saveWorkspaceSettings(user.userId, { searchDefaults });
+
+    return NextResponse.json({
+      success: true,
+      searchDefaults
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Clear search defaults
+ *
+ * @param request - DELETE request
+ * @returns Empty defaults
+ */
+async function handleDelete(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    await clearWorkspaceSettings(user.userId, ['searchDefaults']);
+
+    return NextResponse.json({
+      success: true,
+      searchDefaults: {}
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(handlePut);
+export const DELETE = withAuth(handleDelete);
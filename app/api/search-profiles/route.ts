@@ -1,16 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
-import { validateRequestBody, createValidationErrorResponse, validateMissionStatement } from '@/lib/validation';
-import { getProfilesBySession, generateProfileText, generateMissionText, findTopMatches, MissionAttributes } from '@/lib/utils';
-import { getDatabase } from '@/lib/mongodb';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse, validateMissionStatement, validateRecencyOptions, validateRankingOptions, validateSearchFilters, validateSearchScope, validateSearchPaging, validateDiversityOptions } from '@/lib/validation';
+import { getMatchRun, getMissionKey, getProfilesByIds, generateMissionText, filterByRecency, MissionAttributes, RecencyOptions } from '@/lib/utils';
+import { embedQueryText, getEmbeddingModelId, isEmbeddingCurrent } from '@/lib/embedding-cache';
+import { startEmbeddingJobsForProfiles, EmbeddingJobProgress } from '@/lib/embedding-jobs';
+import { findHybridMatches, HybridRankingOptions } from '@/lib/hybrid-search';
+import { getWorkspaceTaxonomy, getTaxonomyIds, compileTaxonomy, classifyProfile, classifyMission, scoreTaxonomyMatch, TaxonomyClassification } from '@/lib/taxonomy';
+import { createProfileFilter, getActiveFilters, SearchFilters } from '@/lib/search-filters';
+import { loadScopeProfiles, SearchScope } from '@/lib/search-scope';
+import { resolveSearchPage, takeSearchPage, SearchPage } from '@/lib/search-paging';
+import { diversifyMatches, DiversityOptions, DIVERSITY_POOL_SIZE } from '@/lib/diversity';
+import { loadMissionFeedback, adjustQueryWithFeedback } from '@/lib/relevance-feedback';
+import { explainHybridMatch } from '@/lib/score-breakdown';
 
 /**
  * Fast Profile Search API
  * 
- * 1. Gets profiles from current session (fast, no database)
- * 2. Uses AI to find best matches
- * 3. Only enriches matched profiles with RapidAPI
+ * 1. Gets the profiles in scope: all of the user's contacts, or the sessions
+ *    given as `sessionIds` (or a single `sessionId`); `scope: 'all'` forces
+ *    a search across every upload and import
+ * 2. Optionally filters or boosts by connection recency, and applies structured
+ *    `filters` (location and radius, workspace taxonomy industry/role/seniority,
+ *    companies to include or exclude, connection date, has email, enriched only)
+ * 3. Ranks profiles by BM25 keyword relevance fused with embedding similarity
+ *    (see hybrid-search; profiles still waiting for the background embedding
+ *    job rank by keywords only); `ranking` overrides the fusion method and weights.
+ *    Profiles sharing the mission's industry or role family get a small boost.
+ *    With `diversity`, the top of the ranking is re-ranked by maximal marginal
+ *    relevance so matches spread over companies and roles (see diversity)
+ * 4. Returns the page of `limit` matches at `offset` (or `cursor`) above
+ *    `minSimilarity`; unset values come from the user's search defaults, then
+ *    6 matches at 0.2. Later pages skip the overall recommendations
+ * 5. Only enriches matched profiles with RapidAPI
+ *
+ * Contacts marked irrelevant in a saved run of the same mission are left out;
+ * with `runId`, that run's relevant/irrelevant verdicts also move the mission
+ * embedding (Rocchio, see relevance-feedback).
+ *
+ * Each match has a `scoreBreakdown` of its ranking score (see score-breakdown).
  */
 async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
   try {
@@ -20,7 +48,7 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
       return createValidationErrorResponse(bodyValidation.errors);
     }
 
-    const { mission, sessionId, attributes } = bodyValidation.data;
+    const { mission, attributes } = bodyValidation.data;
 
     // Validate mission statement
     const missionValidation = validateMissionStatement(mission);
@@ -28,316 +56,197 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
       return createValidationErrorResponse(missionValidation.errors);
     }
 
-    // Validate session ID
-    if (!sessionId) {
-      return NextResponse.json({
-        error: 'Session ID is required',
-        message: 'Please upload a CSV file first to get a session ID'
-      }, { status: 400 });
+    // Validate connection recency options
+    const recencyValidation = validateRecencyOptions(bodyValidation.data.recency);
+    if (!recencyValidation.isValid) {
+      return createValidationErrorResponse(recencyValidation.errors);
+    }
+    const recency = recencyValidation.data as RecencyOptions | undefined;
+
+    // Validate hybrid ranking overrides
+    const rankingValidation = validateRankingOptions(bodyValidation.data.ranking);
+    if (!rankingValidation.isValid) {
+      return createValidationErrorResponse(rankingValidation.errors);
+    }
+    const ranking = rankingValidation.data as Partial<HybridRankingOptions> | undefined;
+
+    // Validate diversity re-ranking
+    const diversityValidation = validateDiversityOptions(bodyValidation.data.diversity);
+    if (!diversityValidation.isValid) {
+      return createValidationErrorResponse(diversityValidation.errors);
+    }
+    const diversity = diversityValidation.data as DiversityOptions | undefined;
+
+    // Validate paging; unset values come from the user's search defaults
+    const pagingValidation = validateSearchPaging(bodyValidation.data);
+    if (!pagingValidation.isValid) {
+      return createValidationErrorResponse(pagingValidation.errors);
+    }
+    const page = await resolveSearchPage(user.userId, pagingValidation.data as Partial<SearchPage>, {
+      limit: 6,
+      minSimilarity: 0.2 // Profiles without keyword hits need a balanced semantic threshold
+    });
+
+    // Validate structured filters; taxonomy IDs must exist in the workspace taxonomy
+    const { taxonomy } = await getWorkspaceTaxonomy(user.userId);
+    const filterValidation = validateSearchFilters(bodyValidation.data.filters, getTaxonomyIds(taxonomy));
+    if (!filterValidation.isValid) {
+      return createValidationErrorResponse(filterValidation.errors);
+    }
+    const filters = filterValidation.data as SearchFilters | undefined;
+
+    // Validate search scope
+    const scopeValidation = validateSearchScope(bodyValidation.data);
+    if (!scopeValidation.isValid) {
+      return createValidationErrorResponse(scopeValidation.errors);
     }
+    const scope = scopeValidation.data as SearchScope;
 
-    // Verify the session belongs to the authenticated user
-    if (!sessionId.startsWith(`upload-${user.userId}-`) && !sessionId.startsWith(`user-${user.userId}-`)) {
+    // Verify the sessions belong to the authenticated user
+    if (scope.sessionIds?.some(sessionId => !isUserSessionId(sessionId, user.userId))) {
       return NextResponse.json({
         error: 'Unauthorized',
         message: 'You can only search profiles from your own uploads'
       }, { status: 403 });
     }
 
-    // Get profiles from database with user isolation
-    const profiles = await getProfilesBySession(sessionId, user.userId);
+    // Load relevance feedback for the mission, and the verdicts of the run being re-ranked
+    const runId = bodyValidation.data.runId;
+    if (runId !== undefined && typeof runId !== 'string') {
+      return createValidationErrorResponse(['runId must be a string']);
+    }
+    if (runId) {
+      const run = await getMatchRun(user.userId, runId);
+      if (!run) {
+        return NextResponse.json({
+          error: 'Match run not found'
+        }, { status: 404 });
+      }
+      // Another mission's verdicts would pull the query towards the wrong contacts
+      if (getMissionKey(run.mission) !== getMissionKey(mission)) {
+        return createValidationErrorResponse(['runId must be a match run of the same mission']);
+      }
+    }
+    const feedback = await loadMissionFeedback(user.userId, mission, runId);
+
+    // Get profiles from database with user isolation (vectors are loaded by the search)
+    const sessionProfiles = await loadScopeProfiles(user.userId, scope, false);
     
-    console.log(`Session ID: ${sessionId}`);
-    console.log(`Found ${profiles.length} profiles in database`);
+    console.log(`Search scope: ${scope.sessionIds ? scope.sessionIds.join(', ') : 'all contacts'}`);
+    console.log(`Found ${sessionProfiles.length} profiles in database`);
     
-    if (profiles.length === 0) {
+    if (sessionProfiles.length === 0) {
       return NextResponse.json({
-        error: 'No profiles found for this session',
+        error: scope.sessionIds ? 'No profiles found for the selected sessions' : 'No profiles found',
         message: 'Please upload a CSV file first'
       }, { status: 400 });
     }
 
-    console.log(`Searching through ${profiles.length} profiles for session ${sessionId}`);
+    // Classify contacts with the workspace taxonomy
+    const compiledTaxonomy = compileTaxonomy(taxonomy);
+    const classifications = new Map<string, TaxonomyClassification>(
+      sessionProfiles.map(profile => [profile.id, classifyProfile(profile, compiledTaxonomy)])
+    );
 
-    // Validate Azure OpenAI configuration
-    if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
-      return NextResponse.json({ 
-        error: 'Azure OpenAI configuration missing' 
-      }, { status: 500 });
+    // Keep only relationships active since the requested date that pass the filters and weren't rejected, before ranking
+    const passesFilters = filters ? createProfileFilter(filters, profile => classifications.get(profile.id)!) : () => true;
+    const unrejected = sessionProfiles.filter(profile => !feedback.rejectedIds.has(profile.id));
+    const profiles = filterByRecency(unrejected, recency?.connectedAfter).filter(passesFilters);
+    if (profiles.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: filters
+          ? 'No contacts match the selected period and filters. Try broadening your filters.'
+          : 'No contacts were connected or messaged within the selected period. Try a longer time range.',
+        matches: [],
+        totalProfiles: sessionProfiles.length,
+        relevantProfiles: 0,
+        scope,
+        userId: user.userId
+      });
     }
 
-    // Initialize Azure OpenAI client
-    const openai = new OpenAI({
-      apiKey: process.env.AZURE_OPENAI_API_KEY,
-      baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/v1`,
-    });
+    console.log(`Searching through ${profiles.length} profiles`);
 
-    const embeddingsDeployment = 'text-embedding-3-large';
+    // Initialize Azure OpenAI client for match reasoning and recommendations; without
+    // it (e.g. offline with EMBEDDING_PROVIDER=local) matches get the fallback reasoning
+    const openai = process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT
+      ? new OpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/v1`,
+      })
+      : null;
+
+    const embeddingModelId = getEmbeddingModelId();
     const gptDeployment = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
 
     // Step 1: Generate mission embedding
     const missionText = generateMissionText(mission, attributes as MissionAttributes);
-    const missionEmbeddingResponse = await openai.embeddings.create({
-      model: embeddingsDeployment,
-      input: missionText
-    });
-    const missionEmbedding = missionEmbeddingResponse.data[0].embedding;
-
-    // Step 2: Precise pre-filtering using industry and role matching
-    console.log(`Pre-filtering ${profiles.length} profiles using precise industry/role matching...`);
-    
-    // Extract specific industry and role keywords from mission
-    const missionTextLower = mission.toLowerCase();
-    const missionKeywords = missionTextLower
-      .split(/\s+/)
-      .filter((word: string) => word.length > 2)
-      .filter((word: string) => !['looking', 'find', 'want', 'need', 'seeking', 'searching', 'for', 'the', 'and', 'or', 'in', 'at', 'to', 'with', 'people', 'professionals', 'experts', 'specialists'].includes(word));
-    
-    // Industry-specific keyword matching
-    const industryKeywords = {
-      'construction': ['construction', 'contractor', 'contracting', 'building', 'civil', 'engineering', 'infrastructure', 'development', 'project', 'site', 'architect', 'architectural'],
-      'technology': ['software', 'tech', 'technology', 'developer', 'engineer', 'programming', 'coding', 'data', 'ai', 'machine', 'learning', 'startup', 'digital'],
-      'healthcare': ['healthcare', 'medical', 'health', 'doctor', 'nurse', 'hospital', 'clinic', 'pharmaceutical', 'biotech', 'medicine'],
-      'finance': ['finance', 'financial', 'banking', 'investment', 'trading', 'accounting', 'audit', 'risk', 'compliance', 'wealth'],
-      'education': ['education', 'teaching', 'academic', 'university', 'school', 'research', 'professor', 'instructor', 'learning'],
-      'marketing': ['marketing', 'advertising', 'brand', 'digital', 'social', 'content', 'creative', 'design', 'communications'],
-      'sales': ['sales', 'business', 'development', 'account', 'client', 'revenue', 'growth', 'partnership', 'relationship']
-    };
-    
-    // Determine primary industry from mission
-    let primaryIndustry = null;
-    let industryScore = 0;
-    for (const [industry, keywords] of Object.entries(industryKeywords)) {
-      const matches = keywords.filter(keyword => missionTextLower.includes(keyword)).length;
-      if (matches > industryScore) {
-        industryScore = matches;
-        primaryIndustry = industry;
-      }
-    }
-    
-    console.log(`Detected primary industry: ${primaryIndustry} (score: ${industryScore})`);
-    
-    // Score profiles based on balanced industry and role matching
-    const scoredProfiles = profiles.map(profile => {
-      let score = 0;
-      let industryMatch = false;
-      let roleMatch = false;
-      
-      const profileText = `${profile.title || ''} ${profile.company || ''} ${profile.industry || ''} ${profile.summary || ''}`.toLowerCase();
-      
-      // Check for industry match (more flexible)
-      if (primaryIndustry && industryKeywords[primaryIndustry as keyof typeof industryKeywords]) {
-        const industryKeywordsList = industryKeywords[primaryIndustry as keyof typeof industryKeywords];
-        const industryMatches = industryKeywordsList.filter(keyword => profileText.includes(keyword)).length;
-        if (industryMatches > 0) {
-          industryMatch = true;
-          score += industryMatches * 4; // Strong weight for industry match
-        }
-      }
-      
-      // Check for role/title match (more inclusive)
-      const roleKeywords = ['contractor', 'manager', 'director', 'lead', 'senior', 'specialist', 'expert', 'consultant', 'freelancer', 'independent', 'owner', 'founder', 'ceo', 'president', 'vp', 'vice', 'head', 'chief'];
-      const roleMatches = roleKeywords.filter(keyword => profileText.includes(keyword)).length;
-      if (roleMatches > 0) {
-        roleMatch = true;
-        score += roleMatches * 2; // Medium weight for role match
-      }
-      
-      // Check for company type match (more flexible)
-      const companyKeywords = ['construction', 'building', 'contracting', 'development', 'engineering', 'infrastructure', 'architectural', 'civil', 'project', 'site'];
-      const companyMatches = companyKeywords.filter(keyword => profileText.includes(keyword)).length;
-      if (companyMatches > 0) {
-        score += companyMatches * 2;
-      }
-      
-      // Check for location match (if specified in mission)
-      if (profile.location) {
-        const locationKeywords = missionKeywords.filter(keyword => 
-          profile.location!.toLowerCase().includes(keyword) || keyword.includes(profile.location!.toLowerCase())
-        );
-        if (locationKeywords.length > 0) {
-          score += locationKeywords.length * 1;
-        }
-      }
-      
-      // Give some score to all profiles to ensure we have candidates
-      if (score === 0) {
-        score = 0.5; // Small base score for all profiles
-      }
-      
-      return { ...profile, textScore: score, industryMatch, roleMatch };
-    });
-    
-    // Sort by score and take top candidates (more inclusive)
-    const topCandidates = scoredProfiles
-      .sort((a, b) => b.textScore - a.textScore)
-      .slice(0, 20); // Increased to 20 for more candidates
-    
-    console.log(`Pre-filtered to ${topCandidates.length} top candidates for embedding generation`);
-    console.log(`Top candidates scores:`, topCandidates.slice(0, 10).map(p => ({ name: p.name, score: p.textScore })));
-    
-    // Step 3: Generate embeddings only for top candidates
-    const candidatesToProcess = topCandidates.filter(p => !p.embedding || p.embedding.length === 0);
-    
-    if (candidatesToProcess.length > 0) {
-      console.log(`Generating embeddings for ${candidatesToProcess.length} top candidates...`);
-      
-      // Process in parallel batches for maximum speed (5 batches of 10 profiles each)
-      const batchSize = 10;
-      const maxConcurrentBatches = 5;
-      const batches = [];
-      for (let i = 0; i < candidatesToProcess.length; i += batchSize) {
-        batches.push(candidatesToProcess.slice(i, i + batchSize));
-      }
-      
-      console.log(`Processing ${batches.length} batches of up to ${batchSize} profiles each with ${maxConcurrentBatches} concurrent batches...`);
-      
-      // Process batches in parallel groups
-      const batchGroups = [];
-      for (let i = 0; i < batches.length; i += maxConcurrentBatches) {
-        batchGroups.push(batches.slice(i, i + maxConcurrentBatches));
-      }
-      
-      for (let groupIndex = 0; groupIndex < batchGroups.length; groupIndex++) {
-        const batchGroup = batchGroups[groupIndex];
-        console.log(`Processing batch group ${groupIndex + 1}/${batchGroups.length} (${batchGroup.length} batches)...`);
-        
-        // Process all batches in this group in parallel
-        const groupPromises = batchGroup.map(async (batch, batchIndex) => {
-          console.log(`Starting batch ${groupIndex * maxConcurrentBatches + batchIndex + 1} (${batch.length} profiles)...`);
-          
-          // Process all profiles in this batch in parallel
-          const batchPromises = batch.map(async (profile) => {
-            try {
-              const profileText = generateProfileText(profile);
-              
-              const embeddingResponse = await openai.embeddings.create({
-                model: embeddingsDeployment,
-                input: profileText
-              });
-
-              profile.embedding = embeddingResponse.data[0].embedding;
-              console.log(`✓ Generated embedding for ${profile.name}`);
-              return { success: true, profile };
-            } catch (error) {
-              console.error(`✗ Failed to generate embedding for ${profile.name}:`, error);
-              return { success: false, profile, error };
-            }
-          });
-          
-          // Wait for this batch to complete
-          const batchResults = await Promise.all(batchPromises);
-          const successful = batchResults.filter(r => r.success).length;
-          console.log(`✓ Batch ${groupIndex * maxConcurrentBatches + batchIndex + 1} completed: ${successful}/${batch.length} successful`);
-          
-          return { batchIndex, successful, total: batch.length };
-        });
-        
-        // Wait for all batches in this group to complete
-        const groupResults = await Promise.all(groupPromises);
-        const totalSuccessful = groupResults.reduce((sum, result) => sum + result.successful, 0);
-        const totalProfiles = groupResults.reduce((sum, result) => sum + result.total, 0);
-        console.log(`✓ Batch group ${groupIndex + 1} completed: ${totalSuccessful}/${totalProfiles} profiles successful`);
-        
-        // Small delay between batch groups to avoid overwhelming the API
-        if (groupIndex < batchGroups.length - 1) {
-          console.log('Waiting 1 second before next batch group...');
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-      
-      // Save only the processed candidates with embeddings back to database
-      const candidatesWithNewEmbeddings = candidatesToProcess.filter(p => p.embedding && p.embedding.length > 0);
-      if (candidatesWithNewEmbeddings.length > 0) {
-        // Update only the specific profiles with embeddings in the database
-        const db = await getDatabase();
-        const profilesCollection = db.collection('profiles');
-        
-        const updatePromises = candidatesWithNewEmbeddings.map(async (profile) => {
-          const uniqueKey = `${user.userId}-${profile.name.toLowerCase().trim()}-${(profile.company || 'unknown').toLowerCase().trim()}`;
-          return profilesCollection.updateOne(
-            { uniqueKey: uniqueKey },
-            { $set: { embedding: profile.embedding, lastUpdated: new Date() } }
-          );
-        });
-        
-        await Promise.all(updatePromises);
-        console.log(`Updated ${candidatesWithNewEmbeddings.length} profiles with new embeddings in database`);
-      }
-      console.log(`Completed embedding generation for ${candidatesToProcess.length} top candidates`);
+    const missionEmbedding = await embedQueryText(missionText);
+    const missionClassification = classifyMission(mission, attributes as MissionAttributes | undefined, compiledTaxonomy);
+    const queryEmbedding = await adjustQueryWithFeedback(user.userId, missionEmbedding, feedback);
+
+    // Step 2: Embeddings are generated by the background job; make sure it covers anything missing or stale
+    const pendingProfiles = profiles.filter(p => !isEmbeddingCurrent(p, embeddingModelId));
+    const pendingCount = pendingProfiles.length;
+    const embeddedCount = profiles.length - pendingCount;
+    let embeddingJob: EmbeddingJobProgress | undefined;
+    if (pendingCount > 0) {
+      console.log(`${pendingCount} profiles are waiting for embeddings, ranking them by keywords only`);
+      embeddingJob = await startEmbeddingJobsForProfiles(user.userId, pendingProfiles);
     }
 
-    // Step 4: Check if we have any relevant candidates
-    if (topCandidates.length === 0) {
-      console.log('No relevant profiles found for this mission');
+    // Step 3: Rank by BM25 over profile fields fused with embedding similarity, down to the requested page
+    const needed = page.offset + page.limit + 1;
+    const ranked = await findHybridMatches(user.userId, scope, missionText, queryEmbedding, profiles, {
+      topN: diversity ? Math.max(DIVERSITY_POOL_SIZE, needed) : needed,
+      minSimilarity: page.minSimilarity,
+      recency,
+      ranking,
+      boost: profile => scoreTaxonomyMatch(classifications.get(profile.id)!, missionClassification)
+    });
+    const ordered = diversity ? diversifyMatches(ranked, match => match.score, diversity, needed) : ranked;
+    const { matches, pagination } = takeSearchPage(ordered, page);
+    console.log(`Found ${matches.length} matches at offset ${page.offset}`);
+
+    // Explain each match's score by its parts; the page's vectors measure how far feedback moved it
+    const feedbackApplied = queryEmbedding !== missionEmbedding;
+    const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+    (feedbackApplied ? await getProfilesByIds(matches.map(match => match.id), user.userId) : [])
+      .forEach(profile => profilesById.set(profile.id, profile));
+    const filterHits = [...(recency?.connectedAfter ? ['recency'] : []), ...getActiveFilters(filters)];
+    const scoreBreakdowns = new Map(matches.map(match => [match.id, explainHybridMatch(match, profilesById.get(match.id)!, {
+      classification: classifications.get(match.id)!,
+      missionClassification,
+      filterHits,
+      missionEmbedding,
+      feedbackApplied
+    })]));
+
+    if (matches.length === 0 && page.offset > 0) {
       return NextResponse.json({
         success: true,
-        message: 'No relevant profiles found for your search criteria. Try broadening your search or uploading a different connections file.',
+        message: 'No more matches',
         matches: [],
         totalProfiles: profiles.length,
-        relevantProfiles: 0,
-        sessionId: sessionId,
-        userId: user.userId
+        scope,
+        pagination
       });
     }
 
-    // Step 5: Find top matches from candidates with embeddings
-    const candidatesWithEmbeddings = topCandidates.filter(p => p.embedding && p.embedding.length > 0);
-    console.log(`Finding matches from ${candidatesWithEmbeddings.length} candidates with embeddings`);
-    
-    // Use balanced similarity threshold for good matches
-    const matches = findTopMatches(missionEmbedding, candidatesWithEmbeddings, 6, 0.2); // Balanced threshold for good matches
-    console.log(`Found ${matches.length} matches`);
-
     if (matches.length === 0) {
-      // Fallback: if no embeddings, return top text-scored profiles
-      if (candidatesWithEmbeddings.length === 0) {
-        console.log('No embeddings available, returning top text-scored profiles');
-        const fallbackMatches = topCandidates.slice(0, 6).map(profile => ({
-          ...profile,
-          similarity: profile.textScore / 10, // Convert text score to similarity-like score
-          reasoning: `This profile matches based on text analysis (score: ${profile.textScore})`
-        }));
-        
-        return NextResponse.json({
-          success: true,
-          message: 'Matches found using text analysis (embeddings not available)',
-          matches: fallbackMatches.map(match => ({
-            id: match.id,
-            name: match.name,
-            title: match.title,
-            company: match.company,
-            location: match.location,
-            industry: match.industry,
-            linkedinUrl: match.linkedinUrl,
-            summary: match.summary,
-            profilePicture: '',
-            email: '',
-            skills: [],
-            experience: '',
-            education: '',
-            similarity: match.similarity,
-            reasoning: match.reasoning
-          })),
-          recommendations: 'These matches are based on text analysis. For more precise matching, try uploading profiles with more detailed information.',
-          totalProfiles: profiles.length,
-          processedProfiles: topCandidates.length,
-          searchTime: Date.now()
-        });
-      }
-      
       return NextResponse.json({
         error: 'No suitable matches found',
         details: 'Try refining your search or upload more diverse profiles',
         debug: {
           totalProfiles: profiles.length,
-          candidatesWithEmbeddings: candidatesWithEmbeddings.length,
+          candidatesWithEmbeddings: embeddedCount,
           missionText: missionText.substring(0, 100) + '...'
         }
       }, { status: 404 });
     }
 
-    // Step 5: Generate AI reasoning for each match and enrich with RapidAPI
+    // Step 4: Generate AI reasoning for each match and enrich with RapidAPI
     const enrichedMatches = await Promise.all(
       matches.map(async (match) => {
         // Generate AI reasoning for why this profile matches
@@ -350,6 +259,7 @@ Profile Details:
 - Name: ${match.name}
 - Title: ${match.title || 'Not specified'}
 - Company: ${match.company || 'Not specified'}
+- Previous Role: ${match.previousRole ? [match.previousRole.title, match.previousRole.company].filter(Boolean).join(' at ') : 'Not known'}
 - Location: ${match.location || 'Not specified'}
 - Industry: ${match.industry || 'Not specified'}
 - Summary: ${match.summary || 'Not specified'}
@@ -358,7 +268,7 @@ Profile Details:
 Explain in 2-3 sentences why this profile is a good match for the mission. Focus on the most relevant aspects of their background, experience, or skills that align with the mission. If there are some limitations, mention them briefly but still provide a positive assessment.
 `;
 
-          const reasoningResponse = await openai.chat.completions.create({
+          const reasoningResponse = openai && await openai.chat.completions.create({
             model: gptDeployment,
             messages: [
               {
@@ -374,7 +284,7 @@ Explain in 2-3 sentences why this profile is a good match for the mission. Focus
             max_tokens: 150
           });
 
-          reasoning = reasoningResponse.choices[0]?.message?.content || 'This profile matches your networking goals based on their professional background and experience.';
+          reasoning = reasoningResponse?.choices[0]?.message?.content || 'This profile matches your networking goals based on their professional background and experience.';
         } catch (error) {
           console.log(`Failed to generate reasoning for ${match.name}:`, error);
           reasoning = 'This profile matches your networking goals based on their professional background and experience.';
@@ -447,14 +357,16 @@ Explain in 2-3 sentences why this profile is a good match for the mission. Focus
         message: 'No matches found for your search criteria. Try broadening your search or uploading a different connections file.',
         matches: [],
         totalProfiles: profiles.length,
-        relevantProfiles: topCandidates.length,
-        sessionId: sessionId,
+        relevantProfiles: matches.length,
+        scope,
         userId: user.userId
       });
     }
 
-    // Step 6: Generate AI recommendations
-    const recommendationsPrompt = `
+    // Step 5: Generate AI recommendations for the first page
+    let recommendations = '';
+    if (page.offset === 0 && openai) {
+      const recommendationsPrompt = `
 Mission: ${mission}
 
 Top Matches:
@@ -471,27 +383,30 @@ ${index + 1}. ${profile.name}
 Provide a brief summary (2-3 sentences) highlighting the best matches and next steps.
 `;
 
-    const recommendationsResponse = await openai.chat.completions.create({
-      model: gptDeployment,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a professional network analyst who provides concise recommendations for business networking.'
-        },
-        {
-          role: 'user',
-          content: recommendationsPrompt
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 200
-    });
+      const recommendationsResponse = await openai.chat.completions.create({
+        model: gptDeployment,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a professional network analyst who provides concise recommendations for business networking.'
+          },
+          {
+            role: 'user',
+            content: recommendationsPrompt
+          }
+        ],
+        temperature: 0.7,
+        max_tokens: 200
+      });
 
-    const recommendations = recommendationsResponse.choices[0]?.message?.content || '';
+      recommendations = recommendationsResponse.choices[0]?.message?.content || '';
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Search completed successfully',
+      message: embeddedCount === 0
+        ? 'Matches found by keyword relevance while your contacts are being embedded'
+        : 'Search completed successfully',
       matches: validMatches.map(match => ({
         id: match.id,
         name: match.name,
@@ -506,15 +421,34 @@ Provide a brief summary (2-3 sentences) highlighting the best matches and next s
         skills: match.skills,
         experience: match.experience,
         education: match.education,
+        connectedOn: match.connectedOn,
+        jobChangedAt: match.jobChangedAt,
+        previousRole: match.previousRole,
         similarity: match.similarity,
+        score: match.score,
+        lexicalScore: match.lexicalScore,
+        classification: classifications.get(match.id),
+        scoreBreakdown: scoreBreakdowns.get(match.id),
         reasoning: match.reasoning
       })),
+      missionClassification,
+      scope,
+      pagination,
       recommendations,
       totalProfiles: profiles.length,
-      processedProfiles: topCandidates.length,
-      candidatesWithEmbeddings: candidatesWithEmbeddings.length,
+      processedProfiles: profiles.length,
+      filteredOutProfiles: unrejected.length - profiles.length,
+      feedback: {
+        runId,
+        relevant: feedback.relevantIds.length,
+        irrelevant: feedback.irrelevantIds.length,
+        excludedProfiles: sessionProfiles.length - unrejected.length
+      },
+      candidatesWithEmbeddings: embeddedCount,
       validMatches: validMatches.length,
-      processingInfo: `Pre-filtered ${profiles.length} profiles to ${topCandidates.length} candidates, generated embeddings for ${candidatesWithEmbeddings.length} profiles, found ${validMatches.length} valid matches.`,
+      embeddingJob,
+      processingInfo: `Ranked ${profiles.length} profiles (${embeddedCount} with embeddings) by keyword and semantic relevance, found ${validMatches.length} valid matches.` +
+        (pendingCount > 0 ? ` ${pendingCount} profiles are still being embedded in the background.` : ''),
       searchTime: Date.now()
     });
 
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { listScopeSessions } from '@/lib/search-scope';
+
+/**
+ * Profile Sessions API
+ *
+ * Lists the user's CSV uploads and scraped-profile imports with their contact
+ * counts, so searches can be limited to some of them (`sessionIds`).
+ *
+ * @param request - GET request
+ * @returns Sessions, most recently uploaded first
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const sessions = await listScopeSessions(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      sessions,
+      totalProfiles: sessions.reduce((total, session) => total + session.profileCount, 0)
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
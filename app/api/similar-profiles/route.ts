@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser, isUserSessionId } from '@/lib/auth-simple';
+import {
+  validateRequestBody,
+  createValidationErrorResponse,
+  validateSeedProfileIds,
+  validateSearchScope,
+  validateSearchPaging,
+  validateDiversityOptions
+} from '@/lib/validation';
+import { getProfilesByIds } from '@/lib/utils';
+import { getEmbeddingModelId, isEmbeddingCurrent, needsEmbedding } from '@/lib/embedding-cache';
+import { startEmbeddingJobsForProfiles, EmbeddingJobProgress } from '@/lib/embedding-jobs';
+import { findScopeMatches } from '@/lib/profile-index';
+import { loadScopeProfiles, SearchScope } from '@/lib/search-scope';
+import { resolveSearchPage, takeSearchPage, SearchPage } from '@/lib/search-paging';
+import { diversifyMatches, DiversityOptions, DIVERSITY_POOL_SIZE } from '@/lib/diversity';
+import { combineSeedEmbeddings, createSeedExclusion } from '@/lib/similar-profiles';
+
+/**
+ * Similar Contacts API
+ *
+ * Finds the contacts most similar to one or more of the user's contacts, by
+ * the seeds' stored embeddings (see similar-profiles). The seeds themselves are
+ * excluded. Takes the same `scope`/`sessionIds`, paging (`limit`, `offset` or
+ * `cursor`, `minSimilarity`; 10 matches at 0.3 unless the user saved defaults)
+ * and `diversity` options as the mission searches.
+ *
+ * @param request - Contains profileIds of the seed contacts and optional search options
+ * @returns Seeds and their nearest contacts, most similar first
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const seedValidation = validateSeedProfileIds(bodyValidation.data.profileIds);
+    if (!seedValidation.isValid) {
+      return createValidationErrorResponse(seedValidation.errors);
+    }
+    const profileIds = seedValidation.data as string[];
+
+    const scopeValidation = validateSearchScope(bodyValidation.data);
+    if (!scopeValidation.isValid) {
+      return createValidationErrorResponse(scopeValidation.errors);
+    }
+    const scope = scopeValidation.data as SearchScope;
+
+    // Verify the sessions belong to the authenticated user
+    if (scope.sessionIds?.some(sessionId => !isUserSessionId(sessionId, user.userId))) {
+      return NextResponse.json({
+        error: 'Unauthorized',
+        message: 'You can only search profiles from your own uploads'
+      }, { status: 403 });
+    }
+
+    const diversityValidation = validateDiversityOptions(bodyValidation.data.diversity);
+    if (!diversityValidation.isValid) {
+      return createValidationErrorResponse(diversityValidation.errors);
+    }
+    const diversity = diversityValidation.data as DiversityOptions | undefined;
+
+    const pagingValidation = validateSearchPaging(bodyValidation.data);
+    if (!pagingValidation.isValid) {
+      return createValidationErrorResponse(pagingValidation.errors);
+    }
+    const page = await resolveSearchPage(user.userId, pagingValidation.data as Partial<SearchPage>, { limit: 10, minSimilarity: 0.3 });
+
+    // Load the seeds with their embeddings, with user isolation
+    const seeds = await getProfilesByIds(profileIds, user.userId);
+    if (seeds.length < profileIds.length) {
+      const found = new Set(seeds.map(seed => seed.id));
+      return NextResponse.json({
+        error: 'Profiles not found',
+        details: profileIds.filter(id => !found.has(id))
+      }, { status: 404 });
+    }
+
+    const embeddingModelId = getEmbeddingModelId();
+    const pendingSeeds = seeds.filter(seed => needsEmbedding(seed, embeddingModelId));
+    if (pendingSeeds.length > 0) {
+      return NextResponse.json({
+        error: 'Profiles are still being prepared for search',
+        details: 'Embeddings are generated in the background after upload. Try again in a moment.',
+        embeddingJob: await startEmbeddingJobsForProfiles(user.userId, pendingSeeds)
+      }, { status: 503 });
+    }
+
+    // Candidates are the scope's contacts other than the seeds; vectors are loaded by the search
+    const isCandidate = createSeedExclusion(seeds);
+    const profiles = (await loadScopeProfiles(user.userId, scope, false)).filter(isCandidate);
+    const currentProfiles = profiles.filter(profile => isEmbeddingCurrent(profile, embeddingModelId));
+    const pendingCount = profiles.length - currentProfiles.length;
+    let embeddingJob: EmbeddingJobProgress | undefined;
+    if (pendingCount > 0) {
+      embeddingJob = await startEmbeddingJobsForProfiles(user.userId, profiles.filter(profile => !isEmbeddingCurrent(profile, embeddingModelId)));
+    }
+
+    const needed = page.offset + page.limit + 1;
+    const ranked = currentProfiles.length > 0
+      ? await findScopeMatches(user.userId, scope, combineSeedEmbeddings(seeds), currentProfiles, diversity ? Math.max(DIVERSITY_POOL_SIZE, needed) : needed, page.minSimilarity)
+      : [];
+    const ordered = diversity ? diversifyMatches(ranked, match => match.similarity, diversity, needed) : ranked;
+    const { matches, pagination } = takeSearchPage(ordered, page);
+
+    return NextResponse.json({
+      success: true,
+      message: matches.length > 0 ? 'Similar contacts found' : 'No similar contacts found',
+      seeds: seeds.map(seed => ({
+        id: seed.id,
+        name: seed.name,
+        title: seed.title,
+        company: seed.company
+      })),
+      matches: matches.map(match => ({
+        id: match.id,
+        name: match.name,
+        title: match.title,
+        company: match.company,
+        location: match.location,
+        industry: match.industry,
+        linkedinUrl: match.linkedinUrl,
+        summary: match.summary,
+        connectedOn: match.connectedOn,
+        jobChangedAt: match.jobChangedAt,
+        previousRole: match.previousRole,
+        similarity: match.similarity
+      })),
+      scope,
+      pagination,
+      totalProfiles: profiles.length,
+      processedProfiles: currentProfiles.length,
+      skippedProfiles: pendingCount,
+      embeddingJob
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const POST = withAuth(handlePost);
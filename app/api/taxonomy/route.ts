@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse, validateTaxonomy } from '@/lib/validation';
+import { saveWorkspaceSettings, clearWorkspaceSettings } from '@/lib/utils';
+import { getWorkspaceTaxonomy, DEFAULT_TAXONOMY, Taxonomy } from '@/lib/taxonomy';
+
+/**
+ * Workspace Taxonomy API
+ *
+ * Industries (with sub-industries), role families and seniority levels used to
+ * classify contacts and missions and to filter searches. Every workspace starts
+ * with the built-in taxonomy; saving one replaces it as a whole.
+ *
+ * @param request - GET request
+ * @returns The workspace taxonomy and whether it is the built-in default
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const { taxonomy, isDefault } = await getWorkspaceTaxonomy(user.userId);
+
+    return NextResponse.json({
+      success: true,
+      taxonomy,
+      isDefault
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Replace the workspace taxonomy
+ *
+ * @param request - PUT with { taxonomy: { industries, roleFamilies, seniorityLevels } }
+ * @returns The saved taxonomy
+ */
+async function handlePut(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const taxonomyValidation = validateTaxonomy(bodyValidation.data.taxonomy);
+    if (!taxonomyValidation.isValid) {
+      return createValidationErrorResponse(taxonomyValidation.errors);
+    }
+    const taxonomy = taxonomyValidation.data as Taxonomy;
+
+    await saveWorkspaceSettings(user.userId, { taxonomy });
+
+    return NextResponse.json({
+      success: true,
+      taxonomy,
+      isDefault: false
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Reset the workspace to the built-in taxonomy
+ *
+ * @param request - DELETE request
+ * @returns The built-in taxonomy
+ */
+async function handleDelete(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    await clearWorkspaceSettings(user.userId, ['taxonomy']);
+
+    return NextResponse.json({
+      success: true,
+      taxonomy: DEFAULT_TAXONOMY,
+      isDefault: true
+    });
+
+  } catch (err) {
+    return NextResponse.json({
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handlers
+export const GET = withAuth(handleGet);
+export const PUT = withAuth(handlePut);
+export const DELETE = withAuth(handleDelete);
@@ -1,24 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Papa from 'papaparse';
 import { withAuth, AuthenticatedUser, generateUserSessionId } from '@/lib/auth-simple';
-import { validateFileUpload, createValidationErrorResponse } from '@/lib/validation';
-import { parseLinkedInCSV, addProfiles } from '@/lib/utils';
+import { validateFileUpload, createValidationErrorResponse, isZipUpload } from '@/lib/validation';
+import { parseLinkedInCSV, addProfiles, saveColumnMapping, getLatestUploadSessionId, Profile } from '@/lib/utils';
+import { ColumnMapping, getHeaderSignature, isColumnMappingShape, validateColumnMapping } from '@/lib/column-mapping';
+import { parseLinkedInExport, LinkedInExportResult } from '@/lib/linkedin-export';
+import { createImportDiff, finalizeImportDiff, reconcileImportBatch } from '@/lib/import-diff';
+import { ImportDiffSummary } from '@/lib/mongodb';
+import { startEmbeddingJob } from '@/lib/embedding-jobs';
 
 /**
  * CSV Upload API
  * 
  * Handles LinkedIn connections CSV file upload and processing:
  * 1. Validates file type and format
- * 2. Parses CSV using PapaParse library
+ * 2. Parses CSV using PapaParse library, or unpacks a full LinkedIn data export ZIP
  * 3. Converts raw data to structured Profile objects
- * 4. Stores profiles in persistent storage with user isolation
+ * 4. Diffs them against the previous upload, reusing embeddings of unchanged contacts
+ * 5. Stores profiles in persistent storage with user isolation
+ * 6. Enqueues a background job that embeds the session (see /api/embedding-jobs)
  * 
- * Expected CSV format:
- * - First Name, Last Name, Position, Company, Location, etc.
- * - Supports various LinkedIn export formats
+ * Expected formats:
+ * - CSV: First Name, Last Name, Position, Company, Location, etc.
+ * - ZIP: LinkedIn "Download your data" archive (Connections, Positions, Education,
+ *   Skills, Endorsements and Messages are joined into each profile)
  * 
- * @param request - FormData containing CSV file
- * @returns Success status and profile count
+ * An optional `mapping` form field (JSON, Profile field -> CSV header) confirmed in the
+ * column-mapping wizard overrides header detection and is remembered for the user.
+ * 
+ * @param request - FormData containing CSV or ZIP file
+ * @returns Success status, profile count and a summary of changes since the last upload
  */
 async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
   try {
@@ -31,37 +42,80 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
       return createValidationErrorResponse(fileValidation.errors);
     }
 
-    // Read file content
-    const fileContent = await file.text();
+    // Generate a user-specific session ID for this upload
+    const sessionId = generateUserSessionId(user, 'upload');
+    console.log('Generated sessionId:', sessionId);
 
-    // Parse CSV with PapaParse
-    const parseResult = Papa.parse(fileContent, {
-      header: true,
-      skipEmptyLines: true,
-    });
+    let profiles: Profile[];
+    let archive: Omit<LinkedInExportResult, 'profiles'> | undefined;
 
-    // Check for parsing errors
-    if (parseResult.errors.length > 0) {
-      return NextResponse.json({ 
-        error: 'CSV parsing failed', 
-        details: parseResult.errors 
-      }, { status: 400 });
+    if (isZipUpload(file)) {
+      // Full LinkedIn data export: join the per-person files onto connections
+      try {
+        const { profiles: exportProfiles, ...exportInfo } = await parseLinkedInExport(await file.arrayBuffer(), sessionId);
+        profiles = exportProfiles;
+        archive = exportInfo;
+        console.log(`Parsed LinkedIn export with files: ${exportInfo.filesFound.join(', ')}`);
+      } catch (zipError) {
+        return NextResponse.json({ 
+          error: 'Failed to read LinkedIn data export',
+          details: zipError instanceof Error ? zipError.message : 'Unknown error'
+        }, { status: 400 });
+      }
+    } else {
+      // Read file content
+      const fileContent = await file.text();
+
+      // Parse CSV with PapaParse
+      const parseResult = Papa.parse(fileContent, {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: header => header.trim(),
+      });
+
+      // Check for parsing errors
+      if (parseResult.errors.length > 0) {
+        return NextResponse.json({ 
+          error: 'CSV parsing failed', 
+          details: parseResult.errors 
+        }, { status: 400 });
+      }
+
+      // Apply the column mapping confirmed in the dashboard, if any
+      let mapping: ColumnMapping | undefined;
+      const mappingField = formData.get('mapping');
+      if (typeof mappingField === 'string' && mappingField.length > 0) {
+        let parsedMapping: unknown;
+        try {
+          parsedMapping = JSON.parse(mappingField);
+        } catch {
+          return createValidationErrorResponse(['Invalid column mapping']);
+        }
+        if (!isColumnMappingShape(parsedMapping)) {
+          return createValidationErrorResponse(['Column mapping must be an object of column names']);
+        }
+        mapping = parsedMapping;
+
+        const headers = parseResult.meta.fields || [];
+        const mappingErrors = validateColumnMapping(mapping, headers);
+        if (mappingErrors.length > 0) {
+          return createValidationErrorResponse(mappingErrors);
+        }
+
+        await saveColumnMapping(user.userId, getHeaderSignature(headers), mapping);
+      }
+
+      // Convert raw CSV data to Profile objects with session ID
+      profiles = parseLinkedInCSV(parseResult.data as Record<string, string>[], sessionId, mapping);
     }
 
     // Check if we have any data
-    if (!parseResult.data || parseResult.data.length === 0) {
+    if (profiles.length === 0) {
       return NextResponse.json({ 
-        error: 'No data found in CSV file' 
+        error: 'No data found in uploaded file' 
       }, { status: 400 });
     }
 
-    // Generate a user-specific session ID for this upload
-    const sessionId = generateUserSessionId(user, 'upload');
-    console.log('Generated sessionId:', sessionId);
-
-    // Convert raw CSV data to Profile objects with session ID
-    const profiles = parseLinkedInCSV(parseResult.data as Record<string, string>[], sessionId);
-
     // Validate profile count (prevent abuse)
     if (profiles.length > 1000) {
       return NextResponse.json({ 
@@ -70,8 +124,12 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
     }
 
     // Store profiles in database with user isolation
+    let changes: ImportDiffSummary;
     try {
+      const previousSessionId = await getLatestUploadSessionId(user.userId, sessionId);
+      changes = await reconcileImportBatch(profiles, user.userId, createImportDiff());
       await addProfiles(profiles, user.userId);
+      changes = await finalizeImportDiff(changes, user.userId, previousSessionId);
       console.log(`Successfully stored ${profiles.length} profiles in database`);
     } catch (dbError) {
       console.error('Database error during profile storage:', dbError);
@@ -85,13 +143,24 @@ async function handlePost(request: NextRequest, user: AuthenticatedUser): Promis
         userId: user.userId
       }, { status: 500 });
     }
+
+    // Embed in the background; searches use whatever is embedded so far
+    let embeddingJobId: string | undefined;
+    try {
+      embeddingJobId = (await startEmbeddingJob(user.userId, sessionId)).jobId;
+    } catch (jobError) {
+      console.error('Failed to enqueue embedding job:', jobError);
+    }
     
     return NextResponse.json({
       success: true,
       message: `Successfully imported ${profiles.length} profiles`,
       totalCount: profiles.length,
       sessionId: sessionId,
-      userId: user.userId
+      userId: user.userId,
+      archive,
+      changes,
+      embeddingJobId
     });
 
   } catch (err) {
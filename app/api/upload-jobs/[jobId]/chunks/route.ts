@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { getUploadJob, updateUploadJob } from '@/lib/utils';
+import { processUploadChunk, UPLOAD_CHUNK_MAX_BYTES } from '@/lib/upload-pipeline';
+import { startEmbeddingJob } from '@/lib/embedding-jobs';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * Upload Chunk API
+ * 
+ * Accepts one raw byte chunk of a chunked CSV upload (`?index=N`):
+ * - Chunks must arrive in order; a chunk that was already applied is acknowledged
+ *   again so client retries are safe
+ * - Rows are parsed and written to the database before the job advances, so a
+ *   failed chunk can simply be sent again; rows an earlier attempt wrote are skipped
+ * - A file whose headers don't fit the column mapping fails the job with 400
+ * - After the last chunk, a background job is enqueued to embed the session
+ * 
+ * @param request - Raw chunk bytes as the request body
+ * @returns Updated job progress
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  const { jobId } = await context.params;
+
+  try {
+    const index = Number(request.nextUrl.searchParams.get('index'));
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ 
+        error: 'Chunk index is required' 
+      }, { status: 400 });
+    }
+
+    const job = await getUploadJob(jobId, user.userId);
+    if (!job) {
+      return NextResponse.json({ 
+        error: 'Upload job not found' 
+      }, { status: 404 });
+    }
+
+    if (job.status === 'failed') {
+      return NextResponse.json({
+        error: 'Upload job failed',
+        details: job.lastError
+      }, { status: 400 });
+    }
+
+    // Already applied (e.g. the response to a previous attempt was lost)
+    if (index < job.nextChunkIndex || job.status === 'completed') {
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        status: job.status,
+        nextChunkIndex: job.nextChunkIndex,
+        profilesImported: job.profilesImported,
+        sessionId: job.sessionId
+      });
+    }
+
+    if (index > job.nextChunkIndex) {
+      return NextResponse.json({
+        error: 'Chunk out of order',
+        nextChunkIndex: job.nextChunkIndex
+      }, { status: 409 });
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer());
+    if (chunk.length === 0 || chunk.length > UPLOAD_CHUNK_MAX_BYTES) {
+      return NextResponse.json({ 
+        error: `Chunk must be between 1 byte and ${UPLOAD_CHUNK_MAX_BYTES / (1024 * 1024)}MB` 
+      }, { status: 400 });
+    }
+
+    const progress = await processUploadChunk(job, chunk, async batchProgress => {
+      if (!(await updateUploadJob(jobId, user.userId, index, batchProgress))) {
+        throw new Error('Chunk was applied by a concurrent request');
+      }
+    });
+
+    // Sending the same file again won't help
+    if (progress.status === 'failed') {
+      await updateUploadJob(jobId, user.userId, index, progress);
+      return NextResponse.json({
+        error: 'Column mapping does not fit the file',
+        details: progress.lastError
+      }, { status: 400 });
+    }
+
+    const applied = await updateUploadJob(jobId, user.userId, index, { ...progress, lastError: undefined });
+    if (!applied) {
+      return NextResponse.json({
+        error: 'Chunk was applied by a concurrent request'
+      }, { status: 409 });
+    }
+
+    console.log(`Upload job ${jobId}: chunk ${index + 1}/${job.totalChunks}, ${progress.profilesImported} profiles imported`);
+
+    // Embed in the background; searches use whatever is embedded so far
+    let embeddingJobId: string | undefined;
+    if (progress.status === 'completed') {
+      try {
+        embeddingJobId = (await startEmbeddingJob(user.userId, job.sessionId)).jobId;
+      } catch (jobError) {
+        console.error('Failed to enqueue embedding job:', jobError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: progress.status,
+      nextChunkIndex: progress.nextChunkIndex,
+      totalChunks: job.totalChunks,
+      bytesReceived: progress.bytesReceived,
+      fileSize: job.fileSize,
+      rowsProcessed: progress.rowsProcessed,
+      profilesImported: progress.profilesImported,
+      changes: progress.status === 'completed' ? progress.diff : undefined,
+      sessionId: job.sessionId,
+      embeddingJobId
+    });
+
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`Upload job ${jobId} chunk failed:`, err);
+
+    // Record the failure without advancing, so the same chunk can be retried
+    const job = await getUploadJob(jobId, user.userId).catch(() => null);
+    if (job) {
+      await updateUploadJob(jobId, user.userId, job.nextChunkIndex, { lastError: errorMessage }).catch(() => false);
+    }
+
+    return NextResponse.json({ 
+      error: 'Failed to process chunk',
+      details: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const POST = withAuth(handlePost);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { getUploadJob } from '@/lib/utils';
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * Upload Job Status API
+ * 
+ * Reports progress of a chunked upload and the next chunk the server expects,
+ * so an interrupted upload can resume where it stopped.
+ * 
+ * @param request - GET request
+ * @returns Job progress
+ */
+async function handleGet(request: NextRequest, user: AuthenticatedUser, context: RouteContext): Promise<NextResponse> {
+  try {
+    const { jobId } = await context.params;
+
+    const job = await getUploadJob(jobId, user.userId);
+    if (!job) {
+      return NextResponse.json({ 
+        error: 'Upload job not found' 
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.jobId,
+      sessionId: job.sessionId,
+      fileName: job.fileName,
+      status: job.status,
+      nextChunkIndex: job.nextChunkIndex,
+      totalChunks: job.totalChunks,
+      bytesReceived: job.bytesReceived,
+      fileSize: job.fileSize,
+      rowsProcessed: job.rowsProcessed,
+      profilesImported: job.profilesImported,
+      changes: job.status === 'completed' ? job.diff : undefined,
+      lastError: job.lastError
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const GET = withAuth(handleGet);
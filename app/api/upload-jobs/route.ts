@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthenticatedUser, generateUserSessionId } from '@/lib/auth-simple';
+import { validateRequestBody, createValidationErrorResponse } from '@/lib/validation';
+import { createUploadJob, saveColumnMapping, getLatestUploadSessionId } from '@/lib/utils';
+import { UploadJob } from '@/lib/mongodb';
+import { getHeaderSignature, isColumnMappingShape, validateColumnMapping } from '@/lib/column-mapping';
+import { UPLOAD_CHUNK_MAX_BYTES, UPLOAD_MAX_FILE_BYTES } from '@/lib/upload-pipeline';
+
+/**
+ * Chunked Upload Job API
+ * 
+ * Starts a resumable upload for large connection CSVs:
+ * 1. Validates file metadata and the optional column mapping
+ * 2. Creates an upload job and the session ID its profiles will belong to
+ * 3. The client then posts chunks to /api/upload-jobs/[jobId]/chunks in order
+ * 
+ * @param request - JSON with fileName, fileSize, totalChunks and optional headers/mapping
+ * @returns Job ID, session ID and the maximum accepted chunk size
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    // Validate request body
+    const bodyValidation = await validateRequestBody(request);
+    if (!bodyValidation.isValid) {
+      return createValidationErrorResponse(bodyValidation.errors);
+    }
+
+    const { fileName, fileSize, totalChunks, headers, mapping } = bodyValidation.data;
+
+    const errors: string[] = [];
+    if (!fileName || typeof fileName !== 'string') {
+      errors.push('File name is required');
+    }
+    if (typeof fileSize !== 'number' || fileSize <= 0) {
+      errors.push('File size must be a positive number');
+    } else if (fileSize > UPLOAD_MAX_FILE_BYTES) {
+      errors.push(`File size must be less than ${UPLOAD_MAX_FILE_BYTES / (1024 * 1024)}MB`);
+    }
+    if (!Number.isInteger(totalChunks) || totalChunks <= 0) {
+      errors.push('Total chunks must be a positive integer');
+    } else if (typeof fileSize === 'number' && fileSize / totalChunks > UPLOAD_CHUNK_MAX_BYTES) {
+      errors.push(`Chunks must be at most ${UPLOAD_CHUNK_MAX_BYTES / (1024 * 1024)}MB`);
+    }
+    if (errors.length > 0) {
+      return createValidationErrorResponse(errors);
+    }
+
+    // Validate and remember the mapping confirmed in the column-mapping wizard
+    if (mapping) {
+      if (!isColumnMappingShape(mapping)) {
+        return createValidationErrorResponse(['Column mapping must be an object of column names']);
+      }
+      if (!Array.isArray(headers)) {
+        return createValidationErrorResponse(['Headers are required when a column mapping is provided']);
+      }
+
+      const mappingErrors = validateColumnMapping(mapping, headers);
+      if (mappingErrors.length > 0) {
+        return createValidationErrorResponse(mappingErrors);
+      }
+
+      await saveColumnMapping(user.userId, getHeaderSignature(headers), mapping);
+    }
+
+    const job: UploadJob = {
+      jobId: generateUserSessionId(user, 'job'),
+      userId: user.userId,
+      sessionId: generateUserSessionId(user, 'upload'),
+      fileName,
+      fileSize,
+      totalChunks,
+      nextChunkIndex: 0,
+      bytesReceived: 0,
+      mapping,
+      remainder: '',
+      pendingBytes: '',
+      rowsProcessed: 0,
+      profilesImported: 0,
+      status: 'uploading',
+      previousSessionId: await getLatestUploadSessionId(user.userId),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    await createUploadJob(job);
+    console.log(`Created upload job ${job.jobId} for ${fileName} (${totalChunks} chunks)`);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.jobId,
+      sessionId: job.sessionId,
+      maxChunkBytes: UPLOAD_CHUNK_MAX_BYTES
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const POST = withAuth(handlePost);
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Papa from 'papaparse';
+import { withAuth, AuthenticatedUser } from '@/lib/auth-simple';
+import { validateFileUpload, createValidationErrorResponse, isZipUpload } from '@/lib/validation';
+import { loadColumnMapping } from '@/lib/utils';
+import { MAPPABLE_FIELDS, detectColumnMapping, getHeaderSignature } from '@/lib/column-mapping';
+
+/**
+ * Upload Preview API
+ * 
+ * First step of the column-mapping wizard:
+ * 1. Reads the header row and a few sample rows of the CSV
+ * 2. Proposes a mapping of CSV columns onto Profile fields
+ * 3. Prefers the mapping the user last confirmed for the same header layout
+ * 
+ * The confirmed mapping is sent back with the file to /api/upload-csv.
+ * 
+ * @param request - FormData containing CSV file
+ * @returns Headers, sample rows, available fields and the proposed mapping
+ */
+async function handlePost(request: NextRequest, user: AuthenticatedUser): Promise<NextResponse> {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    // Validate file upload
+    const fileValidation = validateFileUpload(file);
+    if (!fileValidation.isValid) {
+      return createValidationErrorResponse(fileValidation.errors);
+    }
+
+    // LinkedIn data export archives have a fixed layout and need no mapping
+    if (isZipUpload(file)) {
+      return NextResponse.json({
+        success: true,
+        archive: true
+      });
+    }
+
+    // Only the first rows are needed for the preview
+    const parseResult = Papa.parse<Record<string, string>>(await file.text(), {
+      header: true,
+      skipEmptyLines: true,
+      preview: 5,
+      transformHeader: header => header.trim()
+    });
+
+    const headers = (parseResult.meta.fields || []).filter(header => header.length > 0);
+    if (headers.length === 0) {
+      return NextResponse.json({ 
+        error: 'No header row found in CSV file' 
+      }, { status: 400 });
+    }
+
+    const headerSignature = getHeaderSignature(headers);
+    const savedMapping = await loadColumnMapping(user.userId, headerSignature);
+
+    return NextResponse.json({
+      success: true,
+      headers,
+      sampleRows: parseResult.data,
+      fields: MAPPABLE_FIELDS,
+      mapping: savedMapping || detectColumnMapping(headers),
+      mappingSource: savedMapping ? 'saved' : 'detected'
+    });
+
+  } catch (err) {
+    return NextResponse.json({ 
+      error: err instanceof Error ? err.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Export the authenticated handler
+export const POST = withAuth(handlePost);
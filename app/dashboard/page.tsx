@@ -14,12 +14,21 @@ import {
   FiClock,
   FiTarget,
   FiRefreshCw,
-  FiPlus
+  FiPlus,
+  FiTrash2,
+  FiThumbsUp,
+  FiThumbsDown
 } from "react-icons/fi";
 import { useUser, UserButton, useClerk } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 
+// Chunked upload settings
+const UPLOAD_CHUNK_BYTES = 1024 * 1024; // 1MB per request
+const CHUNK_RETRY_LIMIT = 4;
+const PREVIEW_BYTES = 64 * 1024;
+const EMBEDDING_POLL_MS = 3000;
+
 // Types for better type safety
 interface UploadStatus {
   type: 'success' | 'error';
@@ -40,18 +49,164 @@ interface Match {
   experience?: string;
   education?: string;
   skills?: string[];
+  connectedOn?: string;
+  jobChangedAt?: string;
+  previousRole?: PreviousRole;
   similarity?: number;
+  scoreBreakdown?: ScoreBreakdown;
   reasoning?: string;
 }
 
+interface ScoreBreakdown {
+  semantic: number;
+  lexical: number;
+  fused: number;
+  recencyBoost: number;
+  taxonomyBoost: number;
+  industryMatch: boolean;
+  roleMatch: boolean;
+  filterHits: string[];
+  feedbackAdjustment: number;
+  total: number;
+}
+
+interface PreviousRole {
+  title?: string;
+  company?: string;
+  observedAt: string;
+}
+
+interface JobChange {
+  id: string;
+  name: string;
+  title?: string;
+  company?: string;
+  linkedinUrl?: string;
+  jobChangedAt: string;
+  previousRole?: PreviousRole;
+}
+
+interface MappableField {
+  field: string;
+  label: string;
+}
+
+interface ColumnPreview {
+  file: File;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  fields: MappableField[];
+  mapping: Record<string, string>;
+  mappingSource: 'saved' | 'detected';
+}
+
+interface UploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  profilesImported: number;
+}
+
+interface EmbeddingJobProgress {
+  jobId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  total: number;
+  embedded: number;
+  percent: number;
+  lastError?: string;
+}
+
+interface ImportChange {
+  name: string;
+  title?: { before: string; after: string };
+  company?: { before: string; after: string };
+}
+
+interface ImportSummary {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+  embeddingsCarriedOver: number;
+  changes: ImportChange[];
+}
+
+interface ResumableUpload {
+  file: File;
+  headers?: string[];
+  mapping?: Record<string, string>;
+}
+
 interface SavedMatch {
   id: string;
   mission: string;
   matches: Match[];
   recommendations: string;
+  revision: number;
+  createdAt: string;
+}
+
+interface SavedMatchSummary {
+  id: string;
+  mission: string;
+  matchCount: number;
+  revision: number;
   createdAt: string;
 }
 
+interface MatchRevision {
+  revision: number;
+  mission: string;
+  matchCount: number;
+  createdAt: string;
+  replacedAt: string;
+}
+
+interface TaxonomyTerm {
+  id: string;
+  label: string;
+}
+
+interface Taxonomy {
+  industries: (TaxonomyTerm & { subIndustries?: TaxonomyTerm[] })[];
+  roleFamilies: TaxonomyTerm[];
+  seniorityLevels: TaxonomyTerm[];
+}
+
+interface ProfileSession {
+  sessionId: string;
+  source: 'upload' | 'scrape' | 'user';
+  profileCount: number;
+  lastUploadedAt: string;
+}
+
+type SearchScopeOption = 'current' | 'all' | 'selected';
+
+interface SearchDefaults {
+  limit?: number;
+  minSimilarity?: number;
+}
+
+type FeedbackVerdict = 'relevant' | 'irrelevant';
+
+type SavedMatchSort = 'newest' | 'oldest' | 'matchCount' | 'mission';
+
+const SAVED_MATCHES_PAGE_SIZE = 20;
+
+// Search page size and similarity threshold until the user saves their own defaults
+const DEFAULT_SEARCH_LIMIT = 6;
+const DEFAULT_MIN_SIMILARITY = 0.2;
+
+// Score parts in percentage points, signed for boosts and adjustments
+const formatScorePart = (value: number, signed: boolean = false): string =>
+  `${signed && value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
+const SAVED_MATCH_SORTS: Record<SavedMatchSort, { label: string; query: string }> = {
+  newest: { label: 'Newest first', query: 'sortBy=createdAt&order=desc' },
+  oldest: { label: 'Oldest first', query: 'sortBy=createdAt&order=asc' },
+  matchCount: { label: 'Most matches', query: 'sortBy=matchCount&order=desc' },
+  mission: { label: 'Mission A–Z', query: 'sortBy=mission&order=asc' }
+};
+
 /**
  * LinkedIn Network Analysis Dashboard
  * 
@@ -78,10 +233,47 @@ export default function Dashboard() {
   const [uploadStatus, setUploadStatus] = useState<UploadStatus | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [savedMatches, setSavedMatches] = useState<SavedMatch[]>([]);
+  const [savedMatches, setSavedMatches] = useState<SavedMatchSummary[]>([]);
+  const [savedMatchesTotal, setSavedMatchesTotal] = useState(0);
+  const [savedMatchesSort, setSavedMatchesSort] = useState<SavedMatchSort>('newest');
   const [isLoadingSavedMatches, setIsLoadingSavedMatches] = useState(false);
   const [isUpdateMode, setIsUpdateMode] = useState(false);
   const [updatingMatchId, setUpdatingMatchId] = useState<string | null>(null);
+  const [updatingRevision, setUpdatingRevision] = useState<number | null>(null);
+  const [matchRevisions, setMatchRevisions] = useState<MatchRevision[]>([]);
+  const [columnPreview, setColumnPreview] = useState<ColumnPreview | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [embeddingJob, setEmbeddingJob] = useState<EmbeddingJobProgress | null>(null);
+  const [resumableUpload, setResumableUpload] = useState<ResumableUpload | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [jobChanges, setJobChanges] = useState<JobChange[] | null>(null);
+  const [isLoadingJobChanges, setIsLoadingJobChanges] = useState(false);
+  const [connectedWithinDays, setConnectedWithinDays] = useState<number>(0);
+  const [boostRecent, setBoostRecent] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null);
+  const [industryFilter, setIndustryFilter] = useState('');
+  const [roleFamilyFilter, setRoleFamilyFilter] = useState('');
+  const [seniorityFilter, setSeniorityFilter] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
+  const [radiusKm, setRadiusKm] = useState<number>(0);
+  const [includeCompanies, setIncludeCompanies] = useState('');
+  const [excludeCompanies, setExcludeCompanies] = useState('');
+  const [connectedFrom, setConnectedFrom] = useState('');
+  const [connectedTo, setConnectedTo] = useState('');
+  const [hasEmailOnly, setHasEmailOnly] = useState(false);
+  const [enrichedOnly, setEnrichedOnly] = useState(false);
+  const [diversifyResults, setDiversifyResults] = useState(false);
+  const [profileSessions, setProfileSessions] = useState<ProfileSession[]>([]);
+  const [searchScope, setSearchScope] = useState<SearchScopeOption>('all');
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([]);
+  const [searchLimit, setSearchLimit] = useState<number>(DEFAULT_SEARCH_LIMIT);
+  const [minSimilarity, setMinSimilarity] = useState<number>(DEFAULT_MIN_SIMILARITY);
+  const [lastSearch, setLastSearch] = useState<{ url: string; body: Record<string, unknown> } | null>(null);
+  const [similarTo, setSimilarTo] = useState<Match | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMoreMatches, setIsLoadingMoreMatches] = useState(false);
+  const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+  const [matchFeedback, setMatchFeedback] = useState<Record<string, FeedbackVerdict>>({});
   
   // Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -113,22 +305,95 @@ export default function Dashboard() {
     };
   }, [sidebarOpen]);
 
+  // Poll the background embedding job until it finishes (polling also keeps it running)
+  useEffect(() => {
+    if (!embeddingJob || embeddingJob.status === 'completed' || embeddingJob.status === 'failed') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/embedding-jobs/${embeddingJob.jobId}`);
+        const data = await response.json();
+        setEmbeddingJob(data.success ? data.job : { ...embeddingJob });
+      } catch {
+        setEmbeddingJob({ ...embeddingJob }); // Try again on the next tick
+      }
+    }, EMBEDDING_POLL_MS);
+
+    return () => clearTimeout(timer);
+  }, [embeddingJob]);
+
+  /**
+   * Start showing progress of the embedding job enqueued by an upload
+   */
+  const trackEmbeddingJob = async (jobId?: string): Promise<void> => {
+    if (!jobId) {
+      setEmbeddingJob(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/embedding-jobs/${jobId}`);
+      const data = await response.json();
+      setEmbeddingJob(data.success ? data.job : null);
+    } catch (error) {
+      console.error('Failed to load embedding progress:', error);
+    }
+  };
+
+  /**
+   * Enqueue the current session's embeddings again after the job failed
+   */
+  const retryEmbeddingJob = async (): Promise<void> => {
+    if (!currentSessionId) return;
+    try {
+      const response = await fetch('/api/embedding-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: currentSessionId }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setEmbeddingJob(data.job);
+      }
+    } catch (error) {
+      console.error('Failed to restart embedding job:', error);
+    }
+  };
+
   /**
-   * Load saved matches from MongoDB
+   * Load the user's uploads and imports for the search scope selector
    */
-  const loadSavedMatches = async (): Promise<void> => {
+  const loadProfileSessions = async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/sessions');
+      const data = await response.json();
+      if (data.success) {
+        setProfileSessions(data.sessions);
+        setSelectedSessionIds(selected => selected.filter(id => data.sessions.some((session: ProfileSession) => session.sessionId === id)));
+      }
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  };
+
+  /**
+   * Load a page of saved matches
+   * @param append - Add the next page to the list instead of reloading the first page
+   * @param sort - Sort order, defaults to the current one
+   */
+  const loadSavedMatches = async (append: boolean = false, sort: SavedMatchSort = savedMatchesSort): Promise<void> => {
     if (!user?.primaryEmailAddress?.emailAddress) return;
 
     setIsLoadingSavedMatches(true);
     try {
-      const response = await fetch('/api/load-user-data');
+      const offset = append ? savedMatches.length : 0;
+      const response = await fetch(`/api/matches?limit=${SAVED_MATCHES_PAGE_SIZE}&offset=${offset}&${SAVED_MATCH_SORTS[sort].query}`);
       
       if (response.ok) {
         const data = await response.json();
         
         if (data.success) {
-          const matches = data.data?.matches || [];
-          setSavedMatches(matches);
+          setSavedMatches(append ? [...savedMatches, ...data.runs] : data.runs);
+          setSavedMatchesTotal(data.total);
         }
       } else {
         console.error('Failed to load saved matches:', response.status, response.statusText);
@@ -142,6 +407,23 @@ export default function Dashboard() {
     }
   };
 
+  /**
+   * Load contacts who changed title or company in the last 90 days
+   */
+  const loadJobChanges = async (): Promise<void> => {
+    setIsLoadingJobChanges(true);
+    try {
+      const response = await fetch('/api/profiles/job-changes?days=90');
+      const data = await response.json();
+      setJobChanges(data.success ? data.contacts : []);
+    } catch (error) {
+      console.error('Failed to load job changes:', error);
+      setJobChanges([]);
+    } finally {
+      setIsLoadingJobChanges(false);
+    }
+  };
+
   /**
    * Clear the dashboard for a fresh start
    */
@@ -151,18 +433,76 @@ export default function Dashboard() {
     setRecommendations("");
     setTotalProfiles(0);
     setCurrentSessionId(null);
+    setEmbeddingJob(null);
     setUploadStatus(null);
     setIsUpdateMode(false);
     setUpdatingMatchId(null);
+    setUpdatingRevision(null);
+    setMatchRevisions([]);
+    setCurrentRunId(null);
+    setMatchFeedback({});
+    setColumnPreview(null);
+    setResumableUpload(null);
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
+  /**
+   * Change the saved matches sort order and reload the first page
+   */
+  const changeSavedMatchesSort = (sort: SavedMatchSort): void => {
+    setSavedMatchesSort(sort);
+    loadSavedMatches(false, sort);
+  };
+
+  /**
+   * Delete a saved match
+   */
+  const deleteSavedMatch = async (matchId: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/matches/${matchId}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        setSavedMatches(savedMatches.filter(savedMatch => savedMatch.id !== matchId));
+        setSavedMatchesTotal(total => Math.max(0, total - 1));
+        if (updatingMatchId === matchId) {
+          setIsUpdateMode(false);
+          setUpdatingMatchId(null);
+          setUpdatingRevision(null);
+          setMatchRevisions([]);
+        }
+      } else {
+        console.error('Failed to delete saved match:', result.error);
+      }
+    } catch (error) {
+      console.error('Error deleting saved match:', error);
+    }
+  };
+
   /**
    * Load a specific saved match back into the dashboard
    */
+  const openSavedMatch = async (summary: SavedMatchSummary): Promise<void> => {
+    try {
+      const response = await fetch(`/api/matches/${summary.id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        loadSavedMatch(data.run);
+        await loadMatchRevisions(summary.id);
+        await loadMatchFeedback(summary.id);
+      } else {
+        setUploadStatus({ type: 'error', message: data.error || 'Failed to load saved match' });
+      }
+    } catch (error) {
+      console.error('Failed to load saved match:', error);
+      setUploadStatus({ type: 'error', message: 'Failed to load saved match' });
+    }
+  };
+
   const loadSavedMatch = (savedMatch: SavedMatch): void => {
     setMission(savedMatch.mission);
     setMatches(savedMatch.matches);
@@ -170,12 +510,69 @@ export default function Dashboard() {
     setTotalProfiles(savedMatch.matches.length);
     setIsUpdateMode(true);
     setUpdatingMatchId(savedMatch.id);
+    setUpdatingRevision(savedMatch.revision);
     setUploadStatus({ 
       type: 'success', 
       message: `Loaded ${savedMatch.matches.length} profiles from ${new Date(savedMatch.createdAt).toLocaleDateString()}. You can now search with a new mission.` 
     });
   };
 
+  /**
+   * Load the relevant/irrelevant verdicts on a saved match
+   */
+  const loadMatchFeedback = async (matchId: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/matches/${matchId}/feedback`);
+      const data = await response.json();
+      setMatchFeedback(data.success
+        ? Object.fromEntries(data.feedback.map((entry: { profileId: string; verdict: FeedbackVerdict }) => [entry.profileId, entry.verdict]))
+        : {});
+    } catch (error) {
+      console.error('Failed to load match feedback:', error);
+      setMatchFeedback({});
+    }
+  };
+
+  /**
+   * Load the earlier versions of a saved match
+   */
+  const loadMatchRevisions = async (matchId: string): Promise<void> => {
+    try {
+      const response = await fetch(`/api/matches/${matchId}/revisions`);
+      const data = await response.json();
+      setMatchRevisions(data.success ? data.revisions : []);
+    } catch (error) {
+      console.error('Failed to load match revisions:', error);
+      setMatchRevisions([]);
+    }
+  };
+
+  /**
+   * Show the results of an earlier version of the saved match being updated
+   */
+  const viewMatchRevision = async (revision: number): Promise<void> => {
+    if (!updatingMatchId) return;
+
+    try {
+      const response = await fetch(`/api/matches/${updatingMatchId}/revisions/${revision}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setMission(data.revision.mission);
+        setMatches(data.revision.matches);
+        setRecommendations(data.revision.recommendations);
+        setUploadStatus({
+          type: 'success',
+          message: `Showing version ${revision} from ${new Date(data.revision.createdAt).toLocaleDateString()}. A new search still updates the latest version.`
+        });
+      } else {
+        setUploadStatus({ type: 'error', message: data.error || 'Failed to load version' });
+      }
+    } catch (error) {
+      console.error('Failed to load match revision:', error);
+    }
+  };
+
   // Redirect unauthenticated users and load user data
   useEffect(() => {
     if (isLoaded && !user) {
@@ -189,13 +586,9 @@ export default function Dashboard() {
             const data = await response.json();
             
             if (data.success) {
-              // Always set saved matches, even if empty
-              const matches = data.data?.matches || [];
-              setSavedMatches(matches);
-              
               // Only load the latest match if there are matches
-              if (matches.length > 0) {
-                const latestMatch = matches[matches.length - 1];
+              const latestMatch = data.data?.latestMatch;
+              if (latestMatch) {
                 setMatches(latestMatch.matches || []);
                 setRecommendations(latestMatch.recommendations || '');
                 setMission(latestMatch.mission || '');
@@ -203,7 +596,29 @@ export default function Dashboard() {
             }
           } else {
             console.error('Failed to load user data:', response.status, response.statusText);
-            setSavedMatches([]);
+          }
+
+          // Load the first page of saved matches (after any legacy runs were migrated)
+          const matchesResponse = await fetch(`/api/matches?limit=${SAVED_MATCHES_PAGE_SIZE}`);
+          const matchesData = await matchesResponse.json();
+          setSavedMatches(matchesData.success ? matchesData.runs : []);
+          setSavedMatchesTotal(matchesData.success ? matchesData.total : 0);
+
+          // Load the workspace taxonomy for the search filters
+          const taxonomyResponse = await fetch('/api/taxonomy');
+          const taxonomyData = await taxonomyResponse.json();
+          setTaxonomy(taxonomyData.success ? taxonomyData.taxonomy : null);
+
+          // Load earlier uploads and imports, which can all be searched
+          await loadProfileSessions();
+
+          // Apply the user's saved search defaults
+          const defaultsResponse = await fetch('/api/search-defaults');
+          const defaultsData = await defaultsResponse.json();
+          if (defaultsData.success) {
+            const searchDefaults = defaultsData.searchDefaults as SearchDefaults;
+            setSearchLimit(searchDefaults.limit ?? DEFAULT_SEARCH_LIMIT);
+            setMinSimilarity(searchDefaults.minSimilarity ?? DEFAULT_MIN_SIMILARITY);
           }
         } catch (error) {
           console.error('Failed to load user data:', error);
@@ -218,12 +633,45 @@ export default function Dashboard() {
 
   /**
    * Save user matches to MongoDB
+   * In update mode the saved match being updated is replaced, keeping its previous results as a version
    */
   const saveUserMatches = async (matches?: Match[], recommendations?: string, mission?: string): Promise<void> => {
     if (!user?.primaryEmailAddress?.emailAddress || isSaving) return;
 
     setIsSaving(true);
     try {
+      if (isUpdateMode && updatingMatchId) {
+        const response = await fetch(`/api/matches/${updatingMatchId}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            matches,
+            recommendations,
+            mission,
+            revision: updatingRevision ?? undefined,
+          }),
+        });
+
+        const result = await response.json();
+
+        if (result.success) {
+          await loadSavedMatches();
+          setUpdatingRevision(result.run.revision);
+          await loadMatchRevisions(updatingMatchId);
+        } else {
+          console.error('Failed to update saved match:', result.error);
+          setUploadStatus({
+            type: 'error',
+            message: response.status === 409
+              ? 'This saved match was changed elsewhere. Reload it from Saved Matches before updating.'
+              : result.error || 'Failed to update saved match'
+          });
+        }
+        return;
+      }
+
       const response = await fetch('/api/save-user-data', {
         method: 'POST',
         headers: {
@@ -241,14 +689,11 @@ export default function Dashboard() {
       const result = await response.json();
       
       if (result.success) {
+        // Feedback on these results is kept with the new saved match
+        setCurrentRunId(result.matchId || null);
+        setMatchFeedback({});
         // Refresh saved matches list after successful save
         await loadSavedMatches();
-        
-        // If in update mode, exit update mode after successful save
-        if (isUpdateMode) {
-          setIsUpdateMode(false);
-          setUpdatingMatchId(null);
-        }
       } else {
         console.error('Failed to save matches:', result.error);
       }
@@ -287,18 +732,214 @@ export default function Dashboard() {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (file.type !== "text/csv") {
-      setUploadStatus({ type: 'error', message: 'Please select a valid CSV file' });
+    // Validate file type (CSV export or the full LinkedIn data export ZIP)
+    const isZip = file.name.toLowerCase().endsWith('.zip');
+    if (file.type !== "text/csv" && !isZip) {
+      setUploadStatus({ type: 'error', message: 'Please select a valid CSV or LinkedIn data export ZIP file' });
+      return;
+    }
+
+    // Data export archives have a fixed layout, so skip the mapping step
+    if (isZip) {
+      await uploadFile(file);
       return;
     }
 
     setIsLoading(true);
     setUploadStatus(null);
 
+    try {
+      // Only the start of the file is needed to detect headers
+      const formData = new FormData();
+      formData.append('file', new File([file.slice(0, PREVIEW_BYTES)], file.name, { type: 'text/csv' }));
+
+      const response = await fetch('/api/upload-preview', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        // Show the column-mapping wizard before importing
+        setColumnPreview({
+          file,
+          headers: result.headers,
+          sampleRows: result.sampleRows,
+          fields: result.fields,
+          mapping: result.mapping,
+          mappingSource: result.mappingSource
+        });
+      } else {
+        setUploadStatus({ type: 'error', message: result.error || 'Failed to read CSV file' });
+      }
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to read CSV file' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Update one field of the column mapping in the wizard
+   */
+  const handleMappingChange = (field: string, header: string): void => {
+    if (!columnPreview) return;
+
+    const mapping = { ...columnPreview.mapping };
+    if (header) {
+      mapping[field] = header;
+    } else {
+      delete mapping[field];
+    }
+    setColumnPreview({ ...columnPreview, mapping });
+  };
+
+  /**
+   * Close the column-mapping wizard without importing
+   */
+  const cancelColumnMapping = (): void => {
+    setColumnPreview(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  /**
+   * Send one chunk of a chunked upload, retrying with exponential backoff
+   */
+  const sendUploadChunk = async (jobId: string, file: File, index: number) => {
+    let lastError = 'Upload failed';
+
+    for (let attempt = 0; attempt < CHUNK_RETRY_LIMIT; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+      }
+
+      try {
+        const chunk = file.slice(index * UPLOAD_CHUNK_BYTES, (index + 1) * UPLOAD_CHUNK_BYTES);
+        const response = await fetch(`/api/upload-jobs/${jobId}/chunks?index=${index}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk,
+        });
+        const result = await response.json();
+
+        // The server expects a different chunk; let the caller realign
+        if (response.status === 409 && typeof result.nextChunkIndex === 'number') {
+          return result;
+        }
+        if (result.success) {
+          return result;
+        }
+        lastError = result.details || result.error || lastError;
+        // Rejected chunks (e.g. a column mapping that doesn't fit) fail the same way again
+        if (response.status === 400) {
+          break;
+        }
+      } catch {
+        lastError = 'Network error while uploading';
+      }
+    }
+
+    throw new Error(lastError);
+  };
+
+  /**
+   * Upload a large CSV in resumable chunks, with the column mapping confirmed in the wizard
+   * Job IDs are kept in localStorage so selecting the same file again resumes the upload
+   */
+  const uploadFileInChunks = async (file: File, headers?: string[], mapping?: Record<string, string>): Promise<void> => {
+    const resumeKey = `upload-job:${file.name}:${file.size}:${file.lastModified}`;
+    const totalChunks = Math.max(1, Math.ceil(file.size / UPLOAD_CHUNK_BYTES));
+
+    setIsLoading(true);
+    setUploadStatus(null);
+    setResumableUpload(null);
+    setImportSummary(null);
+
+    let jobId = localStorage.getItem(resumeKey);
+    let nextIndex = 0;
+
+    try {
+      // Resume an unfinished job for the same file if the server still has it
+      if (jobId) {
+        const statusResponse = await fetch(`/api/upload-jobs/${jobId}`);
+        const status = statusResponse.ok ? await statusResponse.json() : null;
+        if (status?.success && status.status === 'uploading') {
+          nextIndex = status.nextChunkIndex;
+        } else {
+          jobId = null;
+        }
+      }
+
+      if (!jobId) {
+        const createResponse = await fetch('/api/upload-jobs', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fileName: file.name, fileSize: file.size, totalChunks, headers, mapping }),
+        });
+        const created = await createResponse.json();
+        if (!created.success) {
+          const details = Array.isArray(created.details) ? `: ${created.details.join(', ')}` : '';
+          setUploadStatus({ type: 'error', message: `${created.error || 'Upload failed'}${details}` });
+          return;
+        }
+        jobId = created.jobId as string;
+        localStorage.setItem(resumeKey, jobId);
+      }
+
+      let result = null;
+      while (nextIndex < totalChunks) {
+        setUploadProgress({ 
+          bytesSent: nextIndex * UPLOAD_CHUNK_BYTES, 
+          totalBytes: file.size, 
+          profilesImported: result?.profilesImported || 0 
+        });
+
+        result = await sendUploadChunk(jobId, file, nextIndex);
+        nextIndex = result.nextChunkIndex;
+      }
+
+      localStorage.removeItem(resumeKey);
+      setUploadStatus({ 
+        type: 'success', 
+        message: `Successfully imported ${result?.profilesImported || 0} profiles`
+      });
+      setTotalProfiles(result?.profilesImported || 0);
+      setCurrentSessionId(result?.sessionId || null);
+      setImportSummary(result?.changes || null);
+      setColumnPreview(null);
+      setSearchScope('current');
+      await trackEmbeddingJob(result?.embeddingJobId);
+      await loadProfileSessions();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Upload failed';
+      setResumableUpload({ file, headers, mapping });
+      setUploadStatus({ 
+        type: 'error', 
+        message: `Upload paused at chunk ${nextIndex + 1} of ${totalChunks} (${reason}). You can resume it.` 
+      });
+    } finally {
+      setUploadProgress(null);
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Upload a file for import in a single request (used for data export ZIPs)
+   */
+  const uploadFile = async (file: File, mapping?: Record<string, string>): Promise<void> => {
+    setIsLoading(true);
+    setUploadStatus(null);
+    setImportSummary(null);
+
     try {
       const formData = new FormData();
       formData.append('file', file);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
 
       const response = await fetch('/api/upload-csv', {
         method: 'POST',
@@ -310,12 +951,20 @@ export default function Dashboard() {
       if (result.success) {
         setUploadStatus({ 
           type: 'success', 
-          message: `Successfully imported ${result.totalCount} profiles`
+          message: result.archive
+            ? `Successfully imported ${result.totalCount} profiles from ${result.archive.filesFound.length} export files`
+            : `Successfully imported ${result.totalCount} profiles`
         });
         setTotalProfiles(result.totalCount);
         setCurrentSessionId(result.sessionId);
+        setImportSummary(result.changes || null);
+        setColumnPreview(null);
+        setSearchScope('current');
+        await trackEmbeddingJob(result.embeddingJobId);
+        await loadProfileSessions();
       } else {
-        setUploadStatus({ type: 'error', message: result.error || 'Upload failed' });
+        const details = Array.isArray(result.details) ? `: ${result.details.join(', ')}` : '';
+        setUploadStatus({ type: 'error', message: `${result.error || 'Upload failed'}${details}` });
       }
     } catch {
       setUploadStatus({ type: 'error', message: 'Failed to upload file' });
@@ -353,8 +1002,11 @@ export default function Dashboard() {
         });
         setTotalProfiles(0);
         setCurrentSessionId(null);
+        setSearchScope('all');
+        setEmbeddingJob(null);
         setMatches([]);
         setRecommendations('');
+        await loadProfileSessions();
       } else {
         setUploadStatus({ type: 'error', message: result.error || 'Failed to clear profiles' });
       }
@@ -365,6 +1017,52 @@ export default function Dashboard() {
     }
   };
 
+  /**
+   * Structured search filters from the filter controls; undefined when none are set
+   */
+  const buildSearchFilters = () => {
+    const companyList = (value: string) => value.split(',').map(company => company.trim()).filter(Boolean);
+    const filters = {
+      industries: industryFilter ? [industryFilter] : undefined,
+      roleFamilies: roleFamilyFilter ? [roleFamilyFilter] : undefined,
+      seniorities: seniorityFilter ? [seniorityFilter] : undefined,
+      location: locationFilter.trim()
+        ? { query: locationFilter.trim(), radiusKm: radiusKm > 0 ? radiusKm : undefined }
+        : undefined,
+      companies: includeCompanies.trim() || excludeCompanies.trim()
+        ? { include: companyList(includeCompanies), exclude: companyList(excludeCompanies) }
+        : undefined,
+      connectedAfter: connectedFrom || undefined,
+      connectedBefore: connectedTo || undefined,
+      hasEmail: hasEmailOnly || undefined,
+      enrichedOnly: enrichedOnly || undefined
+    };
+    return Object.values(filters).some(value => value !== undefined) ? filters : undefined;
+  };
+
+  /**
+   * Sessions to search: the current upload, some of the user's uploads and imports, or all contacts
+   */
+  const buildSearchScope = () => {
+    if (searchScope === 'current' && currentSessionId) {
+      return { sessionIds: [currentSessionId] };
+    }
+    if (searchScope === 'selected') {
+      return { scope: 'sessions', sessionIds: selectedSessionIds };
+    }
+    return { scope: 'all' };
+  };
+
+  // Contacts covered by the selected search scope
+  const scopeProfileCount = searchScope === 'current' && currentSessionId
+    ? totalProfiles
+    : searchScope === 'selected'
+      ? profileSessions.filter(session => selectedSessionIds.includes(session.sessionId)).reduce((total, session) => total + session.profileCount, 0)
+      : profileSessions.reduce((total, session) => total + session.profileCount, 0);
+
+  // Saved match that feedback on the results is recorded against
+  const feedbackRunId = isUpdateMode ? updatingMatchId : currentRunId;
+
   /**
    * Main function to find matches using AI
    * 1. Parses mission statement to extract attributes
@@ -378,7 +1076,7 @@ export default function Dashboard() {
       return;
     }
 
-    if (totalProfiles === 0) {
+    if (scopeProfileCount === 0) {
       setUploadStatus({ type: 'error', message: 'Please upload profiles first' });
       return;
     }
@@ -408,24 +1106,43 @@ export default function Dashboard() {
       }
 
       // Step 2: Find matches using vector similarity
+      const searchRequest = { 
+        mission, 
+        ...buildSearchScope(),
+        attributes: missionResult.attributes,
+        recency: {
+          connectedAfter: connectedWithinDays > 0
+            ? new Date(Date.now() - connectedWithinDays * 24 * 60 * 60 * 1000).toISOString()
+            : undefined,
+          boostWeight: boostRecent ? 0.2 : undefined
+        },
+        filters: buildSearchFilters(),
+        diversity: diversifyResults ? {} : undefined,
+        limit: searchLimit,
+        minSimilarity,
+        // Updating a saved match re-ranks with its feedback
+        runId: isUpdateMode && updatingMatchId ? updatingMatchId : undefined
+      };
       const matchesResponse = await fetch('/api/search-profiles', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          mission, 
-          sessionId: currentSessionId,
-          attributes: missionResult.attributes
-        }),
+        body: JSON.stringify(searchRequest),
       });
 
       const matchesResult = await matchesResponse.json();
+      if (matchesResult.embeddingJob) {
+        setEmbeddingJob(matchesResult.embeddingJob);
+      }
 
       if (matchesResult.success) {
         // The search-profiles API already handles enrichment
         setMatches(matchesResult.matches);
         setRecommendations(matchesResult.recommendations);
+        setLastSearch({ url: '/api/search-profiles', body: searchRequest });
+        setSimilarTo(null);
+        setNextCursor(matchesResult.pagination?.nextCursor || null);
         setUploadStatus({ 
           type: 'success', 
           message: `Found ${matchesResult.matches.length} high-quality matches` 
@@ -444,6 +1161,165 @@ export default function Dashboard() {
     }
   };
 
+  /**
+   * Load the next page of matches for the last search
+   */
+  const loadMoreMatches = async (): Promise<void> => {
+    if (!lastSearch || !nextCursor || isLoadingMoreMatches) return;
+
+    setIsLoadingMoreMatches(true);
+    try {
+      const response = await fetch(lastSearch.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...lastSearch.body, cursor: nextCursor }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMatches(current => [...current, ...result.matches]);
+        setNextCursor(result.pagination?.nextCursor || null);
+      } else {
+        setUploadStatus({ type: 'error', message: result.error || 'Failed to load more matches' });
+      }
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to load more matches' });
+    } finally {
+      setIsLoadingMoreMatches(false);
+    }
+  };
+
+  /**
+   * Mark a match as relevant or irrelevant, or clear the verdict when it is clicked again
+   */
+  const toggleMatchFeedback = async (match: Match, verdict: FeedbackVerdict): Promise<void> => {
+    if (!feedbackRunId) return;
+
+    try {
+      const response = matchFeedback[match.id] === verdict
+        ? await fetch(`/api/matches/${feedbackRunId}/feedback?profileId=${encodeURIComponent(match.id)}`, { method: 'DELETE' })
+        : await fetch(`/api/matches/${feedbackRunId}/feedback`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ profileId: match.id, verdict }),
+        });
+      const result = await response.json();
+
+      if (result.success) {
+        setMatchFeedback(current => {
+          const next = { ...current };
+          delete next[match.id];
+          if (result.feedback) next[match.id] = result.feedback.verdict;
+          return next;
+        });
+      } else {
+        setUploadStatus({ type: 'error', message: result.error || 'Failed to save feedback' });
+      }
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to save feedback' });
+    }
+  };
+
+  /**
+   * Search again with the feedback given, dropping contacts marked irrelevant
+   */
+  const rerankWithFeedback = async (): Promise<void> => {
+    if (!lastSearch || !feedbackRunId || isLoading) return;
+
+    setIsLoading(true);
+    setUploadStatus(null);
+    try {
+      const rerankRequest = { ...lastSearch.body, cursor: undefined, offset: undefined, runId: feedbackRunId };
+      const response = await fetch(lastSearch.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rerankRequest),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMatches(result.matches);
+        setRecommendations(result.recommendations || '');
+        setLastSearch({ url: lastSearch.url, body: rerankRequest });
+        setNextCursor(result.pagination?.nextCursor || null);
+        setUploadStatus({
+          type: 'success',
+          message: `Re-ranked ${result.matches.length} matches with your feedback`
+        });
+      } else {
+        setUploadStatus({ type: 'error', message: result.error || 'Failed to re-rank matches' });
+      }
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to re-rank matches' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Replace the results with the contacts most similar to a match
+   */
+  const findSimilarContacts = async (match: Match): Promise<void> => {
+    if (isLoading) return;
+
+    setIsLoading(true);
+    setUploadStatus(null);
+    try {
+      const similarRequest = {
+        profileIds: [match.id],
+        ...buildSearchScope(),
+        diversity: diversifyResults ? {} : undefined,
+        limit: searchLimit
+      };
+      const response = await fetch('/api/similar-profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(similarRequest),
+      });
+      const result = await response.json();
+      if (result.embeddingJob) {
+        setEmbeddingJob(result.embeddingJob);
+      }
+
+      if (result.success) {
+        setMatches(result.matches);
+        setRecommendations('');
+        setSimilarTo(match);
+        setLastSearch({ url: '/api/similar-profiles', body: similarRequest });
+        setNextCursor(result.pagination?.nextCursor || null);
+        setUploadStatus({
+          type: 'success',
+          message: `Found ${result.matches.length} contacts similar to ${match.name}`
+        });
+      } else {
+        setUploadStatus({ type: 'error', message: result.error || 'Failed to find similar contacts' });
+      }
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to find similar contacts' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Save the current result count and similarity threshold as the user's search defaults
+   */
+  const saveSearchDefaults = async (): Promise<void> => {
+    try {
+      const response = await fetch('/api/search-defaults', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ searchDefaults: { limit: searchLimit, minSimilarity } }),
+      });
+      const result = await response.json();
+      setUploadStatus(result.success
+        ? { type: 'success', message: 'Search defaults saved' }
+        : { type: 'error', message: result.error || 'Failed to save search defaults' });
+    } catch {
+      setUploadStatus({ type: 'error', message: 'Failed to save search defaults' });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Mobile Header */}
@@ -528,7 +1404,7 @@ export default function Dashboard() {
                         className="flex-1 flex items-center justify-center px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
                       >
                         <FiUpload className="mr-2" />
-                        {isLoading ? 'Uploading...' : 'Upload CSV File'}
+                        {isLoading ? 'Uploading...' : 'Upload CSV or ZIP'}
                       </button>
                       {totalProfiles > 0 && (
                         <button
@@ -543,12 +1419,12 @@ export default function Dashboard() {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.zip"
                       onChange={handleFileChange}
                       className="hidden"
                     />
                     <p className="text-xs text-gray-500">
-                      Upload your LinkedIn connections CSV file
+                      Upload your LinkedIn connections CSV or the full &quot;Download your data&quot; ZIP
                       {totalProfiles > 0 && (
                         <span className="block mt-1 text-green-600">
                           ✓ {totalProfiles} profiles ready for matching
@@ -574,6 +1450,114 @@ export default function Dashboard() {
                   </div>
                 )}
 
+                {/* Changes Since Previous Upload */}
+                {importSummary && (importSummary.changed > 0 || importSummary.removed > 0 || importSummary.unchanged > 0) && (
+                  <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-xs font-medium text-gray-700">Changes since last upload</h4>
+                      <button
+                        onClick={() => setImportSummary(null)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Dismiss"
+                      >
+                        <FiX className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-center text-xs mb-2">
+                      <div className="p-2 bg-white rounded border border-gray-200">
+                        <div className="font-semibold text-green-700">+{importSummary.added}</div>
+                        <div className="text-gray-500">new</div>
+                      </div>
+                      <div className="p-2 bg-white rounded border border-gray-200">
+                        <div className="font-semibold text-gray-800">{importSummary.changed}</div>
+                        <div className="text-gray-500">changed</div>
+                      </div>
+                      <div className="p-2 bg-white rounded border border-gray-200">
+                        <div className="font-semibold text-red-700">-{importSummary.removed}</div>
+                        <div className="text-gray-500">removed</div>
+                      </div>
+                    </div>
+                    {importSummary.embeddingsCarriedOver > 0 && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        Reused embeddings for {importSummary.embeddingsCarriedOver} unchanged profiles
+                      </p>
+                    )}
+                    {importSummary.changes.length > 0 && (
+                      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600">
+                        {importSummary.changes.map((change, index) => (
+                          <li key={`${change.name}-${index}`}>
+                            <span className="font-medium text-gray-800">{change.name}</span>
+                            {change.title && <span>: {change.title.before || '—'} → {change.title.after || '—'}</span>}
+                            {change.company && <span> ({change.company.before || '—'} → {change.company.after || '—'})</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* Chunked Upload Progress */}
+                {uploadProgress && (
+                  <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                    <div className="flex justify-between text-xs text-gray-600 mb-2">
+                      <span>Uploading {Math.round(Math.min(100, (uploadProgress.bytesSent / uploadProgress.totalBytes) * 100))}%</span>
+                      <span>{uploadProgress.profilesImported} profiles imported</span>
+                    </div>
+                    <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-gray-800 transition-all"
+                        style={{ width: `${Math.min(100, (uploadProgress.bytesSent / uploadProgress.totalBytes) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Background Embedding Progress */}
+                {embeddingJob && embeddingJob.status !== 'completed' && (
+                  <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                    {embeddingJob.status === 'failed' ? (
+                      <div className="flex items-center justify-between text-xs text-red-700">
+                        <span className="truncate" title={embeddingJob.lastError}>
+                          Preparing contacts for search failed ({embeddingJob.embedded}/{embeddingJob.total})
+                        </span>
+                        <button
+                          onClick={retryEmbeddingJob}
+                          className="ml-2 flex items-center text-gray-700 hover:text-gray-900"
+                        >
+                          <FiRefreshCw className="mr-1" />
+                          Retry
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex justify-between text-xs text-gray-600 mb-2">
+                          <span>Preparing contacts for search {embeddingJob.percent}%</span>
+                          <span>{embeddingJob.embedded}/{embeddingJob.total} ready</span>
+                        </div>
+                        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gray-800 transition-all"
+                            style={{ width: `${embeddingJob.percent}%` }}
+                          />
+                        </div>
+                        <p className="mt-2 text-xs text-gray-500">
+                          You can search now; contacts that are not ready yet are included once they are.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {resumableUpload && !isLoading && (
+                  <button
+                    onClick={() => uploadFileInChunks(resumableUpload.file, resumableUpload.headers, resumableUpload.mapping)}
+                    className="mt-3 w-full flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <FiRefreshCw className="mr-2" />
+                    Resume upload
+                  </button>
+                )}
+
                 {/* Profile Count */}
                 {totalProfiles > 0 && (
                   <div className="mt-4 p-3 bg-gray-100 rounded-lg">
@@ -586,12 +1570,58 @@ export default function Dashboard() {
                   </div>
                 )}
 
+                {/* Recently Changed Jobs Section */}
+                <div className="mt-6">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-gray-700">Recently Changed Jobs</h3>
+                    <button
+                      onClick={loadJobChanges}
+                      disabled={isLoadingJobChanges}
+                      className="p-1 text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
+                      title={jobChanges ? 'Refresh job changes' : 'Show job changes'}
+                    >
+                      <FiRefreshCw className={`w-4 h-4 ${isLoadingJobChanges ? 'animate-spin' : ''}`} />
+                    </button>
+                  </div>
+
+                  {jobChanges === null ? (
+                    <button
+                      onClick={loadJobChanges}
+                      className="w-full text-xs text-gray-500 hover:text-gray-700 py-2"
+                    >
+                      Show contacts with a new role in the last 90 days
+                    </button>
+                  ) : jobChanges.length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {jobChanges.map((change) => (
+                        <div key={change.id} className="p-3 bg-white border border-gray-200 rounded-lg">
+                          <p className="text-sm font-medium text-gray-900 truncate">{change.name}</p>
+                          <p className="text-xs text-gray-600 truncate">
+                            {[change.title, change.company].filter(Boolean).join(' at ')}
+                          </p>
+                          {change.previousRole && (
+                            <p className="text-xs text-gray-400 truncate">
+                              was {[change.previousRole.title, change.previousRole.company].filter(Boolean).join(' at ')}
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-400 flex items-center mt-1">
+                            <FiClock className="w-3 h-3 mr-1" />
+                            {new Date(change.jobChangedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-400 text-center py-2">No job changes detected yet</p>
+                  )}
+                </div>
+
                 {/* Saved Matches Section */}
                 <div className="mt-6">
                   <div className="flex items-center justify-between mb-3">
                     <h3 className="text-sm font-medium text-gray-700">Saved Matches</h3>
                     <button
-                      onClick={loadSavedMatches}
+                      onClick={() => loadSavedMatches()}
                       disabled={isLoadingSavedMatches}
                       className="p-1 text-gray-500 hover:text-gray-700 transition-colors disabled:opacity-50"
                       title="Refresh saved matches"
@@ -599,56 +1629,87 @@ export default function Dashboard() {
                       <FiRefreshCw className={`w-4 h-4 ${isLoadingSavedMatches ? 'animate-spin' : ''}`} />
                     </button>
                   </div>
+
+                  {savedMatchesTotal > 1 && (
+                    <select
+                      value={savedMatchesSort}
+                      onChange={(e) => changeSavedMatchesSort(e.target.value as SavedMatchSort)}
+                      className="w-full mb-2 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {(Object.keys(SAVED_MATCH_SORTS) as SavedMatchSort[]).map((sort) => (
+                        <option key={sort} value={sort}>{SAVED_MATCH_SORTS[sort].label}</option>
+                      ))}
+                    </select>
+                  )}
                   
-                  
-                  {isLoadingSavedMatches ? (
+                  {isLoadingSavedMatches && savedMatches.length === 0 ? (
                     <div className="flex items-center justify-center py-4">
                       <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin"></div>
                     </div>
                   ) : savedMatches.length > 0 ? (
                     <div className="space-y-2 max-h-64 overflow-y-auto">
                       {savedMatches.map((savedMatch) => (
-                        <button
+                        <div
                           key={savedMatch.id}
-                          onClick={() => loadSavedMatch(savedMatch)}
-                          className={`w-full text-left p-3 rounded-lg transition-colors ${
+                          className={`flex items-start rounded-lg transition-colors ${
                             isUpdateMode && updatingMatchId === savedMatch.id
                               ? 'bg-blue-50 border-2 border-blue-300'
                               : 'bg-white border border-gray-200 hover:bg-gray-50 hover:border-gray-300'
                           }`}
                         >
-                          <div className="flex items-start space-x-2">
-                            <FiTarget className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
-                              isUpdateMode && updatingMatchId === savedMatch.id
-                                ? 'text-blue-600'
-                                : 'text-blue-500'
-                            }`} />
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm font-medium text-gray-900 truncate">
-                                {savedMatch.mission.length > 50 
-                                  ? `${savedMatch.mission.substring(0, 50)}...` 
-                                  : savedMatch.mission
-                                }
-                              </p>
-                              <div className="flex items-center space-x-2 mt-1">
-                                <span className="text-xs text-gray-500">
-                                  {savedMatch.matches.length} matches
-                                </span>
-                                <span className="text-xs text-gray-400">•</span>
-                                <span className="text-xs text-gray-500 flex items-center">
-                                  <FiClock className="w-3 h-3 mr-1" />
-                                  {new Date(savedMatch.createdAt).toLocaleDateString()}
-                                </span>
-                                {isUpdateMode && updatingMatchId === savedMatch.id && (
-                                  <span className="text-xs text-blue-600 font-medium">
-                                    • Active
+                          <button
+                            onClick={() => openSavedMatch(savedMatch)}
+                            className="flex-1 min-w-0 text-left p-3"
+                          >
+                            <div className="flex items-start space-x-2">
+                              <FiTarget className={`w-4 h-4 mt-0.5 flex-shrink-0 ${
+                                isUpdateMode && updatingMatchId === savedMatch.id
+                                  ? 'text-blue-600'
+                                  : 'text-blue-500'
+                              }`} />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-gray-900 truncate">
+                                  {savedMatch.mission.length > 50 
+                                    ? `${savedMatch.mission.substring(0, 50)}...` 
+                                    : savedMatch.mission
+                                  }
+                                </p>
+                                <div className="flex items-center space-x-2 mt-1">
+                                  <span className="text-xs text-gray-500">
+                                    {savedMatch.matchCount} matches{savedMatch.revision > 1 ? ` · v${savedMatch.revision}` : ''}
                                   </span>
-                                )}
+                                  <span className="text-xs text-gray-400">•</span>
+                                  <span className="text-xs text-gray-500 flex items-center">
+                                    <FiClock className="w-3 h-3 mr-1" />
+                                    {new Date(savedMatch.createdAt).toLocaleDateString()}
+                                  </span>
+                                  {isUpdateMode && updatingMatchId === savedMatch.id && (
+                                    <span className="text-xs text-blue-600 font-medium">
+                                      • Active
+                                    </span>
+                                  )}
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </button>
+                          </button>
+                          <button
+                            onClick={() => deleteSavedMatch(savedMatch.id)}
+                            className="p-3 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Delete saved match"
+                          >
+                            <FiTrash2 className="w-4 h-4" />
+                          </button>
+                        </div>
                       ))}
+                      {savedMatches.length < savedMatchesTotal && (
+                        <button
+                          onClick={() => loadSavedMatches(true)}
+                          disabled={isLoadingSavedMatches}
+                          className="w-full py-2 text-xs text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50"
+                        >
+                          {isLoadingSavedMatches ? 'Loading...' : `Load more (${savedMatchesTotal - savedMatches.length} remaining)`}
+                        </button>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-4">
@@ -687,6 +1748,70 @@ export default function Dashboard() {
               </p>
             </div>
 
+            {/* Column Mapping Wizard */}
+            {columnPreview && (
+              <div className="mb-8 p-5 border border-gray-200 rounded-lg bg-white">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Map your columns</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  {columnPreview.mappingSource === 'saved'
+                    ? 'We applied the mapping you used last time for this file layout. '
+                    : 'We matched your columns automatically. '}
+                  Check each field against the sample from <span className="font-medium">{columnPreview.file.name}</span> before importing.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-2 pr-4 font-medium">Profile field</th>
+                        <th className="py-2 pr-4 font-medium">CSV column</th>
+                        <th className="py-2 font-medium">Sample</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {columnPreview.fields.map(({ field, label }) => {
+                        const header = columnPreview.mapping[field] || '';
+                        const sample = header ? columnPreview.sampleRows[0]?.[header] || '' : '';
+                        return (
+                          <tr key={field} className="border-b border-gray-100">
+                            <td className="py-2 pr-4 text-gray-900">{label}</td>
+                            <td className="py-2 pr-4">
+                              <select
+                                value={header}
+                                onChange={(e) => handleMappingChange(field, e.target.value)}
+                                className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                              >
+                                <option value="">— Not mapped —</option>
+                                {columnPreview.headers.map((option) => (
+                                  <option key={option} value={option}>{option}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="py-2 text-gray-500 truncate max-w-xs">{sample}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="mt-4 flex justify-end space-x-3">
+                  <button
+                    onClick={cancelColumnMapping}
+                    disabled={isLoading}
+                    className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => uploadFileInChunks(columnPreview.file, columnPreview.headers, columnPreview.mapping)}
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {isLoading ? 'Importing...' : 'Import contacts'}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Mission Input Section */}
             <div className="rounded-lg mb-5">
               {isUpdateMode ? (
@@ -696,8 +1821,23 @@ export default function Dashboard() {
                     <span className="text-sm font-medium text-blue-900">Update Mode</span>
                   </div>
                   <p className="text-sm text-blue-800">
-                    You&apos;re updating an existing search. Enter a new mission to find different matches from the same profiles.
+                    You&apos;re updating an existing search{updatingRevision ? ` (version ${updatingRevision})` : ''}. Enter a new mission to find different matches from the same profiles; the current results are kept as a previous version.
                   </p>
+                  {matchRevisions.length > 0 && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="text-blue-900 font-medium">Previous versions:</span>
+                      {matchRevisions.map((revision) => (
+                        <button
+                          key={revision.revision}
+                          onClick={() => viewMatchRevision(revision.revision)}
+                          className="px-2 py-1 bg-white border border-blue-200 rounded-md text-blue-700 hover:bg-blue-100 transition-colors"
+                          title={revision.mission}
+                        >
+                          v{revision.revision} · {revision.matchCount} matches · {new Date(revision.createdAt).toLocaleDateString()}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <p className="text-gray-600 mb-4">
@@ -710,10 +1850,216 @@ export default function Dashboard() {
                 placeholder="e.g., I'm looking for tech entrepreneurs in San Francisco who are building AI startups..."
                 className="w-full h-32 px-4 py-3 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-transparent"
               />
-              <div className="mt-4 flex justify-end">
+              <div className="mt-4 flex md:flex-row flex-col md:items-center md:justify-between gap-3">
+                {/* Connection Recency */}
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                  <label className="flex items-center space-x-2">
+                    <span>Connected</span>
+                    <select
+                      value={connectedWithinDays}
+                      onChange={(e) => setConnectedWithinDays(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      <option value={0}>any time</option>
+                      <option value={90}>in the last 3 months</option>
+                      <option value={365}>in the last year</option>
+                      <option value={730}>in the last 2 years</option>
+                      <option value={1825}>in the last 5 years</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={boostRecent}
+                      onChange={(e) => setBoostRecent(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>Prioritize warm relationships</span>
+                  </label>
+                  {/* Taxonomy Filters */}
+                  {taxonomy && (
+                    <>
+                      <select
+                        value={industryFilter}
+                        onChange={(e) => setIndustryFilter(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                      >
+                        <option value="">Any industry</option>
+                        {taxonomy.industries.map((industry) => (
+                          <optgroup key={industry.id} label={industry.label}>
+                            <option value={industry.id}>All of {industry.label}</option>
+                            {(industry.subIndustries || []).map((sub) => (
+                              <option key={sub.id} value={sub.id}>{sub.label}</option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                      <select
+                        value={roleFamilyFilter}
+                        onChange={(e) => setRoleFamilyFilter(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                      >
+                        <option value="">Any role</option>
+                        {taxonomy.roleFamilies.map((role) => (
+                          <option key={role.id} value={role.id}>{role.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={seniorityFilter}
+                        onChange={(e) => setSeniorityFilter(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                      >
+                        <option value="">Any seniority</option>
+                        {taxonomy.seniorityLevels.map((level) => (
+                          <option key={level.id} value={level.id}>{level.label}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  {/* Location, Company and Contact Filters */}
+                  <input
+                    type="text"
+                    value={locationFilter}
+                    onChange={(e) => setLocationFilter(e.target.value)}
+                    placeholder="Location"
+                    className="w-32 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                  />
+                  <select
+                    value={radiusKm}
+                    onChange={(e) => setRadiusKm(Number(e.target.value))}
+                    disabled={!locationFilter.trim()}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+                  >
+                    <option value={0}>exact</option>
+                    <option value={25}>within 25 km</option>
+                    <option value={50}>within 50 km</option>
+                    <option value={100}>within 100 km</option>
+                    <option value={250}>within 250 km</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={includeCompanies}
+                    onChange={(e) => setIncludeCompanies(e.target.value)}
+                    placeholder="Only companies (comma-separated)"
+                    className="w-56 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                  />
+                  <input
+                    type="text"
+                    value={excludeCompanies}
+                    onChange={(e) => setExcludeCompanies(e.target.value)}
+                    placeholder="Exclude companies"
+                    className="w-40 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                  />
+                  <label className="flex items-center space-x-2">
+                    <span>Connected between</span>
+                    <input
+                      type="date"
+                      value={connectedFrom}
+                      onChange={(e) => setConnectedFrom(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    />
+                    <span>and</span>
+                    <input
+                      type="date"
+                      value={connectedTo}
+                      onChange={(e) => setConnectedTo(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    />
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={hasEmailOnly}
+                      onChange={(e) => setHasEmailOnly(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>Has email</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={enrichedOnly}
+                      onChange={(e) => setEnrichedOnly(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>Enriched only</span>
+                  </label>
+                  <label className="flex items-center space-x-2" title="Spread matches over different companies and roles">
+                    <input
+                      type="checkbox"
+                      checked={diversifyResults}
+                      onChange={(e) => setDiversifyResults(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <span>Diversify results</span>
+                  </label>
+                  {/* Search Scope */}
+                  <label className="flex items-center space-x-2">
+                    <span>Search</span>
+                    <select
+                      value={searchScope}
+                      onChange={(e) => setSearchScope(e.target.value as SearchScopeOption)}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      <option value="current" disabled={!currentSessionId}>this upload</option>
+                      <option value="all">all my contacts</option>
+                      <option value="selected" disabled={profileSessions.length === 0}>selected uploads</option>
+                    </select>
+                  </label>
+                  {/* Result Count and Threshold */}
+                  <label className="flex items-center space-x-2">
+                    <span>Show</span>
+                    <select
+                      value={searchLimit}
+                      onChange={(e) => setSearchLimit(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {[6, 10, 20, 50].map((limit) => (
+                        <option key={limit} value={limit}>{limit} at a time</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <span>Min. similarity</span>
+                    <select
+                      value={minSimilarity}
+                      onChange={(e) => setMinSimilarity(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {[0.1, 0.2, 0.3, 0.4, 0.5].map((threshold) => (
+                        <option key={threshold} value={threshold}>{Math.round(threshold * 100)}%</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={saveSearchDefaults}
+                    className="text-xs text-gray-600 hover:text-gray-900 underline"
+                  >
+                    Save as default
+                  </button>
+                  {searchScope === 'selected' && (
+                    <div className="w-full flex flex-wrap gap-x-4 gap-y-1">
+                      {profileSessions.map((session) => (
+                        <label key={session.sessionId} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedSessionIds.includes(session.sessionId)}
+                            onChange={(e) => setSelectedSessionIds(e.target.checked
+                              ? [...selectedSessionIds, session.sessionId]
+                              : selectedSessionIds.filter(id => id !== session.sessionId))}
+                            className="rounded border-gray-300"
+                          />
+                          <span>
+                            {session.source === 'scrape' ? 'Profile import' : 'Upload'} of {new Date(session.lastUploadedAt).toLocaleDateString()} ({session.profileCount})
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
                 <button
                   onClick={handleFindMatches}
-                  disabled={isLoading || !mission.trim() || totalProfiles === 0}
+                  disabled={isLoading || !mission.trim() || scopeProfileCount === 0}
                   className={`px-6 py-3 text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 ${
                     isUpdateMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-800 hover:bg-gray-700'
                   }`}
@@ -722,7 +2068,7 @@ export default function Dashboard() {
                     <>
                       <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
                       <span>{isUpdateMode ? 'Updating Matches...' : 'Finding Matches...'}</span>
-                      <span className="text-xs opacity-75 ml-2">(AI analyzing {totalProfiles} profiles)</span>
+                      <span className="text-xs opacity-75 ml-2">(AI analyzing {scopeProfileCount} profiles)</span>
                     </>
                   ) : (
                     <>
@@ -738,9 +2084,21 @@ export default function Dashboard() {
               <div className="space-y-6">
                 {/* Matches List */}
                 <div className="rounded-lg pt-5">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                    Top Matches ({matches.length})
-                  </h3>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {similarTo ? `Similar to ${similarTo.name}` : 'Top Matches'} ({matches.length})
+                    </h3>
+                    {feedbackRunId && !similarTo && lastSearch?.url === '/api/search-profiles' && Object.keys(matchFeedback).length > 0 && (
+                      <button
+                        onClick={rerankWithFeedback}
+                        disabled={isLoading}
+                        className="px-3 py-1 text-sm text-gray-600 border border-gray-200 rounded-lg hover:text-gray-900 hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                      >
+                        <FiRefreshCw className="w-3 h-3" />
+                        <span>Re-rank with feedback</span>
+                      </button>
+                    )}
+                  </div>
                   <div className="space-y-4">
                     {matches.map((match) => (
                       <div key={match.id} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
@@ -783,6 +2141,54 @@ export default function Dashboard() {
                             <p className="text-gray-600 text-sm">{match.title}</p>
                             <p className="text-gray-900 text-sm font-semibold">{match.company}</p>
                             <p className="text-gray-500 text-xs mt-1">{match.location}  {match.industry}</p>
+                            {match.connectedOn && (
+                              <p className="text-gray-500 text-xs mt-1 flex items-center">
+                                <FiClock className="w-3 h-3 mr-1" />
+                                Connected {new Date(match.connectedOn).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+                              </p>
+                            )}
+                            {match.jobChangedAt && (
+                              <p className="text-gray-500 text-xs mt-1">
+                                New role since {new Date(match.jobChangedAt).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+                                {match.previousRole && ` (was ${[match.previousRole.title, match.previousRole.company].filter(Boolean).join(' at ')})`}
+                              </p>
+                            )}
+
+                            {/* Score Breakdown */}
+                            {match.scoreBreakdown && (
+                              <details className="mt-2 text-xs text-gray-600">
+                                <summary className="cursor-pointer text-gray-500 hover:text-gray-700">Score breakdown</summary>
+                                <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 max-w-xs">
+                                  <span>Semantic similarity</span>
+                                  <span className="text-right">{formatScorePart(match.scoreBreakdown.semantic)}</span>
+                                  <span>Keyword relevance</span>
+                                  <span className="text-right">{formatScorePart(match.scoreBreakdown.lexical)}</span>
+                                  <span>Fused relevance</span>
+                                  <span className="text-right">{formatScorePart(match.scoreBreakdown.fused)}</span>
+                                  <span>Recency boost</span>
+                                  <span className="text-right">{formatScorePart(match.scoreBreakdown.recencyBoost, true)}</span>
+                                  <span>
+                                    Taxonomy boost
+                                    {(match.scoreBreakdown.industryMatch || match.scoreBreakdown.roleMatch) && ` (${[
+                                      match.scoreBreakdown.industryMatch && 'industry',
+                                      match.scoreBreakdown.roleMatch && 'role'
+                                    ].filter(Boolean).join(', ')})`}
+                                  </span>
+                                  <span className="text-right">{formatScorePart(match.scoreBreakdown.taxonomyBoost, true)}</span>
+                                  {match.scoreBreakdown.feedbackAdjustment !== 0 && (
+                                    <>
+                                      <span>Feedback (similarity)</span>
+                                      <span className="text-right">{formatScorePart(match.scoreBreakdown.feedbackAdjustment, true)}</span>
+                                    </>
+                                  )}
+                                  <span className="font-semibold">Ranking score</span>
+                                  <span className="text-right font-semibold">{formatScorePart(match.scoreBreakdown.total)}</span>
+                                </div>
+                                {match.scoreBreakdown.filterHits.length > 0 && (
+                                  <p className="mt-1">Passed filters: {match.scoreBreakdown.filterHits.join(', ')}</p>
+                                )}
+                              </details>
+                            )}
                             
                             {/* Skills */}
                             {match.skills && match.skills.length > 0 && (
@@ -826,8 +2232,8 @@ export default function Dashboard() {
                             )}
                           </div>
                           
-                          {/* Connect Button */}
-                          <div className="flex-shrink-0">
+                          {/* Connect, Similar and Feedback Buttons */}
+                          <div className="flex-shrink-0 flex md:flex-col gap-2">
                             <a
                               href={match.linkedinUrl}
                               target="_blank"
@@ -836,11 +2242,49 @@ export default function Dashboard() {
                             >
                               Connect
                             </a>
+                            <button
+                              onClick={() => findSimilarContacts(match)}
+                              disabled={isLoading}
+                              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+                            >
+                              Find similar
+                            </button>
+                            {feedbackRunId && !similarTo && (
+                              <div className="flex gap-2 justify-center">
+                                <button
+                                  onClick={() => toggleMatchFeedback(match, 'relevant')}
+                                  title="Relevant"
+                                  className={`p-2 rounded-lg border transition-colors ${
+                                    matchFeedback[match.id] === 'relevant' ? 'bg-green-100 border-green-300 text-green-700' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  <FiThumbsUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => toggleMatchFeedback(match, 'irrelevant')}
+                                  title="Not relevant"
+                                  className={`p-2 rounded-lg border transition-colors ${
+                                    matchFeedback[match.id] === 'irrelevant' ? 'bg-red-100 border-red-300 text-red-700' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  <FiThumbsDown className="w-4 h-4" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
                     ))}
                   </div>
+                  {nextCursor && (
+                    <button
+                      onClick={loadMoreMatches}
+                      disabled={isLoadingMoreMatches}
+                      className="mt-4 w-full py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:text-gray-900 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      {isLoadingMoreMatches ? 'Loading...' : 'Load more matches'}
+                    </button>
+                  )}
                 </div>                
               </div>
             )}
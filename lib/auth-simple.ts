@@ -95,3 +95,16 @@ export function withAuth<T extends any[]>(
 export function generateUserSessionId(user: AuthenticatedUser, operation: string): string {
   return `${operation}-${user.userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
+
+// Operations that create sessions holding a user's contacts (see generateUserSessionId)
+const PROFILE_SESSION_OPERATIONS = ['upload', 'user', 'scrape'];
+
+/**
+ * Check that a session ID was generated for a user
+ * @param sessionId - Session ID from a request
+ * @param userId - Authenticated user's ID
+ * @returns True for the user's upload, scrape and legacy user sessions
+ */
+export function isUserSessionId(sessionId: string, userId: string): boolean {
+  return PROFILE_SESSION_OPERATIONS.some(operation => sessionId.startsWith(`${operation}-${userId}-`));
+}
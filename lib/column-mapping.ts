@@ -0,0 +1,241 @@
+import { Profile } from './utils';
+
+/**
+ * Column mapping for contact CSV imports
+ *
+ * Detects which CSV headers correspond to which Profile fields so exports from
+ * LinkedIn, Google Contacts, Outlook and common CRMs can all be imported. The
+ * proposed mapping is shown in the dashboard for correction before upload.
+ */
+
+export type MappableField =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'title'
+  | 'company'
+  | 'location'
+  | 'industry'
+  | 'linkedinUrl'
+  | 'email'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'connectedOn'
+  | 'connectionNote'
+  | 'connectionSource';
+
+/**
+ * Mapping from Profile field to the CSV header that supplies it
+ */
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export interface MappableFieldInfo {
+  field: MappableField;
+  label: string;
+}
+
+// Field order here is the order shown in the mapping wizard
+export const MAPPABLE_FIELDS: MappableFieldInfo[] = [
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'fullName', label: 'Full name' },
+  { field: 'title', label: 'Job title' },
+  { field: 'company', label: 'Company' },
+  { field: 'location', label: 'Location' },
+  { field: 'industry', label: 'Industry' },
+  { field: 'linkedinUrl', label: 'LinkedIn URL' },
+  { field: 'email', label: 'Email' },
+  { field: 'summary', label: 'Summary' },
+  { field: 'experience', label: 'Experience' },
+  { field: 'education', label: 'Education' },
+  { field: 'skills', label: 'Skills' },
+  { field: 'connectedOn', label: 'Connected on' },
+  { field: 'connectionNote', label: 'Connection note' },
+  { field: 'connectionSource', label: 'Connection source' }
+];
+
+/**
+ * Known header spellings per field (LinkedIn, Google Contacts, Outlook, CRMs)
+ * Compared after normalization, so case, spacing and punctuation don't matter
+ */
+const FIELD_ALIASES: Record<MappableField, string[]> = {
+  firstName: ['First Name', 'first_name', 'Given Name', 'FirstName', 'First'],
+  lastName: ['Last Name', 'last_name', 'Family Name', 'Surname', 'LastName', 'Last'],
+  fullName: ['Name', 'Full Name', 'Display Name', 'Contact Name', 'Contact'],
+  title: ['Position', 'Job Title', 'Title', 'Organization 1 - Title', 'Role', 'Headline', 'Occupation'],
+  company: ['Company', 'Organization', 'Organization 1 - Name', 'Company Name', 'Account Name', 'Employer', 'Business'],
+  location: ['Location', 'City', 'Address 1 - City', 'Business City', 'Home City', 'Region', 'Country'],
+  industry: ['Industry', 'Sector', 'Vertical'],
+  linkedinUrl: ['URL', 'LinkedIn URL', 'Profile URL', 'linkedin_url', 'LinkedIn', 'LinkedIn Profile', 'Website 1 - Value', 'Web Page'],
+  email: ['Email Address', 'Email', 'E-mail Address', 'E-mail 1 - Value', 'Primary Email', 'Work Email'],
+  summary: ['Summary', 'About', 'Notes', 'Description', 'Bio'],
+  experience: ['Experience', 'Work Experience', 'work_experience'],
+  education: ['Education', 'School', 'University'],
+  skills: ['Skills', 'Endorsements', 'Expertise', 'Tags'],
+  connectedOn: ['Connected On', 'Connection Date', 'Date Connected', 'Date Added', 'Created Date', 'Created At'],
+  connectionNote: ['Note', 'Connection Note', 'Invitation Message', 'Message'],
+  connectionSource: ['Source', 'Connection Source', 'Lead Source', 'Contact Source']
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse a connection date ("12 Jan 2023" in LinkedIn exports, ISO or locale dates elsewhere)
+ * 
+ * @param value - Raw date cell
+ * @returns ISO date string, or undefined when the value is empty or unparseable
+ */
+export const parseConnectionDate = (value: string): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Propose a mapping for the given CSV headers
+ * Exact alias matches win; otherwise a header containing an alias is used
+ *
+ * @param headers - Header row of the uploaded CSV
+ * @returns Proposed mapping (fields without a confident match are left out)
+ */
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(header => ({ header, key: normalizeHeader(header) }));
+
+  // First pass: exact alias matches, in alias priority order
+  for (const { field } of MAPPABLE_FIELDS) {
+    for (const alias of FIELD_ALIASES[field]) {
+      const match = normalized.find(({ header, key }) => key === normalizeHeader(alias) && !used.has(header));
+      if (match) {
+        mapping[field] = match.header;
+        used.add(match.header);
+        break;
+      }
+    }
+  }
+
+  // Second pass: fuzzy matches for fields still unmapped (e.g. "Contact Email (Work)")
+  for (const { field } of MAPPABLE_FIELDS) {
+    if (mapping[field]) continue;
+    for (const alias of FIELD_ALIASES[field]) {
+      const aliasKey = normalizeHeader(alias);
+      if (aliasKey.length < 4) continue;
+      const match = normalized.find(({ header, key }) => key.includes(aliasKey) && !used.has(header));
+      if (match) {
+        mapping[field] = match.header;
+        used.add(match.header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Whether a submitted value has the shape of a mapping: a plain object of header names
+ * Checked before validateColumnMapping, which expects that shape.
+ */
+export const isColumnMappingShape = (value: unknown): value is ColumnMapping =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every(header => typeof header === 'string');
+
+/**
+ * Validate a user-supplied mapping against the CSV headers
+ *
+ * @param mapping - Mapping submitted from the dashboard
+ * @param headers - Header row of the uploaded CSV
+ * @returns Array of validation errors (empty when valid)
+ */
+export const validateColumnMapping = (mapping: ColumnMapping, headers: string[]): string[] => {
+  const errors: string[] = [];
+  const fields = new Set(MAPPABLE_FIELDS.map(({ field }) => field));
+
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!fields.has(field as MappableField)) {
+      errors.push(`Unknown profile field: ${field}`);
+    } else if (header && !headers.includes(header)) {
+      errors.push(`Column "${header}" mapped to ${field} is not in the file`);
+    }
+  }
+
+  if (!mapping.fullName && !mapping.firstName && !mapping.lastName) {
+    errors.push('Map at least one name column (full name, first name or last name)');
+  }
+
+  return errors;
+};
+
+/**
+ * Stable signature of a header row, used to remember mappings per file layout
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+  return headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+};
+
+/**
+ * Convert CSV rows to Profile objects using a column mapping
+ *
+ * @param rows - Parsed CSV rows keyed by header
+ * @param mapping - Field to header mapping
+ * @param sessionId - Upload session ID to track this batch
+ * @param indexOffset - Row number of the first row, for batches of a larger file
+ * @returns Array of structured Profile objects
+ */
+export const applyColumnMapping = (rows: Record<string, string>[], mapping: ColumnMapping, sessionId?: string, indexOffset: number = 0): Profile[] => {
+  const value = (row: Record<string, string>, field: MappableField): string => {
+    const header = mapping[field];
+    return header ? (row[header] || '').trim() : '';
+  };
+
+  return rows.map((row, index) => {
+    const firstName = value(row, 'firstName');
+    const lastName = value(row, 'lastName');
+    const jobTitle = value(row, 'title');
+    const company = value(row, 'company');
+    const summary = value(row, 'summary');
+    const experience = value(row, 'experience');
+    const skills = value(row, 'skills');
+
+    const name = value(row, 'fullName') || `${firstName} ${lastName}`.trim();
+
+    // Parse skills from string to array
+    const skillsArray = skills ? skills.split(/[,;]/).map(skill => skill.trim()).filter(skill => skill.length > 0) : [];
+
+    // Create a more comprehensive summary
+    const enhancedSummary = summary ||
+      (jobTitle && company ? `${jobTitle} at ${company}` :
+       jobTitle || company || name);
+
+    // Create experience description
+    const experienceText = experience ||
+      (jobTitle && company ? `${jobTitle} at ${company}` :
+       jobTitle || company || "");
+
+    return {
+      id: `csv-${indexOffset + index}-${Date.now()}`,
+      name,
+      title: jobTitle,
+      company: company,
+      location: value(row, 'location'),
+      industry: value(row, 'industry'),
+      linkedinUrl: value(row, 'linkedinUrl'),
+      email: value(row, 'email'),
+      summary: enhancedSummary,
+      experience: experienceText,
+      education: value(row, 'education'),
+      skills: skillsArray,
+      profilePicture: "", // Will be populated if we scrape the profile
+      connectedOn: parseConnectionDate(value(row, 'connectedOn')),
+      connectionNote: value(row, 'connectionNote') || undefined,
+      connectionSource: value(row, 'connectionSource') || undefined,
+      uploadSessionId: sessionId
+    };
+  });
+};
@@ -44,6 +44,15 @@ export async function testDatabaseConnection(): Promise<{
   details: string;
 }> {
   try {
+    const { getStorageBackend } = await import('./repository');
+    const backend = getStorageBackend();
+    if (backend !== 'mongodb') {
+      return {
+        success: true,
+        details: `Using ${backend === 'file' ? 'file' : 'in-memory'} storage (STORAGE_BACKEND=${backend}); MongoDB is not used.`
+      };
+    }
+
     const { getDatabase } = await import('./mongodb');
     const db = await getDatabase();
     
@@ -0,0 +1,99 @@
+import { MatchResult } from './utils';
+import { normalizeCompanyName } from './identity';
+import { tokenizeSearchText } from './hybrid-search';
+
+/**
+ * Diversity-aware re-ranking
+ *
+ * Maximal marginal relevance (MMR): matches are picked one at a time by
+ * lambda * relevance - (1 - lambda) * redundancy, where redundancy is the
+ * highest similarity to a match picked before. Two matches are fully similar
+ * when they work at the same company, and otherwise as similar as the overlap
+ * of their title terms. `maxPerCompany` additionally caps the matches from any
+ * one company.
+ */
+
+export interface DiversityOptions {
+  lambda?: number; // 1 ranks by relevance alone, 0 by novelty alone (default DEFAULT_DIVERSITY_LAMBDA)
+  maxPerCompany?: number;
+}
+
+export const DEFAULT_DIVERSITY_LAMBDA = 0.7;
+
+// Ranked matches re-ranked for diversity; pages within the pool stay consistent
+export const DIVERSITY_POOL_SIZE = 100;
+
+interface DiversityFeatures {
+  company: string; // Normalized, empty if unknown
+  titleTerms: Set<string>;
+}
+
+const getFeatures = (match: MatchResult): DiversityFeatures => ({
+  company: normalizeCompanyName(match.company || ''),
+  titleTerms: new Set(tokenizeSearchText(match.title || ''))
+});
+
+// Same company, or the Jaccard overlap of title terms
+const featureSimilarity = (a: DiversityFeatures, b: DiversityFeatures): number => {
+  if (a.company && a.company === b.company) return 1;
+  if (a.titleTerms.size === 0 || b.titleTerms.size === 0) return 0;
+  let shared = 0;
+  a.titleTerms.forEach(term => {
+    if (b.titleTerms.has(term)) shared++;
+  });
+  return shared / (a.titleTerms.size + b.titleTerms.size - shared);
+};
+
+/**
+ * Re-rank matches for diversity with maximal marginal relevance
+ *
+ * @param ranked - Matches ranked by relevance, best first
+ * @param relevance - Relevance of a match, e.g. its similarity or fused score
+ * @param options - Relevance/novelty trade-off and per-company cap
+ * @param count - Number of matches to pick
+ * @returns Up to `count` matches in diversified order; fewer if the company cap excludes the rest
+ */
+export const diversifyMatches = <T extends MatchResult>(
+  ranked: T[],
+  relevance: (match: T) => number,
+  options: DiversityOptions,
+  count: number = ranked.length
+): T[] => {
+  const lambda = options.lambda ?? DEFAULT_DIVERSITY_LAMBDA;
+  const features = ranked.map(getFeatures);
+  // Relevance relative to the best match, on the same 0-1 scale as redundancy
+  const scores = ranked.map(relevance);
+  const best = Math.max(0, ...scores);
+  const relevances = scores.map(score => best > 0 ? Math.max(0, score) / best : 0);
+  const redundancy = ranked.map(() => 0);
+  const companyCounts = new Map<string, number>();
+  const remaining = new Set(ranked.map((_, index) => index));
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.size > 0) {
+    let pick = -1;
+    let pickScore = -Infinity;
+    remaining.forEach(index => {
+      const { company } = features[index];
+      if (options.maxPerCompany && company && (companyCounts.get(company) || 0) >= options.maxPerCompany) return;
+      const score = lambda * relevances[index] - (1 - lambda) * redundancy[index];
+      if (score > pickScore) {
+        pick = index;
+        pickScore = score;
+      }
+    });
+    if (pick < 0) break; // Everything left is from companies at their cap
+
+    remaining.delete(pick);
+    picked.push(ranked[pick]);
+    const { company } = features[pick];
+    if (company) {
+      companyCounts.set(company, (companyCounts.get(company) || 0) + 1);
+    }
+    remaining.forEach(index => {
+      redundancy[index] = Math.max(redundancy[index], featureSimilarity(features[index], features[pick]));
+    });
+  }
+
+  return picked;
+};
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { Profile, generateProfileText, findCachedEmbeddings, saveCachedEmbeddings, getProfilesWithoutEmbeddings, saveProfileEmbeddings } from './utils';
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddings';
+
+/**
+ * Embedding cache and versioning
+ *
+ * Every stored embedding records the model that produced it and a hash of the
+ * text it was generated from. An embedding is current only if both still match
+ * the configured model and what generateProfileText produces today; otherwise
+ * it is regenerated, so vectors from different models or outdated profile
+ * text are never compared.
+ *
+ * Generated embeddings are also cached by text hash + model, so identical text
+ * (the same contact in another import, a re-run mission, a model switched back)
+ * is embedded only once.
+ */
+
+// Inputs per provider call
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface EmbeddingStats {
+  cached: number; // Served from the embedding cache
+  generated: number; // Sent to the embedding provider
+}
+
+/**
+ * Identify a model and vector size, e.g. `azure:text-embedding-3-large@native`
+ *
+ * @param provider - Embedding provider, defaults to the configured one
+ * @returns Model ID stored with embeddings and cache entries
+ */
+export const getEmbeddingModelId = (provider: EmbeddingProvider = getEmbeddingProvider()): string =>
+  `${provider.name}:${provider.model}@${provider.dimensions ?? 'native'}`;
+
+/**
+ * Hash text for the embedding cache
+ *
+ * @param text - Text that is embedded
+ * @returns Hex SHA-256 digest
+ */
+export const hashEmbeddingText = (text: string): string =>
+  createHash('sha256').update(text).digest('hex');
+
+/**
+ * Check whether a profile's stored embedding was generated by the given model
+ * from the profile's current text (only the metadata is checked, not the vector)
+ *
+ * @param profile - Profile to check
+ * @param modelId - Model ID of the configured provider
+ * @returns True if the embedding can be used as is
+ */
+export const isEmbeddingCurrent = (profile: Profile, modelId: string): boolean =>
+  profile.embeddingModel === modelId &&
+  profile.embeddingTextHash === hashEmbeddingText(generateProfileText(profile));
+
+/**
+ * Check whether a loaded profile needs a new embedding
+ *
+ * @param profile - Profile loaded with its embedding
+ * @param modelId - Model ID of the configured provider
+ * @returns True if the embedding is missing or stale
+ */
+export const needsEmbedding = (profile: Profile, modelId: string): boolean =>
+  !profile.embedding || profile.embedding.length === 0 || !isEmbeddingCurrent(profile, modelId);
+
+// Embed texts through the cache, in input order
+const embedTextsCached = async (
+  texts: string[],
+  provider: EmbeddingProvider
+): Promise<{ embeddings: number[][]; stats: EmbeddingStats }> => {
+  const model = getEmbeddingModelId(provider);
+  const hashes = texts.map(hashEmbeddingText);
+  const uniqueHashes = Array.from(new Set(hashes));
+
+  const found = new Map<string, number[]>();
+  (await findCachedEmbeddings(model, uniqueHashes)).forEach(entry => found.set(entry.textHash, entry.embedding));
+  const cached = found.size;
+
+  const missing = uniqueHashes.filter(hash => !found.has(hash));
+  const textByHash = new Map(hashes.map((hash, index) => [hash, texts[index]]));
+
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embeddings = await provider.embed(batch.map(hash => textByHash.get(hash)!));
+    const createdAt = new Date();
+    await saveCachedEmbeddings(batch.map((textHash, index) => ({ textHash, model, embedding: embeddings[index], createdAt })));
+    batch.forEach((hash, index) => found.set(hash, embeddings[index]));
+  }
+
+  return {
+    embeddings: hashes.map(hash => found.get(hash)!),
+    stats: { cached, generated: missing.length }
+  };
+};
+
+/**
+ * Embed profiles through the cache
+ * Sets embedding, embeddingModel and embeddingTextHash on each profile; the caller persists them.
+ *
+ * @param profiles - Profiles to embed
+ * @returns How many embeddings came from the cache and how many were generated
+ */
+export const embedProfiles = async (profiles: Profile[]): Promise<EmbeddingStats> => {
+  if (profiles.length === 0) {
+    return { cached: 0, generated: 0 };
+  }
+
+  const provider = getEmbeddingProvider();
+  const modelId = getEmbeddingModelId(provider);
+  const texts = profiles.map(profile => generateProfileText(profile));
+  const { embeddings, stats } = await embedTextsCached(texts, provider);
+
+  profiles.forEach((profile, index) => {
+    profile.embedding = embeddings[index];
+    profile.embeddingModel = modelId;
+    profile.embeddingTextHash = hashEmbeddingText(texts[index]);
+  });
+
+  return stats;
+};
+
+/**
+ * Embed a mission (or any query text) through the cache
+ *
+ * @param text - Text to embed
+ * @returns Embedding vector
+ */
+export const embedQueryText = async (text: string): Promise<number[]> => {
+  const { embeddings } = await embedTextsCached([text], getEmbeddingProvider());
+  return embeddings[0];
+};
+
+/**
+ * Count a user's profiles by embedding state
+ *
+ * @param userId - Owner of the profiles
+ * @returns Totals and the model embeddings are checked against
+ */
+export const getEmbeddingStatus = async (userId: string): Promise<{ model: string; total: number; current: number; stale: number }> => {
+  const modelId = getEmbeddingModelId();
+  const profiles = await getProfilesWithoutEmbeddings(userId);
+  const current = profiles.filter(profile => isEmbeddingCurrent(profile, modelId)).length;
+  return { model: modelId, total: profiles.length, current, stale: profiles.length - current };
+};
+
+/**
+ * Re-embed a user's missing or stale embeddings, up to a limit per call
+ *
+ * @param userId - Owner of the profiles
+ * @param limit - Maximum number of profiles to re-embed
+ * @returns Profiles re-embedded, where their embeddings came from, and how many are still stale
+ */
+export const reembedStaleProfiles = async (
+  userId: string,
+  limit: number
+): Promise<EmbeddingStats & { processed: number; remaining: number }> => {
+  const modelId = getEmbeddingModelId();
+  const stale = (await getProfilesWithoutEmbeddings(userId)).filter(profile => !isEmbeddingCurrent(profile, modelId));
+  const batch = stale.slice(0, limit);
+
+  const stats = await embedProfiles(batch);
+  await saveProfileEmbeddings(batch, userId);
+
+  console.log(`Re-embedded ${batch.length} profiles for user ${userId} (${stats.cached} cached, ${stats.generated} generated)`);
+
+  return { ...stats, processed: batch.length, remaining: stale.length - batch.length };
+};
@@ -0,0 +1,254 @@
+import { after } from 'next/server';
+import { EmbeddingJob, EmbeddingJobStatus } from './mongodb';
+import {
+  Profile,
+  getProfilesBySessionWithoutEmbeddings,
+  saveProfileEmbeddings,
+  createEmbeddingJob,
+  getLatestEmbeddingJob,
+  getDueEmbeddingJobs,
+  claimEmbeddingJob,
+  updateEmbeddingJob,
+  releaseEmbeddingJob
+} from './utils';
+import { embedProfiles, getEmbeddingModelId, isEmbeddingCurrent } from './embedding-cache';
+import { refreshProfileIndex } from './profile-index';
+
+/**
+ * Background embedding jobs
+ *
+ * Uploads enqueue one job per upload session instead of embedding inside the
+ * request. A job is run in slices: each run leases the job, embeds stale
+ * profiles batch by batch until its time budget is used up, then releases the
+ * lease so the next run (after the upload response, on a progress poll, or
+ * from the cron route) continues where it stopped. Progress is saved after
+ * every batch, so a run that dies only loses the batch in flight.
+ *
+ * A failed batch puts the job back in the queue with exponential backoff; after
+ * MAX_ATTEMPTS consecutive failures the job is marked failed. Searches never
+ * wait for a job: they use whatever is already embedded.
+ */
+
+// Profiles embedded and saved per step
+const JOB_BATCH_SIZE = 100;
+// Time one run may spend before handing the job to the next run (below the 300s function limit)
+export const EMBEDDING_JOB_BUDGET_MS = 200_000;
+// Lease outlives the budget so a slow final batch is not picked up twice
+const JOB_LEASE_MS = EMBEDDING_JOB_BUDGET_MS + 90_000;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 10 * 60_000;
+
+export interface EmbeddingJobProgress {
+  jobId: string;
+  sessionId: string;
+  status: EmbeddingJobStatus;
+  total: number;
+  embedded: number;
+  percent: number;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Delay before retrying a job after its nth consecutive failure
+ *
+ * @param attempts - Consecutive failed runs, starting at 1
+ * @returns Milliseconds: 10s, 20s, 40s, ... capped at 10 minutes
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Check whether a job is still waiting to run or running
+ */
+export const isEmbeddingJobActive = (job: EmbeddingJob): boolean =>
+  job.status === 'queued' || job.status === 'running';
+
+/**
+ * Progress of a job as returned by the API
+ *
+ * @param job - Stored job
+ * @returns Counts, status and retry information
+ */
+export const toEmbeddingJobProgress = (job: EmbeddingJob): EmbeddingJobProgress => ({
+  jobId: job.jobId,
+  sessionId: job.sessionId,
+  status: job.status,
+  total: job.total,
+  embedded: job.embedded,
+  percent: job.total > 0 ? Math.round((job.embedded / job.total) * 100) : 100,
+  attempts: job.attempts,
+  nextAttemptAt: job.nextAttemptAt,
+  lastError: job.lastError,
+  updatedAt: job.updatedAt,
+  completedAt: job.completedAt
+});
+
+// Split a session's profiles into current and stale for the configured model
+const partitionSession = async (sessionId: string, userId: string): Promise<{ total: number; stale: Profile[] }> => {
+  const modelId = getEmbeddingModelId();
+  const profiles = await getProfilesBySessionWithoutEmbeddings(sessionId, userId);
+  return { total: profiles.length, stale: profiles.filter(profile => !isEmbeddingCurrent(profile, modelId)) };
+};
+
+/**
+ * Enqueue embedding of an upload session's profiles
+ * Returns the session's active job instead if one is already queued or running.
+ * A session with nothing to embed gets a job that is completed right away.
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Upload session to embed
+ * @returns The active or newly created job
+ */
+export const enqueueEmbeddingJob = async (userId: string, sessionId: string): Promise<EmbeddingJob> => {
+  const latest = await getLatestEmbeddingJob(sessionId, userId);
+  if (latest && isEmbeddingJobActive(latest)) {
+    return latest;
+  }
+
+  const { total, stale } = await partitionSession(sessionId, userId);
+  const now = new Date();
+  const job: EmbeddingJob = {
+    jobId: `embed-${userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    sessionId,
+    status: stale.length === 0 ? 'completed' : 'queued',
+    total,
+    embedded: total - stale.length,
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...(stale.length === 0 ? { completedAt: now } : {})
+  };
+
+  await createEmbeddingJob(job);
+  console.log(`Enqueued embedding job ${job.jobId}: ${stale.length}/${total} profiles to embed`);
+  return job;
+};
+
+/**
+ * Enqueue a session's embedding job and start running it once the current
+ * response has been sent (request handlers only)
+ *
+ * @param userId - Owner of the session
+ * @param sessionId - Upload session to embed
+ * @returns The active or newly created job
+ */
+export const startEmbeddingJob = async (userId: string, sessionId: string): Promise<EmbeddingJob> => {
+  const job = await enqueueEmbeddingJob(userId, sessionId);
+  if (isEmbeddingJobActive(job)) {
+    after(() => runEmbeddingJob(job.jobId, userId));
+  }
+  return job;
+};
+
+/**
+ * Start embedding jobs for every session some of the given profiles belong to
+ * (request handlers only)
+ *
+ * @param userId - Owner of the profiles
+ * @param profiles - Profiles waiting for embeddings, from any of the user's sessions
+ * @returns Progress of the job with the most profiles, or undefined if none was started
+ */
+export const startEmbeddingJobsForProfiles = async (userId: string, profiles: Profile[]): Promise<EmbeddingJobProgress | undefined> => {
+  const counts = new Map<string, number>();
+  profiles.forEach(({ uploadSessionId }) => {
+    if (uploadSessionId) counts.set(uploadSessionId, (counts.get(uploadSessionId) || 0) + 1);
+  });
+
+  const sessionIds = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+  const jobs = await Promise.all(sessionIds.map(sessionId => startEmbeddingJob(userId, sessionId)));
+  return jobs.length > 0 ? toEmbeddingJobProgress(jobs[0]) : undefined;
+};
+
+/**
+ * Run a job for up to a time budget, if it is due and no other worker holds it
+ *
+ * @param jobId - Job to run
+ * @param userId - Owner of the job
+ * @param budgetMs - Time to spend before releasing the job for the next run
+ * @returns The job after this run, or null if it could not be claimed
+ */
+export const runEmbeddingJob = async (
+  jobId: string,
+  userId: string,
+  budgetMs: number = EMBEDDING_JOB_BUDGET_MS
+): Promise<EmbeddingJob | null> => {
+  const claimed = await claimEmbeddingJob(jobId, userId, JOB_LEASE_MS);
+  if (!claimed) {
+    return null;
+  }
+
+  const deadline = Date.now() + budgetMs;
+  let progress: Partial<EmbeddingJob> = {};
+  let failures = claimed.attempts;
+
+  try {
+    const { total, stale } = await partitionSession(claimed.sessionId, userId);
+    let embedded = total - stale.length;
+    progress = { total, embedded };
+
+    for (let i = 0; i < stale.length && Date.now() < deadline; i += JOB_BATCH_SIZE) {
+      const batch = stale.slice(i, i + JOB_BATCH_SIZE);
+      const stats = await embedProfiles(batch);
+      await saveProfileEmbeddings(batch, userId);
+      embedded += batch.length;
+      failures = 0;
+      progress = { total, embedded, attempts: 0, lastError: undefined };
+      await updateEmbeddingJob(jobId, userId, progress);
+      console.log(`Embedding job ${jobId}: ${embedded}/${total} (${stats.cached} cached, ${stats.generated} generated)`);
+    }
+
+    const done = embedded >= total;
+    const update: Partial<EmbeddingJob> = done
+      ? { ...progress, status: 'completed', completedAt: new Date() }
+      : { ...progress, status: 'queued', nextAttemptAt: new Date() }; // Budget used up; the next run continues
+    await releaseEmbeddingJob(jobId, userId, update);
+
+    // Index the new embeddings now rather than in the next search
+    if (done) {
+      await refreshProfileIndex(userId).catch(error => console.error(`Failed to index embeddings for user ${userId}:`, error));
+    }
+    return { ...claimed, ...update, lockedUntil: undefined };
+  } catch (error) {
+    const attempts = failures + 1;
+    const lastError = error instanceof Error ? error.message : 'Unknown error';
+    const update: Partial<EmbeddingJob> = attempts >= MAX_ATTEMPTS
+      ? { ...progress, status: 'failed', attempts, lastError }
+      : { ...progress, status: 'queued', attempts, lastError, nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)) };
+    console.error(`Embedding job ${jobId} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+    await releaseEmbeddingJob(jobId, userId, update);
+    return { ...claimed, ...update, lockedUntil: undefined };
+  }
+};
+
+/**
+ * Run due jobs of all users one after another, within a shared time budget
+ * Called by the cron route so queued jobs and retries progress without a client.
+ *
+ * @param limit - Maximum number of jobs to look at
+ * @param budgetMs - Total time to spend
+ * @returns IDs of the jobs that were run
+ */
+export const runDueEmbeddingJobs = async (
+  limit: number,
+  budgetMs: number = EMBEDDING_JOB_BUDGET_MS
+): Promise<string[]> => {
+  const deadline = Date.now() + budgetMs;
+  const ran: string[] = [];
+
+  for (const job of await getDueEmbeddingJobs(limit)) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    if (await runEmbeddingJob(job.jobId, job.userId, remaining)) {
+      ran.push(job.jobId);
+    }
+  }
+
+  return ran;
+};
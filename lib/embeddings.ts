@@ -0,0 +1,166 @@
+import OpenAI from 'openai';
+
+/**
+ * Embedding providers
+ *
+ * Routes embed text through an EmbeddingProvider instead of calling OpenAI
+ * directly, so the model can be swapped by configuration.
+ *
+ * Provider selection (EMBEDDING_PROVIDER):
+ * - `azure`: Azure OpenAI deployment AZURE_OPENAI_EMBEDDINGS (default when Azure OpenAI is configured)
+ * - `openai`: OpenAI API with OPENAI_API_KEY (default when only OPENAI_API_KEY is set)
+ * - `local`: deterministic hashing embedder that runs offline on the CPU (default otherwise)
+ *
+ * EMBEDDING_MODEL overrides the model name and EMBEDDING_DIMENSIONS requests
+ * shortened vectors from models that support it (text-embedding-3-*).
+ */
+
+export type EmbeddingProviderName = 'azure' | 'openai' | 'local';
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  dimensions?: number; // Undefined when the model's native size is used
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_AZURE_MODEL = 'text-embedding-3-large';
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-large';
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Embedding provider configured for this process
+ */
+export const getEmbeddingProviderName = (): EmbeddingProviderName => {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'azure' || configured === 'openai' || configured === 'local') {
+    return configured;
+  }
+  if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
+    return 'azure';
+  }
+  return process.env.OPENAI_API_KEY ? 'openai' : 'local';
+};
+
+// Requested vector size, if configured
+const getConfiguredDimensions = (): number | undefined => {
+  const dimensions = Number(process.env.EMBEDDING_DIMENSIONS);
+  return Number.isInteger(dimensions) && dimensions > 0 ? dimensions : undefined;
+};
+
+const createOpenAIProvider = (name: 'azure' | 'openai', client: OpenAI, model: string): EmbeddingProvider => {
+  const dimensions = getConfiguredDimensions();
+  return {
+    name,
+    model,
+    dimensions,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+      const response = await client.embeddings.create({
+        model,
+        input: texts,
+        ...(dimensions ? { dimensions } : {})
+      });
+      // Results are not guaranteed to come back in input order
+      return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+  };
+};
+
+// 32-bit FNV-1a hash
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Words and adjacent word pairs, so "product manager" differs from "manager of product"
+const tokenize = (text: string): string[] => {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 1);
+  const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  return [...words, ...bigrams];
+};
+
+/**
+ * Embed text by feature hashing
+ * Each token adds ±1 to a bucket chosen by its hash; counts are log-scaled and
+ * the vector is L2-normalized, so cosine similarity measures weighted token overlap.
+ * Deterministic and offline, but only lexical: synonyms don't match.
+ *
+ * @param text - Text to embed
+ * @param dimensions - Vector size
+ * @returns Normalized vector
+ */
+export const hashEmbedding = (text: string, dimensions: number): number[] => {
+  const counts = new Map<number, number>();
+  for (const token of tokenize(text)) {
+    const hash = hashToken(token);
+    const bucket = hash % dimensions;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    counts.set(bucket, (counts.get(bucket) || 0) + sign);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, bucket) => {
+    vector[bucket] = Math.sign(count) * Math.log1p(Math.abs(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+const createLocalProvider = (): EmbeddingProvider => {
+  const dimensions = getConfiguredDimensions() || DEFAULT_LOCAL_DIMENSIONS;
+  return {
+    name: 'local',
+    model: `hashing-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(text => hashEmbedding(text, dimensions))
+  };
+};
+
+/**
+ * Get the embedding provider for the configured backend (created once per process)
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!provider) {
+    const name = getEmbeddingProviderName();
+    if (name === 'azure') {
+      if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+        throw new Error('Azure OpenAI configuration missing');
+      }
+      const client = new OpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/v1`,
+      });
+      provider = createOpenAIProvider('azure', client, process.env.EMBEDDING_MODEL || process.env.AZURE_OPENAI_EMBEDDINGS || DEFAULT_AZURE_MODEL);
+    } else if (name === 'openai') {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI configuration missing');
+      }
+      const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      provider = createOpenAIProvider('openai', client, process.env.EMBEDDING_MODEL || DEFAULT_OPENAI_MODEL);
+    } else {
+      provider = createLocalProvider();
+    }
+    console.log(`Using ${provider.name} embeddings (${provider.model})`);
+  }
+  return provider;
+};
+
+/**
+ * Replace the embedding provider, e.g. with the local one in tests
+ */
+export const setEmbeddingProvider = (replacement: EmbeddingProvider | null): void => {
+  provider = replacement;
+};
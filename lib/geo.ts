@@ -0,0 +1,188 @@
+/**
+ * Location lookup for radius filters
+ *
+ * Free-text locations ("Greater Boston", "San Francisco Bay Area", "München,
+ * Bayern, Deutschland") are resolved against a built-in list of major metro
+ * areas, so contacts can be filtered by distance without calling a geocoding
+ * service. Locations naming no listed place can't be placed on the map; radius
+ * filters fall back to matching their text.
+ */
+
+export interface Place {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Metro areas with the names LinkedIn and contacts commonly use for them (lowercase, no accents)
+const PLACES: (Place & { aliases: string[] })[] = [
+  // North America
+  { name: 'New York', latitude: 40.7128, longitude: -74.006, aliases: ['new york', 'nyc', 'manhattan', 'brooklyn', 'queens', 'bronx'] },
+  { name: 'Jersey City', latitude: 40.7178, longitude: -74.0431, aliases: ['jersey city', 'hoboken', 'newark'] },
+  { name: 'San Francisco', latitude: 37.7749, longitude: -122.4194, aliases: ['san francisco', 'sf bay area', 'bay area', 'sf'] },
+  { name: 'Oakland', latitude: 37.8044, longitude: -122.2712, aliases: ['oakland', 'berkeley'] },
+  { name: 'San Jose', latitude: 37.3382, longitude: -121.8863, aliases: ['san jose', 'silicon valley', 'sunnyvale', 'cupertino', 'santa clara'] },
+  { name: 'Palo Alto', latitude: 37.4419, longitude: -122.143, aliases: ['palo alto', 'mountain view', 'menlo park', 'stanford', 'redwood city'] },
+  { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437, aliases: ['los angeles', 'santa monica', 'pasadena', 'hollywood'] },
+  { name: 'San Diego', latitude: 32.7157, longitude: -117.1611, aliases: ['san diego'] },
+  { name: 'Seattle', latitude: 47.6062, longitude: -122.3321, aliases: ['seattle', 'bellevue', 'redmond'] },
+  { name: 'Portland', latitude: 45.5152, longitude: -122.6784, aliases: ['portland'] },
+  { name: 'Boston', latitude: 42.3601, longitude: -71.0589, aliases: ['boston', 'cambridge ma', 'cambridge massachusetts'] },
+  { name: 'Washington', latitude: 38.9072, longitude: -77.0369, aliases: ['washington dc', 'washington d c', 'dc metro', 'arlington va', 'arlington virginia'] },
+  { name: 'Philadelphia', latitude: 39.9526, longitude: -75.1652, aliases: ['philadelphia'] },
+  { name: 'Baltimore', latitude: 39.2904, longitude: -76.6122, aliases: ['baltimore'] },
+  { name: 'Chicago', latitude: 41.8781, longitude: -87.6298, aliases: ['chicago'] },
+  { name: 'Detroit', latitude: 42.3314, longitude: -83.0458, aliases: ['detroit', 'ann arbor'] },
+  { name: 'Minneapolis', latitude: 44.9778, longitude: -93.265, aliases: ['minneapolis', 'st paul', 'saint paul', 'twin cities'] },
+  { name: 'Denver', latitude: 39.7392, longitude: -104.9903, aliases: ['denver', 'boulder'] },
+  { name: 'Salt Lake City', latitude: 40.7608, longitude: -111.891, aliases: ['salt lake city', 'salt lake', 'provo'] },
+  { name: 'Phoenix', latitude: 33.4484, longitude: -112.074, aliases: ['phoenix', 'scottsdale', 'tempe'] },
+  { name: 'Las Vegas', latitude: 36.1699, longitude: -115.1398, aliases: ['las vegas'] },
+  { name: 'Austin', latitude: 30.2672, longitude: -97.7431, aliases: ['austin'] },
+  { name: 'Dallas', latitude: 32.7767, longitude: -96.797, aliases: ['dallas', 'fort worth', 'dfw', 'plano'] },
+  { name: 'Houston', latitude: 29.7604, longitude: -95.3698, aliases: ['houston'] },
+  { name: 'San Antonio', latitude: 29.4241, longitude: -98.4936, aliases: ['san antonio'] },
+  { name: 'Atlanta', latitude: 33.749, longitude: -84.388, aliases: ['atlanta'] },
+  { name: 'Miami', latitude: 25.7617, longitude: -80.1918, aliases: ['miami', 'fort lauderdale'] },
+  { name: 'Tampa', latitude: 27.9506, longitude: -82.4572, aliases: ['tampa', 'st petersburg'] },
+  { name: 'Orlando', latitude: 28.5383, longitude: -81.3792, aliases: ['orlando'] },
+  { name: 'Charlotte', latitude: 35.2271, longitude: -80.8431, aliases: ['charlotte'] },
+  { name: 'Raleigh', latitude: 35.7796, longitude: -78.6382, aliases: ['raleigh', 'durham', 'research triangle'] },
+  { name: 'Nashville', latitude: 36.1627, longitude: -86.7816, aliases: ['nashville'] },
+  { name: 'Pittsburgh', latitude: 40.4406, longitude: -79.9959, aliases: ['pittsburgh'] },
+  { name: 'Columbus', latitude: 39.9612, longitude: -82.9988, aliases: ['columbus'] },
+  { name: 'St. Louis', latitude: 38.627, longitude: -90.1994, aliases: ['st louis', 'saint louis'] },
+  { name: 'Toronto', latitude: 43.6532, longitude: -79.3832, aliases: ['toronto', 'gta', 'mississauga'] },
+  { name: 'Montreal', latitude: 45.5017, longitude: -73.5673, aliases: ['montreal'] },
+  { name: 'Vancouver', latitude: 49.2827, longitude: -123.1207, aliases: ['vancouver'] },
+  { name: 'Calgary', latitude: 51.0447, longitude: -114.0719, aliases: ['calgary'] },
+  { name: 'Ottawa', latitude: 45.4215, longitude: -75.6972, aliases: ['ottawa'] },
+  { name: 'Mexico City', latitude: 19.4326, longitude: -99.1332, aliases: ['mexico city', 'ciudad de mexico', 'cdmx'] },
+  // South America
+  { name: 'Sao Paulo', latitude: -23.5505, longitude: -46.6333, aliases: ['sao paulo'] },
+  { name: 'Rio de Janeiro', latitude: -22.9068, longitude: -43.1729, aliases: ['rio de janeiro'] },
+  { name: 'Buenos Aires', latitude: -34.6037, longitude: -58.3816, aliases: ['buenos aires'] },
+  { name: 'Santiago', latitude: -33.4489, longitude: -70.6693, aliases: ['santiago'] },
+  { name: 'Bogota', latitude: 4.711, longitude: -74.0721, aliases: ['bogota'] },
+  { name: 'Lima', latitude: -12.0464, longitude: -77.0428, aliases: ['lima'] },
+  // Europe
+  { name: 'London', latitude: 51.5074, longitude: -0.1278, aliases: ['london'] },
+  { name: 'Manchester', latitude: 53.4808, longitude: -2.2426, aliases: ['manchester'] },
+  { name: 'Edinburgh', latitude: 55.9533, longitude: -3.1883, aliases: ['edinburgh'] },
+  { name: 'Dublin', latitude: 53.3498, longitude: -6.2603, aliases: ['dublin'] },
+  { name: 'Paris', latitude: 48.8566, longitude: 2.3522, aliases: ['paris', 'ile de france'] },
+  { name: 'Lyon', latitude: 45.764, longitude: 4.8357, aliases: ['lyon'] },
+  { name: 'Brussels', latitude: 50.8503, longitude: 4.3517, aliases: ['brussels', 'bruxelles', 'brussel'] },
+  { name: 'Amsterdam', latitude: 52.3676, longitude: 4.9041, aliases: ['amsterdam'] },
+  { name: 'Rotterdam', latitude: 51.9244, longitude: 4.4777, aliases: ['rotterdam', 'the hague', 'den haag'] },
+  { name: 'Luxembourg', latitude: 49.6116, longitude: 6.1319, aliases: ['luxembourg'] },
+  { name: 'Berlin', latitude: 52.52, longitude: 13.405, aliases: ['berlin'] },
+  { name: 'Hamburg', latitude: 53.5511, longitude: 9.9937, aliases: ['hamburg'] },
+  { name: 'Munich', latitude: 48.1351, longitude: 11.582, aliases: ['munich', 'munchen', 'muenchen'] },
+  { name: 'Frankfurt', latitude: 50.1109, longitude: 8.6821, aliases: ['frankfurt'] },
+  { name: 'Cologne', latitude: 50.9375, longitude: 6.9603, aliases: ['cologne', 'koln', 'koeln', 'dusseldorf', 'duesseldorf'] },
+  { name: 'Zurich', latitude: 47.3769, longitude: 8.5417, aliases: ['zurich'] },
+  { name: 'Geneva', latitude: 46.2044, longitude: 6.1432, aliases: ['geneva', 'geneve', 'lausanne'] },
+  { name: 'Vienna', latitude: 48.2082, longitude: 16.3738, aliases: ['vienna', 'wien'] },
+  { name: 'Milan', latitude: 45.4642, longitude: 9.19, aliases: ['milan', 'milano'] },
+  { name: 'Rome', latitude: 41.9028, longitude: 12.4964, aliases: ['rome', 'roma'] },
+  { name: 'Madrid', latitude: 40.4168, longitude: -3.7038, aliases: ['madrid'] },
+  { name: 'Barcelona', latitude: 41.3874, longitude: 2.1686, aliases: ['barcelona'] },
+  { name: 'Lisbon', latitude: 38.7223, longitude: -9.1393, aliases: ['lisbon', 'lisboa'] },
+  { name: 'Copenhagen', latitude: 55.6761, longitude: 12.5683, aliases: ['copenhagen', 'kobenhavn'] },
+  { name: 'Stockholm', latitude: 59.3293, longitude: 18.0686, aliases: ['stockholm'] },
+  { name: 'Oslo', latitude: 59.9139, longitude: 10.7522, aliases: ['oslo'] },
+  { name: 'Helsinki', latitude: 60.1699, longitude: 24.9384, aliases: ['helsinki'] },
+  { name: 'Warsaw', latitude: 52.2297, longitude: 21.0122, aliases: ['warsaw', 'warszawa'] },
+  { name: 'Prague', latitude: 50.0755, longitude: 14.4378, aliases: ['prague', 'praha'] },
+  { name: 'Budapest', latitude: 47.4979, longitude: 19.0402, aliases: ['budapest'] },
+  { name: 'Athens', latitude: 37.9838, longitude: 23.7275, aliases: ['athens'] },
+  { name: 'Istanbul', latitude: 41.0082, longitude: 28.9784, aliases: ['istanbul'] },
+  // Middle East & Africa
+  { name: 'Tel Aviv', latitude: 32.0853, longitude: 34.7818, aliases: ['tel aviv'] },
+  { name: 'Dubai', latitude: 25.2048, longitude: 55.2708, aliases: ['dubai'] },
+  { name: 'Abu Dhabi', latitude: 24.4539, longitude: 54.3773, aliases: ['abu dhabi'] },
+  { name: 'Riyadh', latitude: 24.7136, longitude: 46.6753, aliases: ['riyadh'] },
+  { name: 'Cairo', latitude: 30.0444, longitude: 31.2357, aliases: ['cairo'] },
+  { name: 'Lagos', latitude: 6.5244, longitude: 3.3792, aliases: ['lagos'] },
+  { name: 'Nairobi', latitude: -1.2921, longitude: 36.8219, aliases: ['nairobi'] },
+  { name: 'Johannesburg', latitude: -26.2041, longitude: 28.0473, aliases: ['johannesburg', 'pretoria'] },
+  { name: 'Cape Town', latitude: -33.9249, longitude: 18.4241, aliases: ['cape town'] },
+  // Asia Pacific
+  { name: 'Mumbai', latitude: 19.076, longitude: 72.8777, aliases: ['mumbai', 'bombay', 'pune'] },
+  { name: 'Delhi', latitude: 28.7041, longitude: 77.1025, aliases: ['delhi', 'new delhi', 'gurgaon', 'gurugram', 'noida'] },
+  { name: 'Bangalore', latitude: 12.9716, longitude: 77.5946, aliases: ['bangalore', 'bengaluru'] },
+  { name: 'Hyderabad', latitude: 17.385, longitude: 78.4867, aliases: ['hyderabad'] },
+  { name: 'Chennai', latitude: 13.0827, longitude: 80.2707, aliases: ['chennai'] },
+  { name: 'Singapore', latitude: 1.3521, longitude: 103.8198, aliases: ['singapore'] },
+  { name: 'Kuala Lumpur', latitude: 3.139, longitude: 101.6869, aliases: ['kuala lumpur'] },
+  { name: 'Jakarta', latitude: -6.2088, longitude: 106.8456, aliases: ['jakarta'] },
+  { name: 'Bangkok', latitude: 13.7563, longitude: 100.5018, aliases: ['bangkok'] },
+  { name: 'Ho Chi Minh City', latitude: 10.8231, longitude: 106.6297, aliases: ['ho chi minh', 'saigon'] },
+  { name: 'Manila', latitude: 14.5995, longitude: 120.9842, aliases: ['manila', 'makati'] },
+  { name: 'Hong Kong', latitude: 22.3193, longitude: 114.1694, aliases: ['hong kong'] },
+  { name: 'Shanghai', latitude: 31.2304, longitude: 121.4737, aliases: ['shanghai'] },
+  { name: 'Beijing', latitude: 39.9042, longitude: 116.4074, aliases: ['beijing'] },
+  { name: 'Shenzhen', latitude: 22.5431, longitude: 114.0579, aliases: ['shenzhen'] },
+  { name: 'Taipei', latitude: 25.033, longitude: 121.5654, aliases: ['taipei'] },
+  { name: 'Seoul', latitude: 37.5665, longitude: 126.978, aliases: ['seoul'] },
+  { name: 'Tokyo', latitude: 35.6762, longitude: 139.6503, aliases: ['tokyo'] },
+  { name: 'Osaka', latitude: 34.6937, longitude: 135.5023, aliases: ['osaka'] },
+  { name: 'Sydney', latitude: -33.8688, longitude: 151.2093, aliases: ['sydney'] },
+  { name: 'Melbourne', latitude: -37.8136, longitude: 144.9631, aliases: ['melbourne'] },
+  { name: 'Brisbane', latitude: -27.4698, longitude: 153.0251, aliases: ['brisbane'] },
+  { name: 'Auckland', latitude: -36.8485, longitude: 174.7633, aliases: ['auckland'] }
+];
+
+const EARTH_RADIUS_KM = 6371;
+
+// Lowercase words without accents or punctuation, padded so aliases match whole words
+const normalizeLocation = (location: string): string =>
+  ` ${location.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+/**
+ * Resolve a free-text location to a known metro area
+ * The longest alias found wins, so "New York" isn't read as "York".
+ *
+ * @param location - Location as entered or imported
+ * @returns The place, or null if the text names none of the known places
+ */
+export const findPlace = (location: string): Place | null => {
+  const normalized = normalizeLocation(location);
+  let best: Place | null = null;
+  let bestLength = 0;
+  PLACES.forEach(({ aliases, ...place }) => {
+    aliases.forEach(alias => {
+      if (alias.length > bestLength && normalized.includes(` ${alias} `)) {
+        best = place;
+        bestLength = alias.length;
+      }
+    });
+  });
+  return best;
+};
+
+/**
+ * Great-circle distance between two places
+ *
+ * @returns Distance in kilometers
+ */
+export const distanceKm = (a: Place, b: Place): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Check whether a location contains the searched text, ignoring case, accents and punctuation
+ *
+ * @param location - Contact location
+ * @param query - Searched location
+ */
+export const locationContains = (location: string, query: string): boolean => {
+  const normalizedQuery = normalizeLocation(query).trim();
+  return normalizedQuery.length > 0 && normalizeLocation(location).includes(` ${normalizedQuery} `);
+};
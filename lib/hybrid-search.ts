@@ -0,0 +1,285 @@
+import { Profile, MatchResult, RecencyOptions, calculateRecencyBoost, cosineSimilarity, getProfilesByIds, toMatchResult } from './utils';
+import { getIdentityKey } from './identity';
+import { getEmbeddingModelId, isEmbeddingCurrent } from './embedding-cache';
+import { findScopeMatches } from './profile-index';
+import { SearchScope } from './search-scope';
+
+/**
+ * Hybrid lexical + semantic ranking
+ *
+ * Profiles are ranked twice: lexically with BM25 over their fields (titles and
+ * companies weigh more than summaries), and semantically by cosine similarity of
+ * embeddings. The two rankings are fused by one of:
+ * - `rrf`: reciprocal rank fusion, sum of weight / (60 + rank) over both lists;
+ *   robust to the different score scales (default)
+ * - `blend`: weighted mean of cosine similarity and BM25 normalized to the best hit
+ *
+ * Weights default to SEARCH_SEMANTIC_WEIGHT and SEARCH_LEXICAL_WEIGHT (1 each)
+ * and the method to SEARCH_FUSION_METHOD; requests can override all three.
+ * Profiles without current embeddings still rank lexically. Only the candidates'
+ * embedding vectors are loaded, not the whole scope's.
+ */
+
+export type FusionMethod = 'rrf' | 'blend';
+
+export interface HybridRankingOptions {
+  method: FusionMethod;
+  semanticWeight: number;
+  lexicalWeight: number;
+}
+
+/**
+ * Hybrid match: similarity is the cosine similarity (0 if the profile isn't embedded yet)
+ */
+export interface HybridMatchResult extends MatchResult {
+  score: number; // Fused score used for ranking (0-1), plus any recency boost
+  lexicalScore: number; // BM25 relative to the best lexical hit (0-1)
+  fusedScore: number; // Semantic and lexical fusion alone, before boosts (0-1)
+  recencyBoost: number;
+  customBoost: number; // From the boost option
+}
+
+export interface HybridSearchOptions {
+  topN?: number;
+  minSimilarity?: number; // Embedded profiles need this cosine similarity; others need a lexical hit
+  recency?: RecencyOptions;
+  ranking?: Partial<HybridRankingOptions>;
+  boost?: (profile: Profile) => number; // Added to the fused score, e.g. for taxonomy matches
+}
+
+// Rank constant of reciprocal rank fusion; dampens the gap between top ranks
+const RRF_K = 60;
+// Candidates taken from each ranking before fusion
+const MIN_CANDIDATE_POOL = 200;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Relative weight of a term occurring in each field
+const FIELD_WEIGHTS: [keyof Profile, number][] = [
+  ['title', 3],
+  ['company', 2],
+  ['industry', 2],
+  ['skills', 1.5],
+  ['location', 1],
+  ['summary', 1],
+  ['experience', 0.5],
+  ['education', 0.5]
+];
+
+// Function words and search phrasing that carry no meaning about the people searched for
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'us', 'was', 'we',
+  'who', 'will', 'with', 'my', 'me', 'i', 'you', 'your', 'can', 'could', 'would', 'should', 'about',
+  'looking', 'find', 'finding', 'want', 'need', 'needs', 'seeking', 'searching', 'search', 'help',
+  'people', 'person', 'someone', 'contacts', 'connections', 'professionals'
+]);
+
+/**
+ * Ranking options configured for this process
+ */
+export const getDefaultRankingOptions = (): HybridRankingOptions => {
+  const weight = (value: string | undefined): number => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : 1;
+  };
+  return {
+    method: process.env.SEARCH_FUSION_METHOD === 'blend' ? 'blend' : 'rrf',
+    semanticWeight: weight(process.env.SEARCH_SEMANTIC_WEIGHT),
+    lexicalWeight: weight(process.env.SEARCH_LEXICAL_WEIGHT)
+  };
+};
+
+// Strip common English plural endings so "engineers" matches "engineer"
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Split text into normalized search terms
+ *
+ * @param text - Text to tokenize
+ * @returns Lowercased, accent-free, singular terms without stop words
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9+#]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+
+interface Bm25Document {
+  profile: Profile;
+  termWeights: Map<string, number>; // Field-weighted term frequency
+  length: number; // Field-weighted term count
+}
+
+export interface Bm25Index {
+  documents: Bm25Document[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Index profiles for BM25 scoring
+ * Term frequencies are summed over fields with FIELD_WEIGHTS (BM25F with one
+ * length normalization), so a title hit counts three times a summary hit.
+ *
+ * @param profiles - Profiles to index
+ * @returns Index for scoreBm25
+ */
+export const createBm25Index = (profiles: Profile[]): Bm25Index => {
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+
+  const documents = profiles.map(profile => {
+    const termWeights = new Map<string, number>();
+    let length = 0;
+    FIELD_WEIGHTS.forEach(([field, weight]) => {
+      const value = profile[field];
+      const text = Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '';
+      tokenizeSearchText(text).forEach(term => {
+        termWeights.set(term, (termWeights.get(term) || 0) + weight);
+        length += weight;
+      });
+    });
+    termWeights.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    totalLength += length;
+    return { profile, termWeights, length };
+  });
+
+  return { documents, documentFrequency, averageLength: documents.length > 0 ? totalLength / documents.length : 0 };
+};
+
+/**
+ * Score indexed profiles against a query with BM25
+ *
+ * @param index - Index from createBm25Index
+ * @param query - Query text, e.g. the mission and its attributes
+ * @returns Score by profile ID, only for profiles matching at least one term
+ */
+export const scoreBm25 = (index: Bm25Index, query: string): Map<string, number> => {
+  const scores = new Map<string, number>();
+  const terms = Array.from(new Set(tokenizeSearchText(query)));
+  const total = index.documents.length;
+
+  terms.forEach(term => {
+    const frequency = index.documentFrequency.get(term);
+    if (!frequency) return;
+    const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+
+    index.documents.forEach(({ profile, termWeights, length }) => {
+      const weight = termWeights.get(term);
+      if (!weight) return;
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (index.averageLength > 0 ? length / index.averageLength : 1));
+      scores.set(profile.id, (scores.get(profile.id) || 0) + idf * (weight * (BM25_K1 + 1)) / (weight + norm));
+    });
+  });
+
+  return scores;
+};
+
+/**
+ * Rank profiles by fused lexical and semantic relevance
+ * Semantic candidates come from findScopeMatches, so searches use Atlas Vector
+ * Search where available and the ANN index otherwise. Request handlers only
+ * (see findTopMatchesIndexed).
+ *
+ * @param userId - Owner of the profiles
+ * @param scope - Sessions the profiles were loaded from, or all of the user's profiles
+ * @param queryText - Text matched lexically, e.g. generateMissionText output
+ * @param queryEmbedding - Embedding of the same text
+ * @param profiles - Profiles of the scope to rank; vectors need not be loaded
+ * @param options - Result count, similarity threshold, recency and custom boosts, and ranking overrides
+ * @returns Top matches, best first
+ */
+export const findHybridMatches = async (
+  userId: string,
+  scope: SearchScope,
+  queryText: string,
+  queryEmbedding: number[],
+  profiles: Profile[],
+  options: HybridSearchOptions = {}
+): Promise<HybridMatchResult[]> => {
+  const { topN = 5, minSimilarity = 0, recency } = options;
+  const defaults = getDefaultRankingOptions();
+  const ranking: HybridRankingOptions = {
+    method: options.ranking?.method ?? defaults.method,
+    semanticWeight: options.ranking?.semanticWeight ?? defaults.semanticWeight,
+    lexicalWeight: options.ranking?.lexicalWeight ?? defaults.lexicalWeight
+  };
+  const poolSize = Math.max(MIN_CANDIDATE_POOL, topN * 20);
+  const modelId = getEmbeddingModelId();
+  const byId = new Map(profiles.map(profile => [profile.id, profile]));
+
+  // Semantic ranking over embedded profiles
+  const embedded = profiles.filter(profile => isEmbeddingCurrent(profile, modelId));
+  const semantic = ranking.semanticWeight > 0 && embedded.length > 0
+    ? await findScopeMatches(userId, scope, queryEmbedding, embedded, poolSize, 0)
+    : [];
+  const semanticRanks = new Map(semantic.map((match, index) => [match.id, index + 1]));
+  const similarities = new Map(semantic.map(match => [match.id, match.similarity]));
+
+  // Lexical ranking over all profiles
+  const lexicalScores = ranking.lexicalWeight > 0 ? scoreBm25(createBm25Index(profiles), queryText) : new Map<string, number>();
+  const lexical = Array.from(lexicalScores.entries()).sort((a, b) => b[1] - a[1]).slice(0, poolSize);
+  const lexicalRanks = new Map(lexical.map(([id], index) => [id, index + 1]));
+  const bestLexical = lexical[0]?.[1] || 0;
+
+  // Embedded lexical candidates outside the semantic pool need their similarity too
+  const embeddedIds = new Set(embedded.map(profile => profile.id));
+  const unscored = lexical.map(([id]) => id).filter(id => embeddedIds.has(id) && !similarities.has(id));
+  if (unscored.length > 0) {
+    (await getProfilesByIds(unscored, userId)).forEach(profile => {
+      if (profile.embedding && profile.embedding.length === queryEmbedding.length && isEmbeddingCurrent(profile, modelId)) {
+        similarities.set(profile.id, cosineSimilarity(queryEmbedding, profile.embedding));
+      }
+    });
+  }
+
+  const totalWeight = ranking.semanticWeight + ranking.lexicalWeight;
+  const candidateIds = new Set([...semanticRanks.keys(), ...lexicalRanks.keys()]);
+  const seenIdentities = new Set<string>();
+
+  const results: HybridMatchResult[] = [];
+  candidateIds.forEach(id => {
+    const profile = byId.get(id)!;
+    const isEmbedded = similarities.has(id);
+    const similarity = similarities.get(id) ?? 0;
+    const lexicalScore = bestLexical > 0 ? (lexicalScores.get(id) || 0) / bestLexical : 0;
+    if (isEmbedded ? similarity < minSimilarity : lexicalScore === 0) return;
+
+    let fusedScore = 0;
+    if (totalWeight > 0) {
+      if (ranking.method === 'blend') {
+        fusedScore = (ranking.semanticWeight * similarity + ranking.lexicalWeight * lexicalScore) / totalWeight;
+      } else {
+        const semanticRank = semanticRanks.get(id);
+        const lexicalRank = lexicalRanks.get(id);
+        // Scaled so a profile ranked first in both lists scores 1
+        fusedScore = ((semanticRank ? ranking.semanticWeight / (RRF_K + semanticRank) : 0) +
+          (lexicalRank ? ranking.lexicalWeight / (RRF_K + lexicalRank) : 0)) * (RRF_K + 1) / totalWeight;
+      }
+    }
+    const recencyBoost = calculateRecencyBoost(profile, recency);
+    const customBoost = options.boost ? options.boost(profile) : 0;
+    const score = fusedScore + recencyBoost + customBoost;
+
+    results.push({ ...toMatchResult(profile, similarity), score, lexicalScore, fusedScore, recencyBoost, customBoost });
+  });
+
+  // Deduplicate on the person's identity, keeping the best-ranked record
+  return results
+    .sort((a, b) => b.score - a.score)
+    .filter(match => {
+      const key = getIdentityKey(byId.get(match.id)!);
+      if (seenIdentities.has(key)) return false;
+      seenIdentities.add(key);
+      return true;
+    })
+    .slice(0, topN);
+};
@@ -0,0 +1,180 @@
+import { ProfileIdentity } from './mongodb';
+
+/**
+ * Contact entity resolution
+ *
+ * Decides whether two contact records describe the same person. Strong
+ * identifiers win over names:
+ * 1. Normalized LinkedIn profile URL
+ * 2. Normalized email address
+ * 3. Fuzzy name + company (honorifics, credentials, accents and legal suffixes
+ *    are ignored), only when no strong identifier contradicts it
+ *
+ * Two "John Smith at Google" records with different profile URLs stay separate,
+ * and one person who changed jobs is still matched by URL or email.
+ */
+
+export type IdentityMatchRule = 'linkedinUrl' | 'email' | 'fuzzy';
+
+// Candidate shape the resolver works on (stored documents or incoming profiles)
+export interface IdentityCandidate {
+  name: string;
+  company?: string;
+  linkedinUrl?: string;
+  email?: string;
+}
+
+const NAME_AFFIXES = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir',
+  'jr', 'sr', 'ii', 'iii', 'iv',
+  'phd', 'mba', 'md', 'cpa', 'cfa', 'pmp', 'esq', 'msc', 'bsc', 'ma', 'ba'
+]);
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'sa', 'sas', 'bv', 'nv', 'plc', 'pty', 'srl', 'oy', 'ab', 'group', 'holdings'
+]);
+
+const stripAccents = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const tokenize = (value: string): string[] =>
+  stripAccents(value).toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Normalize a LinkedIn profile URL so different spellings of the same profile compare equal
+ */
+export const normalizeProfileUrl = (url: string): string => {
+  return url
+    .trim()
+    .toLowerCase()
+    .split(/[?#]/)[0]
+    .replace(/^https?:\/\//, '')
+    .replace(/^[a-z]{2,3}\.linkedin\.com/, 'linkedin.com')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '');
+};
+
+/**
+ * Normalize an email address (case and surrounding whitespace, "mailto:" prefixes)
+ */
+export const normalizeEmail = (email: string): string => {
+  return email.trim().toLowerCase().replace(/^mailto:/, '');
+};
+
+/**
+ * Normalize a person's name, dropping honorifics, credentials and punctuation
+ * ("Dr. José Pérez, PhD" -> "jose perez")
+ */
+export const normalizePersonName = (name: string): string => {
+  // Credentials usually follow a comma ("Jane Doe, CFA")
+  const [primary] = name.split(',');
+  return tokenize(primary).filter(token => !NAME_AFFIXES.has(token)).join(' ');
+};
+
+/**
+ * Normalize a company name, dropping legal suffixes ("Google LLC" -> "google")
+ */
+export const normalizeCompanyName = (company: string): string => {
+  return tokenize(company).filter(token => !COMPANY_SUFFIXES.has(token)).join(' ');
+};
+
+/**
+ * Build the normalized identifiers for a profile
+ */
+export const getProfileIdentity = (profile: IdentityCandidate): ProfileIdentity => ({
+  linkedinUrl: profile.linkedinUrl ? normalizeProfileUrl(profile.linkedinUrl) || undefined : undefined,
+  email: profile.email ? normalizeEmail(profile.email) || undefined : undefined,
+  name: normalizePersonName(profile.name),
+  company: normalizeCompanyName(profile.company || '')
+});
+
+/**
+ * Key identifying the person a profile describes, strongest identifier first
+ * Used to deduplicate ranked results and as the basis of new storage keys
+ */
+export const getIdentityKey = (profile: IdentityCandidate): string => {
+  const identity = getProfileIdentity(profile);
+  if (identity.linkedinUrl) return `url:${identity.linkedinUrl}`;
+  if (identity.email) return `email:${identity.email}`;
+  return `${identity.name}-${identity.company || 'unknown'}`;
+};
+
+/**
+ * Whether two company names plausibly refer to the same employer
+ * Exact after normalization, one contains the other, or most tokens overlap
+ */
+const companiesMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  if (a.includes(b) || b.includes(a)) return true;
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return shared / new Set([...tokensA, ...tokensB]).size >= 0.5;
+};
+
+/**
+ * Decide whether two records describe the same person
+ *
+ * @param incoming - Record being imported
+ * @param existing - Stored record it is compared against
+ * @returns The rule that matched, or null when they are different people
+ */
+export const matchIdentity = (incoming: IdentityCandidate, existing: IdentityCandidate): IdentityMatchRule | null => {
+  const a = getProfileIdentity(incoming);
+  const b = getProfileIdentity(existing);
+
+  if (a.linkedinUrl && b.linkedinUrl) {
+    // Profile URLs are authoritative in both directions
+    return a.linkedinUrl === b.linkedinUrl ? 'linkedinUrl' : null;
+  }
+
+  if (a.email && b.email && a.email === b.email) {
+    return 'email';
+  }
+
+  // Different emails on both sides mean different people for a name-only match
+  if (a.email && b.email) {
+    return null;
+  }
+
+  if (a.name && a.name === b.name && companiesMatch(a.company, b.company)) {
+    return 'fuzzy';
+  }
+
+  return null;
+};
+
+/**
+ * Find the stored record an incoming profile should merge into
+ * Strong matches (URL, email) are taken as-is; a fuzzy match is only used when
+ * it is unambiguous, so two same-named people are never merged by guesswork.
+ *
+ * @param incoming - Record being imported
+ * @param candidates - Stored records that share an identifier or name with it
+ * @param isFuzzyEligible - Excludes candidates from name matching (e.g. records split apart by hand)
+ * @returns The matching candidate and rule, or null to create a new record
+ */
+export const resolveIdentity = <T extends IdentityCandidate>(
+  incoming: IdentityCandidate,
+  candidates: T[],
+  isFuzzyEligible: (candidate: T) => boolean = () => true
+): { match: T; rule: IdentityMatchRule } | null => {
+  const byRule: Record<IdentityMatchRule, T[]> = { linkedinUrl: [], email: [], fuzzy: [] };
+
+  for (const candidate of candidates) {
+    const rule = matchIdentity(incoming, candidate);
+    if (rule === 'fuzzy' && !isFuzzyEligible(candidate)) {
+      continue;
+    }
+    if (rule) {
+      byRule[rule].push(candidate);
+    }
+  }
+
+  if (byRule.linkedinUrl.length > 0) return { match: byRule.linkedinUrl[0], rule: 'linkedinUrl' };
+  if (byRule.email.length > 0) return { match: byRule.email[0], rule: 'email' };
+  if (byRule.fuzzy.length === 1) return { match: byRule.fuzzy[0], rule: 'fuzzy' };
+  return null;
+};
@@ -0,0 +1,118 @@
+import { Profile, generateProfileText, resolveProfiles, countProfilesBySession } from './utils';
+import { ImportChange, ImportDiffSummary } from './mongodb';
+
+/**
+ * Incremental re-import
+ *
+ * Re-uploading a connections export is diffed against what is already stored:
+ * - Profiles are matched to stored records by entity resolution (LinkedIn URL,
+ *   email, then name + company; see identity)
+ * - Title and company changes are recorded for the change summary
+ * - Embeddings are carried over when the embedded profile text is unchanged, so
+ *   only new or changed contacts need to be embedded again
+ * - Contacts left behind in the previous upload session were removed from the network
+ */
+
+const MAX_REPORTED_CHANGES = 100;
+
+/**
+ * Create an empty diff summary for a new import
+ */
+export const createImportDiff = (): ImportDiffSummary => ({
+  added: 0,
+  changed: 0,
+  unchanged: 0,
+  removed: 0,
+  embeddingsCarriedOver: 0,
+  changes: []
+});
+
+/**
+ * Compare an incoming profile with its stored version
+ *
+ * @returns The title/company change, or null when neither changed
+ */
+const describeChange = (previous: Profile, incoming: Profile): ImportChange | null => {
+  const change: ImportChange = { name: incoming.name };
+  const previousTitle = previous.title || '';
+  const previousCompany = previous.company || '';
+
+  if (previousTitle.trim() !== (incoming.title || '').trim()) {
+    change.title = { before: previousTitle, after: incoming.title || '' };
+  }
+  if (previousCompany.trim().toLowerCase() !== (incoming.company || '').trim().toLowerCase()) {
+    change.company = { before: previousCompany, after: incoming.company || '' };
+  }
+
+  return change.title || change.company ? change : null;
+};
+
+/**
+ * Diff a batch of incoming profiles against the user's stored profiles
+ * Mutates the incoming profiles (carried-over embeddings) and the summary.
+ * Must run before the batch is written, since writing replaces stored documents.
+ *
+ * @param profiles - Incoming profiles about to be stored
+ * @param userId - Owner of the profiles
+ * @param summary - Running diff summary for the whole import
+ * @returns The updated summary
+ */
+export const reconcileImportBatch = async (
+  profiles: Profile[],
+  userId: string,
+  summary: ImportDiffSummary
+): Promise<ImportDiffSummary> => {
+  if (profiles.length === 0) {
+    return summary;
+  }
+
+  const resolved = await resolveProfiles(profiles, userId);
+
+  for (const { profile, previous, combined } of resolved) {
+    if (!previous || !combined) {
+      summary.added++;
+      continue;
+    }
+
+    // Compare what will be stored: blank incoming fields keep their stored values
+    const change = describeChange(previous, combined);
+    if (change) {
+      summary.changed++;
+      if (summary.changes.length < MAX_REPORTED_CHANGES) {
+        summary.changes.push(change);
+      }
+    } else {
+      summary.unchanged++;
+    }
+
+    // Stored history carries over on write, so compare with it attached
+    const incomingText = generateProfileText({ ...combined, history: previous.history });
+    if (previous.embedding && previous.embedding.length > 0 && generateProfileText(previous) === incomingText) {
+      profile.embedding = previous.embedding;
+      profile.embeddingModel = previous.embeddingModel;
+      profile.embeddingTextHash = previous.embeddingTextHash;
+      summary.embeddingsCarriedOver++;
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Finish an import by counting contacts that were not re-uploaded
+ * Every matched profile was moved into the new session when it was written, so
+ * whatever is still in the previous upload session is missing from this one.
+ *
+ * @param summary - Diff summary of the import
+ * @param userId - Owner of the profiles
+ * @param previousSessionId - Upload session the import was diffed against
+ * @returns The completed summary
+ */
+export const finalizeImportDiff = async (
+  summary: ImportDiffSummary,
+  userId: string,
+  previousSessionId?: string
+): Promise<ImportDiffSummary> => {
+  summary.removed = previousSessionId ? await countProfilesBySession(previousSessionId, userId) : 0;
+  return summary;
+};
@@ -0,0 +1,260 @@
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { Profile, parseLinkedInCSV } from './utils';
+import { normalizeProfileUrl } from './identity';
+
+/**
+ * LinkedIn "Download your data" archive import
+ *
+ * Reads the full LinkedIn export ZIP and joins the per-person files onto the
+ * connections list so profiles carry real career history:
+ * - Connections.csv: one row per connection (required)
+ * - Positions.csv / Education.csv / Skills.csv: joined when rows reference a person
+ * - Endorsement_Given_Info.csv: skills you endorsed for a connection (received
+ *   endorsements are your own skills and are not joined)
+ * - messages.csv: message counts and last contact date per connection
+ *
+ * In LinkedIn's standard export, Positions, Education and Skills describe the
+ * account owner and carry no person columns; those rows are counted in
+ * `stats.ownerRows` but not attached to any connection.
+ */
+
+export interface LinkedInExportStats {
+  connections: number;
+  positionsJoined: number;
+  educationJoined: number;
+  skillsJoined: number;
+  endorsementsJoined: number;
+  messagesJoined: number;
+  ownerRows: number;
+}
+
+export interface LinkedInExportResult {
+  profiles: Profile[];
+  filesFound: string[];
+  stats: LinkedInExportStats;
+}
+
+type CSVRow = Record<string, string>;
+
+// Export files we know how to read, keyed by lowercase file name
+const EXPORT_FILES = {
+  connections: 'connections.csv',
+  positions: 'positions.csv',
+  education: 'education.csv',
+  skills: 'skills.csv',
+  endorsementsGiven: 'endorsement_given_info.csv',
+  messages: 'messages.csv'
+} as const;
+
+type ExportFileKey = keyof typeof EXPORT_FILES;
+
+// Column names that identify the person a row belongs to
+const URL_COLUMNS = ['URL', 'Profile URL', 'LinkedIn URL', 'Public Url', 'Endorsee Public Url'];
+const FIRST_NAME_COLUMNS = ['First Name', 'Endorsee First Name'];
+const LAST_NAME_COLUMNS = ['Last Name', 'Endorsee Last Name'];
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const pick = (row: CSVRow, columns: string[]): string => {
+  for (const column of columns) {
+    if (row[column]) {
+      return row[column].trim();
+    }
+  }
+  return '';
+};
+
+/**
+ * Strip the "Notes:" preamble LinkedIn prepends to Connections.csv
+ */
+export const stripNotesPreamble = (text: string): string => {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  if (!normalized.startsWith('Notes:')) {
+    return normalized;
+  }
+
+  const headerStart = normalized.indexOf('\n\n');
+  return headerStart === -1 ? normalized : normalized.slice(headerStart + 2);
+};
+
+const parseCSVText = (text: string): CSVRow[] => {
+  const result = Papa.parse<CSVRow>(stripNotesPreamble(text), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim()
+  });
+  return result.data;
+};
+
+/**
+ * Index connection profiles by normalized URL and by name for joining
+ */
+const buildProfileIndex = (profiles: Profile[]) => {
+  const byUrl = new Map<string, Profile>();
+  const byName = new Map<string, Profile[]>();
+
+  for (const profile of profiles) {
+    if (profile.linkedinUrl) {
+      byUrl.set(normalizeProfileUrl(profile.linkedinUrl), profile);
+    }
+    const nameKey = normalizeName(profile.name);
+    byName.set(nameKey, [...(byName.get(nameKey) || []), profile]);
+  }
+
+  // Resolve the connection a row refers to: URL first, then an unambiguous name
+  return (row: CSVRow): Profile | null | undefined => {
+    const url = pick(row, URL_COLUMNS);
+    if (url) {
+      return byUrl.get(normalizeProfileUrl(url)) || null;
+    }
+
+    const name = `${pick(row, FIRST_NAME_COLUMNS)} ${pick(row, LAST_NAME_COLUMNS)}`.trim();
+    if (name) {
+      const candidates = byName.get(normalizeName(name)) || [];
+      return candidates.length === 1 ? candidates[0] : null;
+    }
+
+    // `undefined` means the row has no person columns at all (account owner data)
+    return undefined;
+  };
+};
+
+const formatDateRange = (start: string, end: string): string => {
+  if (!start && !end) return '';
+  return ` (${start || '?'} – ${end || 'Present'})`;
+};
+
+const addSkills = (profile: Profile, skills: string[]): void => {
+  const existing = new Set((profile.skills || []).map(skill => skill.toLowerCase()));
+  const additions = skills.filter(skill => skill && !existing.has(skill.toLowerCase()));
+  if (additions.length > 0) {
+    profile.skills = [...(profile.skills || []), ...additions];
+  }
+};
+
+/**
+ * Parse a LinkedIn data export ZIP into enriched Profile objects
+ *
+ * @param archive - Raw ZIP file contents
+ * @param sessionId - Upload session ID to track this batch
+ * @returns Joined profiles plus a summary of what was found in the archive
+ */
+export const parseLinkedInExport = async (archive: ArrayBuffer, sessionId?: string): Promise<LinkedInExportResult> => {
+  const zip = await JSZip.loadAsync(archive);
+
+  // Locate known files regardless of the folder they were zipped under
+  const entries = new Map<ExportFileKey, JSZip.JSZipObject>();
+  zip.forEach((relativePath, entry) => {
+    if (entry.dir) return;
+    const fileName = relativePath.split('/').pop()?.toLowerCase() || '';
+    for (const [key, expected] of Object.entries(EXPORT_FILES) as [ExportFileKey, string][]) {
+      if (fileName === expected && !entries.has(key)) {
+        entries.set(key, entry);
+      }
+    }
+  });
+
+  const connectionsEntry = entries.get('connections');
+  if (!connectionsEntry) {
+    throw new Error('Connections.csv was not found in the uploaded archive');
+  }
+
+  const readRows = async (key: ExportFileKey): Promise<CSVRow[]> => {
+    const entry = entries.get(key);
+    return entry ? parseCSVText(await entry.async('string')) : [];
+  };
+
+  const profiles = parseLinkedInCSV(await readRows('connections'), sessionId);
+  profiles.forEach(profile => {
+    profile.connectionSource = profile.connectionSource || 'LinkedIn';
+  });
+  const findProfile = buildProfileIndex(profiles);
+
+  const stats: LinkedInExportStats = {
+    connections: profiles.length,
+    positionsJoined: 0,
+    educationJoined: 0,
+    skillsJoined: 0,
+    endorsementsJoined: 0,
+    messagesJoined: 0,
+    ownerRows: 0
+  };
+
+  // Career history: replace the synthesized "Title at Company" experience
+  const positions = new Map<Profile, string[]>();
+  for (const row of await readRows('positions')) {
+    const profile = findProfile(row);
+    if (profile === undefined) { stats.ownerRows++; continue; }
+    if (!profile) continue;
+
+    const title = row['Title'] || '';
+    const company = row['Company Name'] || row['Company'] || '';
+    const description = row['Description'] ? `: ${row['Description'].trim()}` : '';
+    const location = row['Location'] ? `, ${row['Location']}` : '';
+    const line = `${[title, company].filter(Boolean).join(' at ')}${location}${formatDateRange(row['Started On'], row['Finished On'])}${description}`;
+    positions.set(profile, [...(positions.get(profile) || []), line]);
+    stats.positionsJoined++;
+  }
+  positions.forEach((lines, profile) => {
+    profile.experience = lines.join('\n');
+  });
+
+  const education = new Map<Profile, string[]>();
+  for (const row of await readRows('education')) {
+    const profile = findProfile(row);
+    if (profile === undefined) { stats.ownerRows++; continue; }
+    if (!profile) continue;
+
+    const degree = row['Degree Name'] ? `${row['Degree Name']}, ` : '';
+    const line = `${degree}${row['School Name'] || ''}${formatDateRange(row['Start Date'], row['End Date'])}`;
+    education.set(profile, [...(education.get(profile) || []), line]);
+    stats.educationJoined++;
+  }
+  education.forEach((lines, profile) => {
+    profile.education = lines.join('\n');
+  });
+
+  for (const row of await readRows('skills')) {
+    const profile = findProfile(row);
+    if (profile === undefined) { stats.ownerRows++; continue; }
+    if (!profile) continue;
+
+    addSkills(profile, [(row['Name'] || row['Skill'] || '').trim()]);
+    stats.skillsJoined++;
+  }
+
+  // Endorsements you gave describe the connection's skills
+  for (const row of await readRows('endorsementsGiven')) {
+    const profile = findProfile(row);
+    if (!profile) continue;
+
+    addSkills(profile, [(row['Skill Name'] || '').trim()]);
+    stats.endorsementsJoined++;
+  }
+
+  // Messages: count messages per connection and remember the latest one
+  for (const row of await readRows('messages')) {
+    const participantUrls = [row['SENDER PROFILE URL'], ...(row['RECIPIENT PROFILE URLS'] || '').split(',')]
+      .map(url => (url || '').trim())
+      .filter(Boolean);
+    const sentAt = row['DATE'] ? new Date(row['DATE']) : null;
+
+    for (const url of participantUrls) {
+      const profile = findProfile({ URL: url });
+      if (!profile) continue;
+
+      profile.messageCount = (profile.messageCount || 0) + 1;
+      if (sentAt && !isNaN(sentAt.getTime()) && (!profile.lastMessagedAt || sentAt.toISOString() > profile.lastMessagedAt)) {
+        profile.lastMessagedAt = sentAt.toISOString();
+      }
+      stats.messagesJoined++;
+    }
+  }
+
+  return {
+    profiles,
+    filesFound: Array.from(entries.keys()).map(key => EXPORT_FILES[key]),
+    stats
+  };
+};
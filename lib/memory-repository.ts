@@ -0,0 +1,588 @@
+import fs from 'fs';
+import path from 'path';
+import { EmbeddingCacheEntry, EmbeddingJob, LinkedInProfile, MatchFeedback, MatchRun, MatchRunRevision, MatchRunRevisionSummary, MatchRunSummary, ProfileMergeLog, SavedColumnMapping, StoredVectorIndex, UploadJob, UserProfile, WorkspaceSettings } from './mongodb';
+import { Repositories, ProfileRepository, MatchRepository, UploadRepository, EmbeddingRepository, SettingsRepository, ProfileSessionSummary } from './repository';
+
+/**
+ * In-process implementation of the storage repositories
+ *
+ * Documents are kept in maps and copied on the way in and out, so callers can't
+ * mutate stored state by accident. With a file path the whole store is written
+ * to JSON after every change and loaded again on startup, which is enough to
+ * run the app locally without MongoDB.
+ */
+
+interface MemoryStore {
+  profiles: Map<string, LinkedInProfile>; // By uniqueKey
+  merges: ProfileMergeLog[];
+  users: Map<string, UserProfile>; // By email
+  matchRuns: Map<string, MatchRun>; // By userId + run ID
+  matchRunRevisions: MatchRunRevision[];
+  matchFeedback: Map<string, MatchFeedback>; // By userId + run ID + profile ID
+  columnMappings: Map<string, SavedColumnMapping>; // By userId + header signature
+  uploadJobs: Map<string, UploadJob>; // By userId + jobId
+  embeddingCache: Map<string, EmbeddingCacheEntry>; // By model + text hash
+  embeddingJobs: Map<string, EmbeddingJob>; // By userId + jobId
+  vectorIndexes: Map<string, StoredVectorIndex>; // By userId + model
+  workspaceSettings: Map<string, WorkspaceSettings>; // By userId
+}
+
+interface SerializedStore {
+  profiles: LinkedInProfile[];
+  merges: ProfileMergeLog[];
+  users: UserProfile[];
+  matchRuns?: MatchRun[]; // Missing in stores written before runs had their own collection
+  matchRunRevisions?: MatchRunRevision[];
+  matchFeedback?: MatchFeedback[];
+  columnMappings: SavedColumnMapping[];
+  uploadJobs: UploadJob[];
+  embeddingCache?: EmbeddingCacheEntry[];
+  embeddingJobs?: EmbeddingJob[];
+  vectorIndexes?: StoredVectorIndex[];
+  workspaceSettings?: WorkspaceSettings[];
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const withoutEmbedding = (profile: LinkedInProfile): LinkedInProfile => {
+  const copy = clone(profile);
+  delete copy.embedding;
+  return copy;
+};
+
+const scopedKey = (userId: string, id: string): string => `${userId}\u0000${id}`;
+
+const feedbackKey = (userId: string, runId: string, profileId: string): string => scopedKey(scopedKey(userId, runId), profileId);
+
+// Dates are written as { $date } so they come back as Date objects, not strings
+function encodeDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+const decodeDates = (_key: string, value: unknown): unknown => {
+  if (value && typeof value === 'object' && Object.keys(value).length === 1 && typeof (value as { $date?: unknown }).$date === 'string') {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+};
+
+const loadStore = (filePath?: string): MemoryStore => {
+  const store: MemoryStore = {
+    profiles: new Map(),
+    merges: [],
+    users: new Map(),
+    matchRuns: new Map(),
+    matchRunRevisions: [],
+    matchFeedback: new Map(),
+    columnMappings: new Map(),
+    uploadJobs: new Map(),
+    embeddingCache: new Map(),
+    embeddingJobs: new Map(),
+    vectorIndexes: new Map(),
+    workspaceSettings: new Map()
+  };
+
+  if (filePath && fs.existsSync(filePath)) {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'), decodeDates) as SerializedStore;
+    data.profiles.forEach(profile => store.profiles.set(profile.uniqueKey, profile));
+    store.merges = data.merges;
+    data.users.forEach(user => store.users.set(user.email, user));
+    (data.matchRuns || []).forEach(run => store.matchRuns.set(scopedKey(run.userId, run.id), run));
+    store.matchRunRevisions = data.matchRunRevisions || [];
+    (data.matchFeedback || []).forEach(feedback => store.matchFeedback.set(feedbackKey(feedback.userId, feedback.runId, feedback.profileId), feedback));
+    data.columnMappings.forEach(mapping => store.columnMappings.set(scopedKey(mapping.userId, mapping.headerSignature), mapping));
+    data.uploadJobs.forEach(job => store.uploadJobs.set(scopedKey(job.userId, job.jobId), job));
+    (data.embeddingCache || []).forEach(entry => store.embeddingCache.set(scopedKey(entry.model, entry.textHash), entry));
+    (data.embeddingJobs || []).forEach(job => store.embeddingJobs.set(scopedKey(job.userId, job.jobId), job));
+    (data.vectorIndexes || []).forEach(index => store.vectorIndexes.set(scopedKey(index.userId, index.model), index));
+    (data.workspaceSettings || []).forEach(settings => store.workspaceSettings.set(settings.userId, settings));
+    console.log(`Loaded ${store.profiles.size} profiles from ${filePath}`);
+  }
+
+  return store;
+};
+
+const saveStore = (store: MemoryStore, filePath: string): void => {
+  const data: SerializedStore = {
+    profiles: Array.from(store.profiles.values()),
+    merges: store.merges,
+    users: Array.from(store.users.values()),
+    matchRuns: Array.from(store.matchRuns.values()),
+    matchRunRevisions: store.matchRunRevisions,
+    matchFeedback: Array.from(store.matchFeedback.values()),
+    columnMappings: Array.from(store.columnMappings.values()),
+    uploadJobs: Array.from(store.uploadJobs.values()),
+    embeddingCache: Array.from(store.embeddingCache.values()),
+    embeddingJobs: Array.from(store.embeddingJobs.values()),
+    vectorIndexes: Array.from(store.vectorIndexes.values()),
+    workspaceSettings: Array.from(store.workspaceSettings.values())
+  };
+
+  // Write to a temporary file first so a crash never leaves a truncated store
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, encodeDates));
+  fs.renameSync(tempPath, filePath);
+};
+
+/**
+ * Create in-process repositories, optionally persisted to a JSON file
+ *
+ * @param filePath - Where to persist the store; omit to keep everything in memory
+ */
+export const createMemoryRepositories = (filePath?: string): Repositories => {
+  const store = loadStore(filePath);
+  const persist = (): void => {
+    if (filePath) saveStore(store, filePath);
+  };
+
+  const userProfiles = (userId: string): LinkedInProfile[] =>
+    Array.from(store.profiles.values()).filter(profile => profile.userId === userId);
+
+  const userRuns = (userId: string): MatchRun[] =>
+    Array.from(store.matchRuns.values()).filter(run => run.userId === userId);
+
+  // Not finished, past its backoff and not leased by another worker
+  const isJobDue = (job: EmbeddingJob, now: Date): boolean =>
+    (job.status === 'queued' || job.status === 'running') &&
+    job.nextAttemptAt <= now &&
+    (!job.lockedUntil || job.lockedUntil <= now);
+
+  const profiles: ProfileRepository = {
+    findByUser: async (userId) => userProfiles(userId).map(clone),
+
+    findByUserWithoutEmbeddings: async (userId) => userProfiles(userId).map(withoutEmbedding),
+
+    findBySession: async (userId, sessionId) =>
+      userProfiles(userId).filter(profile => profile.uploadSessionId === sessionId).map(clone),
+
+    findBySessionWithoutEmbeddings: async (userId, sessionId) =>
+      userProfiles(userId).filter(profile => profile.uploadSessionId === sessionId).map(withoutEmbedding),
+
+    findByIds: async (userId, ids) =>
+      userProfiles(userId).filter(profile => ids.includes(profile.id)).map(clone),
+
+    findByKey: async (userId, uniqueKey) => {
+      const profile = store.profiles.get(uniqueKey);
+      return profile && profile.userId === userId ? clone(profile) : null;
+    },
+
+    findIdentityCandidates: async (userId, lookup) => {
+      const linkedinUrls = new Set(lookup.linkedinUrls);
+      const emails = new Set(lookup.emails);
+      const names = new Set(lookup.names);
+      const rawLinkedinUrls = new Set(lookup.rawLinkedinUrls);
+      const rawEmails = new Set(lookup.rawEmails);
+      const rawNames = new Set(lookup.rawNames);
+
+      return userProfiles(userId)
+        .filter(({ identity, linkedinUrl, email, name }) => identity
+          ? (!!identity.linkedinUrl && linkedinUrls.has(identity.linkedinUrl)) ||
+            (!!identity.email && emails.has(identity.email)) ||
+            names.has(identity.name)
+          : rawLinkedinUrls.has(linkedinUrl) || (!!email && rawEmails.has(email)) || rawNames.has(name))
+        .map(clone);
+    },
+
+    findJobChanges: async (userId, since, limit) =>
+      userProfiles(userId)
+        .filter(profile => profile.jobChangedAt && profile.jobChangedAt >= since)
+        .sort((a, b) => b.jobChangedAt!.getTime() - a.jobChangedAt!.getTime())
+        .slice(0, limit)
+        .map(withoutEmbedding),
+
+    findDuplicateGroups: async (userId, limit) => {
+      const groups = new Map<string, LinkedInProfile[]>();
+      for (const profile of userProfiles(userId)) {
+        const key = profile.identity?.name ?? profile.name.toLowerCase();
+        groups.set(key, [...(groups.get(key) || []), profile]);
+      }
+      return Array.from(groups.values())
+        .filter(group => group.length > 1)
+        .sort((a, b) => b.length - a.length)
+        .slice(0, limit)
+        .map(group => group.map(withoutEmbedding));
+    },
+
+    findLatestUploadSessionId: async (userId, excludeSessionId) => {
+      const latest = userProfiles(userId)
+        .filter(profile => profile.uploadSessionId?.startsWith(`upload-${userId}-`) && profile.uploadSessionId !== excludeSessionId)
+        .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())[0];
+      return latest?.uploadSessionId;
+    },
+
+    countBySession: async (userId, sessionId) =>
+      userProfiles(userId).filter(profile => profile.uploadSessionId === sessionId).length,
+
+    findSessions: async (userId) => {
+      const sessions = new Map<string, ProfileSessionSummary>();
+      userProfiles(userId).forEach(({ uploadSessionId, uploadedAt }) => {
+        if (!uploadSessionId) return;
+        const session = sessions.get(uploadSessionId);
+        sessions.set(uploadSessionId, {
+          sessionId: uploadSessionId,
+          profileCount: (session?.profileCount || 0) + 1,
+          lastUploadedAt: session && session.lastUploadedAt > uploadedAt ? session.lastUploadedAt : uploadedAt
+        });
+      });
+      return Array.from(sessions.values()).sort((a, b) => b.lastUploadedAt.getTime() - a.lastUploadedAt.getTime());
+    },
+
+    // No database-side vector search; callers score profiles in process
+    findNearest: async () => null,
+
+    sampleEmbedded: async (userId, model, size) => {
+      const embedded = userProfiles(userId).filter(profile => profile.embeddingModel === model && profile.embedding);
+      // Partial Fisher-Yates shuffle of the first `size` positions
+      for (let i = 0; i < Math.min(size, embedded.length); i++) {
+        const j = i + Math.floor(Math.random() * (embedded.length - i));
+        [embedded[i], embedded[j]] = [embedded[j], embedded[i]];
+      }
+      return embedded.slice(0, size).map(clone);
+    },
+
+    upsertMany: async (newProfiles) => {
+      newProfiles.forEach(profile => store.profiles.set(profile.uniqueKey, clone(profile)));
+      persist();
+    },
+
+    insert: async (profile) => {
+      if (store.profiles.has(profile.uniqueKey)) {
+        throw new Error(`Duplicate profile key: ${profile.uniqueKey}`);
+      }
+      store.profiles.set(profile.uniqueKey, clone(profile));
+      persist();
+    },
+
+    setEmbeddings: async (userId, embeddings) => {
+      for (const { uniqueKey, embedding, embeddingModel, embeddingTextHash } of embeddings) {
+        const profile = store.profiles.get(uniqueKey);
+        if (profile && profile.userId === userId) {
+          profile.embedding = [...embedding];
+          profile.embeddingModel = embeddingModel;
+          profile.embeddingTextHash = embeddingTextHash;
+          profile.lastUpdated = new Date();
+        }
+      }
+      persist();
+    },
+
+    deleteByKey: async (userId, uniqueKey) => {
+      if (store.profiles.get(uniqueKey)?.userId === userId) {
+        store.profiles.delete(uniqueKey);
+        persist();
+      }
+    },
+
+    deleteByUser: async (userId) => {
+      userProfiles(userId).forEach(profile => store.profiles.delete(profile.uniqueKey));
+      persist();
+    },
+
+    deleteBySession: async (userId, sessionId) => {
+      userProfiles(userId)
+        .filter(profile => profile.uploadSessionId === sessionId)
+        .forEach(profile => store.profiles.delete(profile.uniqueKey));
+      persist();
+    },
+
+    insertMerges: async (entries) => {
+      store.merges.push(...entries.map(clone));
+      persist();
+    },
+
+    findMerges: async (userId, limit) =>
+      store.merges
+        .filter(entry => entry.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit)
+        .map(clone),
+
+    findOpenMerge: async (userId, mergeId) => {
+      const entry = store.merges.find(merge => merge.userId === userId && merge.mergeId === mergeId && !merge.splitAt);
+      return entry ? clone(entry) : null;
+    },
+
+    markMergeSplit: async (userId, mergeId, splitAt) => {
+      const entry = store.merges.find(merge => merge.userId === userId && merge.mergeId === mergeId);
+      if (entry) {
+        entry.splitAt = splitAt;
+        persist();
+      }
+    }
+  };
+
+  const matches: MatchRepository = {
+    findUserByEmail: async (email) => {
+      const user = store.users.get(email);
+      return user ? clone(user) : null;
+    },
+
+    insertUser: async (user) => {
+      const _id = user._id || `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      store.users.set(user.email, clone({ ...user, _id }));
+      persist();
+      return _id;
+    },
+
+    updateUser: async (email, update) => {
+      const user = store.users.get(email);
+      if (user) {
+        store.users.set(email, clone({ ...user, ...update }));
+        persist();
+      }
+    },
+
+    insertRun: async (run) => {
+      if (store.matchRuns.has(scopedKey(run.userId, run.id))) {
+        throw new Error(`Duplicate match run: ${run.id}`);
+      }
+      store.matchRuns.set(scopedKey(run.userId, run.id), clone(run));
+      persist();
+    },
+
+    upsertRuns: async (runs) => {
+      runs.forEach(run => store.matchRuns.set(scopedKey(run.userId, run.id), clone(run)));
+      persist();
+    },
+
+    findRuns: async (userId, { limit, offset, sortBy, order }) => {
+      const direction = order === 'asc' ? 1 : -1;
+      return userRuns(userId)
+        .sort((a, b) => {
+          const compared = sortBy === 'mission'
+            ? a.mission.localeCompare(b.mission)
+            : sortBy === 'matchCount'
+              ? a.matchCount - b.matchCount
+              : a.createdAt.getTime() - b.createdAt.getTime();
+          return compared * direction || b.createdAt.getTime() - a.createdAt.getTime();
+        })
+        .slice(offset, offset + limit)
+        .map(run => {
+          const summary: Partial<MatchRun> = clone(run);
+          delete summary.matches;
+          return summary as MatchRunSummary;
+        });
+    },
+
+    countRuns: async (userId) => userRuns(userId).length,
+
+    findRun: async (userId, id) => {
+      const run = store.matchRuns.get(scopedKey(userId, id));
+      return run ? clone(run) : null;
+    },
+
+    findRecentRun: async (userId, mission, matchCount, since) => {
+      const run = userRuns(userId).find(candidate =>
+        candidate.mission === mission && candidate.matchCount === matchCount && candidate.createdAt >= since);
+      return run ? clone(run) : null;
+    },
+
+    deleteRun: async (userId, id) => {
+      const deleted = store.matchRuns.delete(scopedKey(userId, id));
+      store.matchRunRevisions = store.matchRunRevisions.filter(revision => revision.userId !== userId || revision.runId !== id);
+      store.matchFeedback.forEach((feedback, key) => {
+        if (feedback.userId === userId && feedback.runId === id) store.matchFeedback.delete(key);
+      });
+      persist();
+      return deleted;
+    },
+
+    replaceRun: async (run, expectedRevision) => {
+      const current = store.matchRuns.get(scopedKey(run.userId, run.id));
+      if (!current || current.revision !== expectedRevision) {
+        return false;
+      }
+      store.matchRuns.set(scopedKey(run.userId, run.id), clone(run));
+      persist();
+      return true;
+    },
+
+    insertRevision: async (revision) => {
+      if (store.matchRunRevisions.some(existing =>
+        existing.userId === revision.userId && existing.runId === revision.runId && existing.revision === revision.revision)) {
+        return;
+      }
+      store.matchRunRevisions.push(clone(revision));
+      persist();
+    },
+
+    findRevisions: async (userId, runId) =>
+      store.matchRunRevisions
+        .filter(revision => revision.userId === userId && revision.runId === runId)
+        .sort((a, b) => b.revision - a.revision)
+        .map(revision => {
+          const summary: Partial<MatchRunRevision> = clone(revision);
+          delete summary.matches;
+          delete summary.recommendations;
+          return summary as MatchRunRevisionSummary;
+        }),
+
+    findRevision: async (userId, runId, revision) => {
+      const entry = store.matchRunRevisions.find(existing =>
+        existing.userId === userId && existing.runId === runId && existing.revision === revision);
+      return entry ? clone(entry) : null;
+    },
+
+    upsertFeedback: async (feedback) => {
+      store.matchFeedback.set(feedbackKey(feedback.userId, feedback.runId, feedback.profileId), clone(feedback));
+      persist();
+    },
+
+    deleteFeedback: async (userId, runId, profileId) => {
+      const deleted = store.matchFeedback.delete(feedbackKey(userId, runId, profileId));
+      persist();
+      return deleted;
+    },
+
+    findRunFeedback: async (userId, runId) =>
+      Array.from(store.matchFeedback.values())
+        .filter(feedback => feedback.userId === userId && feedback.runId === runId)
+        .map(clone),
+
+    findMissionFeedback: async (userId, missionKey) =>
+      Array.from(store.matchFeedback.values())
+        .filter(feedback => feedback.userId === userId && feedback.missionKey === missionKey)
+        .map(clone)
+  };
+
+  const uploads: UploadRepository = {
+    findColumnMapping: async (userId, headerSignature) => {
+      const mapping = store.columnMappings.get(scopedKey(userId, headerSignature));
+      return mapping ? clone(mapping) : null;
+    },
+
+    saveColumnMapping: async (userId, headerSignature, mapping) => {
+      store.columnMappings.set(scopedKey(userId, headerSignature), { userId, headerSignature, mapping: { ...mapping }, updatedAt: new Date() });
+      persist();
+    },
+
+    insertJob: async (job) => {
+      store.uploadJobs.set(scopedKey(job.userId, job.jobId), clone(job));
+      persist();
+    },
+
+    findJob: async (userId, jobId) => {
+      const job = store.uploadJobs.get(scopedKey(userId, jobId));
+      return job ? clone(job) : null;
+    },
+
+    updateJob: async (userId, jobId, expectedChunkIndex, update) => {
+      const job = store.uploadJobs.get(scopedKey(userId, jobId));
+      if (!job || job.nextChunkIndex !== expectedChunkIndex) {
+        return false;
+      }
+      store.uploadJobs.set(scopedKey(userId, jobId), clone({ ...job, ...update, updatedAt: new Date() }));
+      persist();
+      return true;
+    }
+  };
+
+  const embeddings: EmbeddingRepository = {
+    findMany: async (model, textHashes) =>
+      textHashes
+        .map(textHash => store.embeddingCache.get(scopedKey(model, textHash)))
+        .filter((entry): entry is EmbeddingCacheEntry => !!entry)
+        .map(clone),
+
+    upsertMany: async (entries) => {
+      entries.forEach(entry => store.embeddingCache.set(scopedKey(entry.model, entry.textHash), clone(entry)));
+      persist();
+    },
+
+    insertJob: async (job) => {
+      store.embeddingJobs.set(scopedKey(job.userId, job.jobId), clone(job));
+      persist();
+    },
+
+    findJob: async (userId, jobId) => {
+      const job = store.embeddingJobs.get(scopedKey(userId, jobId));
+      return job ? clone(job) : null;
+    },
+
+    findLatestJob: async (userId, sessionId) => {
+      const latest = Array.from(store.embeddingJobs.values())
+        .filter(job => job.userId === userId && job.sessionId === sessionId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+      return latest ? clone(latest) : null;
+    },
+
+    findDueJobs: async (now, limit) =>
+      Array.from(store.embeddingJobs.values())
+        .filter(job => isJobDue(job, now))
+        .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+        .slice(0, limit)
+        .map(clone),
+
+    claimJob: async (userId, jobId, now, lockedUntil) => {
+      const job = store.embeddingJobs.get(scopedKey(userId, jobId));
+      if (!job || !isJobDue(job, now)) {
+        return null;
+      }
+      const claimed: EmbeddingJob = { ...job, status: 'running', lockedUntil, updatedAt: now };
+      store.embeddingJobs.set(scopedKey(userId, jobId), claimed);
+      persist();
+      return clone(claimed);
+    },
+
+    updateJob: async (userId, jobId, update) => {
+      const job = store.embeddingJobs.get(scopedKey(userId, jobId));
+      if (job) {
+        store.embeddingJobs.set(scopedKey(userId, jobId), clone({ ...job, ...update, updatedAt: new Date() }));
+        persist();
+      }
+    },
+
+    releaseJob: async (userId, jobId, update) => {
+      const job = store.embeddingJobs.get(scopedKey(userId, jobId));
+      if (job) {
+        const released: EmbeddingJob = clone({ ...job, ...update, updatedAt: new Date() });
+        delete released.lockedUntil;
+        store.embeddingJobs.set(scopedKey(userId, jobId), released);
+        persist();
+      }
+    },
+
+    findIndex: async (userId, model) => {
+      const index = store.vectorIndexes.get(scopedKey(userId, model));
+      return index ? clone(index) : null;
+    },
+
+    saveIndex: async (index) => {
+      store.vectorIndexes.set(scopedKey(index.userId, index.model), clone(index));
+      persist();
+    }
+  };
+
+  const settings: SettingsRepository = {
+    find: async (userId) => {
+      const entry = store.workspaceSettings.get(userId);
+      return entry ? clone(entry) : null;
+    },
+
+    save: async (userId, update) => {
+      const entry = store.workspaceSettings.get(userId);
+      store.workspaceSettings.set(userId, clone({ ...entry, ...update, userId, updatedAt: new Date() }));
+      persist();
+    },
+
+    unset: async (userId, fields) => {
+      const entry = store.workspaceSettings.get(userId);
+      if (entry) {
+        fields.forEach(field => delete entry[field]);
+        entry.updatedAt = new Date();
+        persist();
+      }
+    }
+  };
+
+  return {
+    backend: filePath ? 'file' : 'memory',
+    profiles,
+    matches,
+    uploads,
+    embeddings,
+    settings
+  };
+};
@@ -0,0 +1,482 @@
+import { MongoServerError } from 'mongodb';
+import { getDatabase, getProfileVectorIndexName, EmbeddingCacheEntry, EmbeddingJob, LinkedInProfile, StoredLinkedInProfile, MatchFeedback, MatchRun, MatchRunRevision, ProfileMergeLog, SavedColumnMapping, StoredVectorIndex, UploadJob, UserProfile, WorkspaceSettings } from './mongodb';
+import { Repositories, ProfileRepository, MatchRepository, UploadRepository, EmbeddingRepository, SettingsRepository } from './repository';
+import { decodeEmbeddingLazily, packEmbedding } from './vector-encoding';
+
+/**
+ * MongoDB implementation of the storage repositories
+ */
+
+const profilesCollection = async () => (await getDatabase()).collection<StoredLinkedInProfile>('profiles');
+const mergesCollection = async () => (await getDatabase()).collection<ProfileMergeLog>('profileMerges');
+const usersCollection = async () => (await getDatabase()).collection<UserProfile>('users');
+const matchRunsCollection = async () => (await getDatabase()).collection<MatchRun>('matchRuns');
+const revisionsCollection = async () => (await getDatabase()).collection<MatchRunRevision>('matchRunRevisions');
+const feedbackCollection = async () => (await getDatabase()).collection<MatchFeedback>('matchFeedback');
+const embeddingCacheCollection = async () => (await getDatabase()).collection<EmbeddingCacheEntry>('embeddingCache');
+const mappingsCollection = async () => (await getDatabase()).collection<SavedColumnMapping>('columnMappings');
+const jobsCollection = async () => (await getDatabase()).collection<UploadJob>('uploadJobs');
+const embeddingJobsCollection = async () => (await getDatabase()).collection<EmbeddingJob>('embeddingJobs');
+const vectorIndexesCollection = async () => (await getDatabase()).collection<StoredVectorIndex>('vectorIndexes');
+const settingsCollection = async () => (await getDatabase()).collection<WorkspaceSettings>('workspaceSettings');
+
+// Profile document with its embedding packed in the configured storage format
+const toStoredProfile = (profile: LinkedInProfile): StoredLinkedInProfile => {
+  const stored: StoredLinkedInProfile = { ...profile };
+  delete stored.embeddingScale;
+  if (!profile.embedding || profile.embedding.length === 0) {
+    return stored;
+  }
+  return { ...stored, ...packEmbedding(profile.embedding) };
+};
+
+// Documents read with their embedding decode it on access
+const fromStoredProfiles = (profiles: StoredLinkedInProfile[]): LinkedInProfile[] => profiles.map(decodeEmbeddingLazily);
+
+// Atlas caps numCandidates at 10,000
+const MAX_VECTOR_CANDIDATES = 10000;
+// How long a vector search index's availability is trusted before checking again
+const VECTOR_INDEX_CHECK_MS = 5 * 60 * 1000;
+
+const vectorIndexChecks = new Map<string, { queryable: boolean; checkedAt: number }>();
+
+// Whether the named vector search index exists and has finished building; false on servers without Atlas Search
+const isVectorIndexQueryable = async (name: string): Promise<boolean> => {
+  const cached = vectorIndexChecks.get(name);
+  if (cached && Date.now() - cached.checkedAt < VECTOR_INDEX_CHECK_MS) {
+    return cached.queryable;
+  }
+
+  let queryable = false;
+  try {
+    const [index] = await (await profilesCollection()).listSearchIndexes(name).toArray() as { queryable?: boolean }[];
+    queryable = index?.queryable === true;
+  } catch {
+    // Search index commands are Atlas only
+  }
+  vectorIndexChecks.set(name, { queryable, checkedAt: Date.now() });
+  return queryable;
+};
+
+// Jobs that may run at `now`: not finished, past their backoff and not leased by another worker
+const dueJobFilter = (now: Date) => ({
+  status: { $in: ['queued', 'running'] as EmbeddingJob['status'][] },
+  nextAttemptAt: { $lte: now },
+  $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }]
+});
+
+const mongoProfileRepository: ProfileRepository = {
+  findByUser: async (userId) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({ userId }).toArray());
+  },
+
+  findByUserWithoutEmbeddings: async (userId) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({ userId }, { projection: { embedding: 0 } }).toArray());
+  },
+
+  findBySession: async (userId, sessionId) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({ uploadSessionId: sessionId, userId }).toArray());
+  },
+
+  findBySessionWithoutEmbeddings: async (userId, sessionId) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({ uploadSessionId: sessionId, userId }, { projection: { embedding: 0 } }).toArray());
+  },
+
+  findByKey: async (userId, uniqueKey) => {
+    const profile = await (await profilesCollection()).findOne({ userId, uniqueKey });
+    return profile && decodeEmbeddingLazily(profile);
+  },
+
+  findByIds: async (userId, ids) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({ userId, id: { $in: ids } }).toArray());
+  },
+
+  findIdentityCandidates: async (userId, lookup) => {
+    return fromStoredProfiles(await (await profilesCollection()).find({
+      userId,
+      $or: [
+        { 'identity.linkedinUrl': { $in: lookup.linkedinUrls } },
+        { 'identity.email': { $in: lookup.emails } },
+        { 'identity.name': { $in: lookup.names } },
+        // Records stored before identities were tracked
+        { identity: { $exists: false }, linkedinUrl: { $in: lookup.rawLinkedinUrls } },
+        { identity: { $exists: false }, email: { $in: lookup.rawEmails } },
+        { identity: { $exists: false }, name: { $in: lookup.rawNames } }
+      ]
+    }).toArray());
+  },
+
+  findJobChanges: async (userId, since, limit) => {
+    return fromStoredProfiles(await (await profilesCollection())
+      .find({ userId, jobChangedAt: { $gte: since } }, { projection: { embedding: 0 } })
+      .sort({ jobChangedAt: -1 })
+      .limit(limit)
+      .toArray());
+  },
+
+  findDuplicateGroups: async (userId, limit) => {
+    const groups = await (await profilesCollection()).aggregate<{ profiles: LinkedInProfile[] }>([
+      { $match: { userId } },
+      { $project: { embedding: 0 } },
+      { $group: { _id: { $ifNull: ['$identity.name', { $toLower: '$name' }] }, profiles: { $push: '$$ROOT' }, count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+      { $sort: { count: -1 } },
+      { $limit: limit }
+    ]).toArray();
+    return groups.map(group => group.profiles);
+  },
+
+  findLatestUploadSessionId: async (userId, excludeSessionId) => {
+    const latest = await (await profilesCollection()).findOne(
+      {
+        userId,
+        uploadSessionId: excludeSessionId
+          ? { $regex: `^upload-${userId}-`, $ne: excludeSessionId }
+          : { $regex: `^upload-${userId}-` }
+      },
+      { sort: { uploadedAt: -1 }, projection: { uploadSessionId: 1 } }
+    );
+    return latest?.uploadSessionId;
+  },
+
+  countBySession: async (userId, sessionId) => {
+    return (await profilesCollection()).countDocuments({ uploadSessionId: sessionId, userId });
+  },
+
+  findSessions: async (userId) => {
+    const sessions = await (await profilesCollection()).aggregate<{ _id: string; profileCount: number; lastUploadedAt: Date }>([
+      { $match: { userId, uploadSessionId: { $exists: true, $ne: null } } },
+      { $group: { _id: '$uploadSessionId', profileCount: { $sum: 1 }, lastUploadedAt: { $max: '$uploadedAt' } } },
+      { $sort: { lastUploadedAt: -1 } }
+    ]).toArray();
+    return sessions.map(({ _id, profileCount, lastUploadedAt }) => ({ sessionId: _id, profileCount, lastUploadedAt }));
+  },
+
+  findNearest: async (userId, { embedding, model, limit, sessionIds }) => {
+    const name = getProfileVectorIndexName(embedding.length);
+    if (!(await isVectorIndexQueryable(name))) return null;
+
+    try {
+      return fromStoredProfiles(await (await profilesCollection()).aggregate<StoredLinkedInProfile>([
+        {
+          $vectorSearch: {
+            index: name,
+            path: 'embedding',
+            queryVector: embedding,
+            numCandidates: Math.min(MAX_VECTOR_CANDIDATES, limit * 10),
+            limit: Math.min(MAX_VECTOR_CANDIDATES, limit),
+            filter: {
+              userId,
+              embeddingModel: model,
+              ...(sessionIds ? { uploadSessionId: { $in: sessionIds } } : {})
+            }
+          }
+        }
+      ]).toArray());
+    } catch (error) {
+      console.warn(`Vector search on ${name} failed, scoring in process:`, error instanceof Error ? error.message : error);
+      vectorIndexChecks.set(name, { queryable: false, checkedAt: Date.now() });
+      return null;
+    }
+  },
+
+  sampleEmbedded: async (userId, model, size) =>
+    fromStoredProfiles(await (await profilesCollection()).aggregate<StoredLinkedInProfile>([
+      { $match: { userId, embeddingModel: model, embedding: { $exists: true } } },
+      { $sample: { size } }
+    ]).toArray()),
+
+  upsertMany: async (profiles) => {
+    if (profiles.length === 0) return;
+    // Use bulkWrite for efficient upsert operations
+    await (await profilesCollection()).bulkWrite(profiles.map(profile => ({
+      replaceOne: {
+        filter: { uniqueKey: profile.uniqueKey },
+        replacement: toStoredProfile(profile),
+        upsert: true
+      }
+    })));
+  },
+
+  insert: async (profile) => {
+    await (await profilesCollection()).insertOne(toStoredProfile(profile));
+  },
+
+  setEmbeddings: async (userId, embeddings) => {
+    if (embeddings.length === 0) return;
+    await (await profilesCollection()).bulkWrite(embeddings.map(({ uniqueKey, embedding, embeddingModel, embeddingTextHash }) => {
+      const stored = packEmbedding(embedding);
+      return {
+        updateOne: {
+          filter: { userId, uniqueKey },
+          update: {
+            $set: { ...stored, embeddingModel, embeddingTextHash, lastUpdated: new Date() },
+            ...(stored.embeddingScale === undefined ? { $unset: { embeddingScale: '' as const } } : {})
+          }
+        }
+      };
+    }));
+  },
+
+  deleteByKey: async (userId, uniqueKey) => {
+    await (await profilesCollection()).deleteOne({ userId, uniqueKey });
+  },
+
+  deleteByUser: async (userId) => {
+    await (await profilesCollection()).deleteMany({ userId });
+  },
+
+  deleteBySession: async (userId, sessionId) => {
+    await (await profilesCollection()).deleteMany({ uploadSessionId: sessionId, userId });
+  },
+
+  insertMerges: async (entries) => {
+    if (entries.length === 0) return;
+    await (await mergesCollection()).insertMany(entries);
+  },
+
+  findMerges: async (userId, limit) => {
+    return (await mergesCollection()).find({ userId }).sort({ createdAt: -1 }).limit(limit).toArray();
+  },
+
+  findOpenMerge: async (userId, mergeId) => {
+    return (await mergesCollection()).findOne({ userId, mergeId, splitAt: { $exists: false } });
+  },
+
+  markMergeSplit: async (userId, mergeId, splitAt) => {
+    await (await mergesCollection()).updateOne({ userId, mergeId }, { $set: { splitAt } });
+  }
+};
+
+const mongoMatchRepository: MatchRepository = {
+  findUserByEmail: async (email) => {
+    return (await usersCollection()).findOne({ email });
+  },
+
+  insertUser: async (user) => {
+    const result = await (await usersCollection()).insertOne(user);
+    return String(result.insertedId);
+  },
+
+  updateUser: async (email, update) => {
+    await (await usersCollection()).updateOne({ email }, { $set: update });
+  },
+
+  insertRun: async (run) => {
+    await (await matchRunsCollection()).insertOne(run);
+  },
+
+  upsertRuns: async (runs) => {
+    if (runs.length === 0) return;
+    await (await matchRunsCollection()).bulkWrite(runs.map(run => ({
+      replaceOne: {
+        filter: { userId: run.userId, id: run.id },
+        replacement: run,
+        upsert: true
+      }
+    })));
+  },
+
+  findRuns: async (userId, { limit, offset, sortBy, order }) => {
+    return (await matchRunsCollection())
+      .find({ userId }, { projection: { matches: 0 } })
+      .sort({ [sortBy]: order === 'asc' ? 1 : -1, createdAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+  },
+
+  countRuns: async (userId) => {
+    return (await matchRunsCollection()).countDocuments({ userId });
+  },
+
+  findRun: async (userId, id) => {
+    return (await matchRunsCollection()).findOne({ userId, id });
+  },
+
+  findRecentRun: async (userId, mission, matchCount, since) => {
+    return (await matchRunsCollection()).findOne({ userId, mission, matchCount, createdAt: { $gte: since } });
+  },
+
+  deleteRun: async (userId, id) => {
+    const result = await (await matchRunsCollection()).deleteOne({ userId, id });
+    await (await revisionsCollection()).deleteMany({ userId, runId: id });
+    await (await feedbackCollection()).deleteMany({ userId, runId: id });
+    return result.deletedCount === 1;
+  },
+
+  replaceRun: async (run, expectedRevision) => {
+    const result = await (await matchRunsCollection()).replaceOne(
+      { userId: run.userId, id: run.id, revision: expectedRevision },
+      run
+    );
+    return result.modifiedCount === 1;
+  },
+
+  insertRevision: async (revision) => {
+    try {
+      await (await revisionsCollection()).insertOne(revision);
+    } catch (error) {
+      // Archived by a concurrent update of the same revision (unique userId/runId/revision)
+      if (!(error instanceof MongoServerError && error.code === 11000)) {
+        throw error;
+      }
+    }
+  },
+
+  findRevisions: async (userId, runId) => {
+    return (await revisionsCollection())
+      .find({ userId, runId }, { projection: { matches: 0, recommendations: 0 } })
+      .sort({ revision: -1 })
+      .toArray();
+  },
+
+  findRevision: async (userId, runId, revision) => {
+    return (await revisionsCollection()).findOne({ userId, runId, revision });
+  },
+
+  upsertFeedback: async (feedback) => {
+    await (await feedbackCollection()).replaceOne(
+      { userId: feedback.userId, runId: feedback.runId, profileId: feedback.profileId },
+      feedback,
+      { upsert: true }
+    );
+  },
+
+  deleteFeedback: async (userId, runId, profileId) => {
+    const result = await (await feedbackCollection()).deleteOne({ userId, runId, profileId });
+    return result.deletedCount === 1;
+  },
+
+  findRunFeedback: async (userId, runId) => {
+    return (await feedbackCollection()).find({ userId, runId }).toArray();
+  },
+
+  findMissionFeedback: async (userId, missionKey) => {
+    return (await feedbackCollection()).find({ userId, missionKey }).toArray();
+  }
+};
+
+const mongoUploadRepository: UploadRepository = {
+  findColumnMapping: async (userId, headerSignature) => {
+    return (await mappingsCollection()).findOne({ userId, headerSignature });
+  },
+
+  saveColumnMapping: async (userId, headerSignature, mapping) => {
+    await (await mappingsCollection()).updateOne(
+      { userId, headerSignature },
+      { $set: { mapping, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  },
+
+  insertJob: async (job) => {
+    await (await jobsCollection()).insertOne(job);
+  },
+
+  findJob: async (userId, jobId) => {
+    return (await jobsCollection()).findOne({ jobId, userId });
+  },
+
+  updateJob: async (userId, jobId, expectedChunkIndex, update) => {
+    const result = await (await jobsCollection()).updateOne(
+      { jobId, userId, nextChunkIndex: expectedChunkIndex },
+      { $set: { ...update, updatedAt: new Date() } }
+    );
+    return result.modifiedCount === 1;
+  }
+};
+
+const mongoEmbeddingRepository: EmbeddingRepository = {
+  findMany: async (model, textHashes) => {
+    if (textHashes.length === 0) return [];
+    return (await embeddingCacheCollection()).find({ model, textHash: { $in: textHashes } }).toArray();
+  },
+
+  upsertMany: async (entries) => {
+    if (entries.length === 0) return;
+    await (await embeddingCacheCollection()).bulkWrite(entries.map(entry => ({
+      replaceOne: {
+        filter: { textHash: entry.textHash, model: entry.model },
+        replacement: entry,
+        upsert: true
+      }
+    })));
+  },
+
+  insertJob: async (job) => {
+    await (await embeddingJobsCollection()).insertOne(job);
+  },
+
+  findJob: async (userId, jobId) => {
+    return (await embeddingJobsCollection()).findOne({ jobId, userId });
+  },
+
+  findLatestJob: async (userId, sessionId) => {
+    return (await embeddingJobsCollection()).findOne({ userId, sessionId }, { sort: { createdAt: -1 } });
+  },
+
+  findDueJobs: async (now, limit) => {
+    return (await embeddingJobsCollection()).find(dueJobFilter(now)).sort({ nextAttemptAt: 1 }).limit(limit).toArray();
+  },
+
+  claimJob: async (userId, jobId, now, lockedUntil) => {
+    return (await embeddingJobsCollection()).findOneAndUpdate(
+      { jobId, userId, ...dueJobFilter(now) },
+      { $set: { status: 'running', lockedUntil, updatedAt: now } },
+      { returnDocument: 'after' }
+    );
+  },
+
+  updateJob: async (userId, jobId, update) => {
+    await (await embeddingJobsCollection()).updateOne({ jobId, userId }, { $set: { ...update, updatedAt: new Date() } });
+  },
+
+  releaseJob: async (userId, jobId, update) => {
+    await (await embeddingJobsCollection()).updateOne(
+      { jobId, userId },
+      { $set: { ...update, updatedAt: new Date() }, $unset: { lockedUntil: '' } }
+    );
+  },
+
+  findIndex: async (userId, model) => {
+    return (await vectorIndexesCollection()).findOne({ userId, model });
+  },
+
+  saveIndex: async (index) => {
+    await (await vectorIndexesCollection()).replaceOne({ userId: index.userId, model: index.model }, index, { upsert: true });
+  }
+};
+
+const mongoSettingsRepository: SettingsRepository = {
+  find: async (userId) => {
+    return (await settingsCollection()).findOne({ userId });
+  },
+
+  save: async (userId, update) => {
+    await (await settingsCollection()).updateOne(
+      { userId },
+      { $set: { ...update, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  },
+
+  unset: async (userId, fields) => {
+    await (await settingsCollection()).updateOne(
+      { userId },
+      { $set: { updatedAt: new Date() }, $unset: Object.fromEntries(fields.map(field => [field, ''])) }
+    );
+  }
+};
+
+/**
+ * Create the MongoDB-backed repositories
+ */
+export const createMongoRepositories = (): Repositories => ({
+  backend: 'mongodb',
+  profiles: mongoProfileRepository,
+  matches: mongoMatchRepository,
+  uploads: mongoUploadRepository,
+  embeddings: mongoEmbeddingRepository,
+  settings: mongoSettingsRepository
+});
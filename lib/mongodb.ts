@@ -1,4 +1,8 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, Binary } from 'mongodb';
+import { SerializedVectorIndex } from './vector-index';
+import { unpackEmbedding } from './vector-encoding';
+import { Taxonomy } from './taxonomy';
+import { SearchDefaults } from './search-paging';
 
 let client: MongoClient;
 let clientPromise: Promise<MongoClient>;
@@ -128,6 +132,16 @@ async function ensureIndexes(db: Db): Promise<void> {
   try {
     const profilesCollection = db.collection('profiles');
     const usersCollection = db.collection('users');
+    const columnMappingsCollection = db.collection('columnMappings');
+    const uploadJobsCollection = db.collection('uploadJobs');
+    const profileMergesCollection = db.collection('profileMerges');
+    const matchRunsCollection = db.collection('matchRuns');
+    const matchRunRevisionsCollection = db.collection('matchRunRevisions');
+    const matchFeedbackCollection = db.collection('matchFeedback');
+    const embeddingCacheCollection = db.collection('embeddingCache');
+    const embeddingJobsCollection = db.collection('embeddingJobs');
+    const vectorIndexesCollection = db.collection('vectorIndexes');
+    const workspaceSettingsCollection = db.collection('workspaceSettings');
     
     // Create indexes for profiles collection
     await profilesCollection.createIndex({ userId: 1 }); // User isolation
@@ -137,12 +151,58 @@ async function ensureIndexes(db: Db): Promise<void> {
     await profilesCollection.createIndex({ linkedinUrl: 1, userId: 1 }); // URL lookups
     await profilesCollection.createIndex({ uploadedAt: -1 }); // Time-based queries
     await profilesCollection.createIndex({ lastUpdated: -1 }); // Update tracking
+    await profilesCollection.createIndex({ userId: 1, connectedOn: -1 }); // Connection recency filters
+    await profilesCollection.createIndex({ userId: 1, 'identity.linkedinUrl': 1 }); // Entity resolution by URL
+    await profilesCollection.createIndex({ userId: 1, 'identity.email': 1 }); // Entity resolution by email
+    await profilesCollection.createIndex({ userId: 1, 'identity.name': 1 }); // Entity resolution by name
+    await profilesCollection.createIndex({ userId: 1, jobChangedAt: -1 }); // Recently changed jobs
+    await profilesCollection.createIndex({ userId: 1, id: 1 }); // Lookups by profile ID
     
     // Create indexes for users collection
     await usersCollection.createIndex({ email: 1 }, { unique: true }); // User lookup
     await usersCollection.createIndex({ createdAt: -1 }); // Time-based queries
     await usersCollection.createIndex({ updatedAt: -1 }); // Update tracking
     
+    // Create indexes for saved CSV column mappings
+    await columnMappingsCollection.createIndex({ userId: 1, headerSignature: 1 }, { unique: true }); // Mapping lookup
+    
+    // Create indexes for chunked upload jobs
+    await uploadJobsCollection.createIndex({ jobId: 1, userId: 1 }, { unique: true }); // Job lookup
+    await uploadJobsCollection.createIndex({ updatedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 }); // Expire stale jobs
+    
+    // Create indexes for the profile merge log
+    await profileMergesCollection.createIndex({ mergeId: 1, userId: 1 }, { unique: true }); // Split lookup
+    await profileMergesCollection.createIndex({ userId: 1, createdAt: -1 }); // Merge history
+    
+    // Create indexes for saved match runs
+    await matchRunsCollection.createIndex({ userId: 1, id: 1 }, { unique: true }); // Run lookup
+    await matchRunsCollection.createIndex({ userId: 1, createdAt: -1 }); // Newest/oldest first
+    await matchRunsCollection.createIndex({ userId: 1, matchCount: -1 }); // Sort by match count
+    await matchRunsCollection.createIndex({ userId: 1, mission: 1 }); // Sort by mission, duplicate checks
+    await matchRunRevisionsCollection.createIndex({ userId: 1, runId: 1, revision: -1 }, { unique: true }); // Revision history
+    await matchFeedbackCollection.createIndex({ userId: 1, runId: 1, profileId: 1 }, { unique: true }); // One verdict per match
+    await matchFeedbackCollection.createIndex({ userId: 1, missionKey: 1 }); // Rejections for later runs of a mission
+    
+    // Create indexes for the embedding cache
+    await embeddingCacheCollection.createIndex({ textHash: 1, model: 1 }, { unique: true }); // Cache lookup
+    await embeddingCacheCollection.createIndex({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 }); // Expire old entries; recomputed on demand
+    await profilesCollection.createIndex({ userId: 1, embeddingModel: 1 }); // Stale embedding lookups
+    
+    // Create indexes for background embedding jobs
+    await embeddingJobsCollection.createIndex({ jobId: 1, userId: 1 }, { unique: true }); // Job lookup
+    await embeddingJobsCollection.createIndex({ userId: 1, sessionId: 1, createdAt: -1 }); // Latest job per session
+    await embeddingJobsCollection.createIndex({ status: 1, nextAttemptAt: 1 }); // Due jobs
+    await embeddingJobsCollection.createIndex({ updatedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // Expire old jobs
+    
+    // Create indexes for persisted ANN graphs
+    await vectorIndexesCollection.createIndex({ userId: 1, model: 1 }, { unique: true }); // One graph per user and model
+    
+    // Create indexes for workspace settings
+    await workspaceSettingsCollection.createIndex({ userId: 1 }, { unique: true }); // One settings document per user
+    
+    // Create the Atlas Vector Search index over profile embeddings
+    await ensureVectorSearchIndex(db);
+    
     console.log('Database indexes ensured successfully');
   } catch (error) {
     console.error('Error creating database indexes:', error);
@@ -150,6 +210,50 @@ async function ensureIndexes(db: Db): Promise<void> {
   }
 }
 
+/**
+ * Name of the Atlas Vector Search index over profile embeddings of a vector size
+ * Each embedding size gets its own index, so changing models doesn't break search.
+ */
+export const getProfileVectorIndexName = (dimensions: number): string => `profile_embeddings_${dimensions}`;
+
+/**
+ * Ensure the Atlas Vector Search index for the current embedding size exists
+ * The size is read from the most recently updated embedding, so nothing is
+ * created before profiles are embedded. Servers without Atlas Search (e.g. a
+ * local mongod) reject search index commands; search then scores in process.
+ */
+async function ensureVectorSearchIndex(db: Db): Promise<void> {
+  try {
+    const profilesCollection = db.collection('profiles');
+    const latest = await profilesCollection.findOne(
+      { embedding: { $exists: true } },
+      { sort: { lastUpdated: -1 }, projection: { embedding: 1, embeddingScale: 1 } }
+    );
+    const dimensions = unpackEmbedding(latest?.embedding, latest?.embeddingScale)?.length || 0;
+    if (dimensions === 0) return;
+
+    const name = getProfileVectorIndexName(dimensions);
+    const existing = await profilesCollection.listSearchIndexes(name).toArray();
+    if (existing.length > 0) return;
+
+    await profilesCollection.createSearchIndex({
+      name,
+      type: 'vectorSearch',
+      definition: {
+        fields: [
+          { type: 'vector', path: 'embedding', numDimensions: dimensions, similarity: 'cosine' },
+          { type: 'filter', path: 'userId' },
+          { type: 'filter', path: 'uploadSessionId' },
+          { type: 'filter', path: 'embeddingModel' }
+        ]
+      }
+    });
+    console.log(`Created vector search index ${name}`);
+  } catch (error) {
+    console.warn('Atlas Vector Search unavailable, profiles will be scored in process:', error instanceof Error ? error.message : error);
+  }
+}
+
 /**
  * User data schema interfaces
  */
@@ -158,7 +262,7 @@ export interface UserProfile {
   email: string;
   name: string;
   imageUrl?: string;
-  matches: UserMatch[];
+  matches?: UserMatch[]; // Legacy: runs now live in the matchRuns collection and are moved there on load
   createdAt: Date;
   updatedAt: Date;
 }
@@ -179,12 +283,159 @@ export interface LinkedInProfile {
   experience?: string;
   education?: string;
   skills?: string[];
+  messageCount?: number;
+  lastMessagedAt?: string;
+  connectedOn?: string;
+  connectionNote?: string;
+  connectionSource?: string;
   uploadSessionId?: string;
-  embedding?: number[];
+  embedding?: number[]; // Stored packed (see vector-encoding), decoded when read
+  embeddingScale?: number; // Quantization step of an int8-packed embedding
+  embeddingModel?: string; // Model ID the embedding was generated with (see embedding-cache)
+  embeddingTextHash?: string; // Hash of the profile text that was embedded
   uploadedAt: Date;
   lastUpdated: Date;
   // Add unique constraints for duplicate prevention
-  uniqueKey: string; // Combination of name, company, and userId for deduplication
+  uniqueKey: string; // userId plus the strongest identifier (LinkedIn URL, email, or name and company)
+  identity?: ProfileIdentity; // Normalized identifiers for entity resolution
+  splitFrom?: string; // Merge this record was split out of; excluded from name-only matching
+  history?: ProfileHistoryEntry[]; // Title/company/location over time, oldest first; last entry is current
+  jobChangedAt?: Date; // When a title or company change was last observed
+}
+
+/**
+ * Profile document as stored, with the embedding packed (see vector-encoding)
+ */
+export type StoredLinkedInProfile = Omit<LinkedInProfile, 'embedding'> & {
+  embedding?: number[] | Binary;
+};
+
+export interface ProfileHistoryEntry {
+  title: string;
+  company: string;
+  location: string;
+  observedAt: Date; // When this version was first seen
+  source: 'import' | 'enrichment';
+}
+
+export interface ProfileIdentity {
+  linkedinUrl?: string;
+  email?: string;
+  name: string;
+  company: string;
+}
+
+export interface ProfileMergeLog {
+  _id?: string;
+  mergeId: string;
+  userId: string;
+  survivorKey: string; // Record that holds the merged data
+  mergedKey: string; // Record that was absorbed (equal to survivorKey for import merges)
+  rule: 'linkedinUrl' | 'email' | 'fuzzy' | 'manual';
+  source: 'import' | 'manual';
+  survivorName: string;
+  mergedName: string;
+  merged: Omit<LinkedInProfile, 'embedding'>; // Absorbed record as it was before the merge
+  survivorBefore?: Omit<LinkedInProfile, 'embedding'>; // Survivor before a manual merge filled its gaps
+  splitAt?: Date;
+  createdAt: Date;
+}
+
+export interface SavedColumnMapping {
+  _id?: string;
+  userId: string;
+  headerSignature: string; // Normalized, sorted header row the mapping applies to
+  mapping: Record<string, string>; // Profile field -> CSV header
+  updatedAt: Date;
+}
+
+/**
+ * Per-user search configuration; unset fields use the built-in defaults
+ */
+export interface WorkspaceSettings {
+  _id?: string;
+  userId: string;
+  taxonomy?: Taxonomy; // Replaces DEFAULT_TAXONOMY
+  searchDefaults?: SearchDefaults; // Result count and similarity threshold when a search doesn't set them
+  updatedAt: Date;
+}
+
+export interface UploadJob {
+  _id?: string;
+  jobId: string;
+  userId: string;
+  sessionId: string; // Upload session the imported profiles belong to
+  fileName: string;
+  fileSize: number;
+  totalChunks: number;
+  nextChunkIndex: number; // Chunks are applied strictly in order
+  bytesReceived: number;
+  headers?: string[];
+  mapping?: Record<string, string>; // Profile field -> CSV header
+  remainder: string; // Trailing partial CSV row carried into the next chunk
+  pendingBytes: string; // Base64 of an incomplete trailing UTF-8 sequence
+  rowsProcessed: number;
+  profilesImported: number;
+  chunkRowsWritten?: number; // Rows of the chunk at nextChunkIndex already written (and diffed) by an earlier attempt
+  status: 'uploading' | 'completed' | 'failed';
+  lastError?: string;
+  previousSessionId?: string; // Upload this import is diffed against
+  diff?: ImportDiffSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ImportChange {
+  name: string;
+  title?: { before: string; after: string };
+  company?: { before: string; after: string };
+}
+
+export interface ImportDiffSummary {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number; // Contacts in the previous upload that are missing from this one
+  embeddingsCarriedOver: number;
+  changes: ImportChange[]; // Capped sample of title/company changes for display
+}
+
+/**
+ * Cached embedding of a text, shared by every profile (and mission) with the same text
+ */
+export interface EmbeddingCacheEntry {
+  _id?: string;
+  textHash: string; // SHA-256 of the embedded text
+  model: string; // Model ID, including provider and dimensions
+  embedding: number[];
+  createdAt: Date;
+}
+
+export interface StoredVectorIndex extends SerializedVectorIndex {
+  _id?: string;
+  userId: string;
+  model: string; // Model ID of the indexed embeddings
+  textHashes: string[]; // Embedding text hash of each indexed profile, aligned with keys
+  updatedAt: Date;
+}
+
+export type EmbeddingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface EmbeddingJob {
+  _id?: string;
+  jobId: string;
+  userId: string;
+  sessionId: string; // Upload session whose profiles are embedded
+  status: EmbeddingJobStatus;
+  total: number; // Profiles in the session when last counted
+  embedded: number; // Profiles with a current embedding
+  attempts: number; // Consecutive failed runs; reset after a successful batch
+  nextAttemptAt: Date; // Not run before this (retry backoff)
+  lockedUntil?: Date; // Lease held by the worker currently running the job
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
 }
 
 export interface UserMatch {
@@ -195,6 +446,50 @@ export interface UserMatch {
   createdAt: Date;
 }
 
+export interface MatchRun extends UserMatch {
+  _id?: string;
+  userId: string; // User isolation
+  matchCount: number; // Stored for sorting and listing without loading matches
+  revision: number; // Starts at 1, incremented each time the run is replaced
+  updatedAt: Date;
+}
+
+export type MatchRunSummary = Omit<MatchRun, 'matches'>;
+
+/**
+ * Earlier results of a match run, kept when the run is replaced
+ */
+export interface MatchRunRevision {
+  _id?: string;
+  userId: string;
+  runId: string;
+  revision: number;
+  mission: string;
+  matches: MatchResult[];
+  recommendations: string;
+  matchCount: number;
+  createdAt: Date; // When these results were saved
+  replacedAt: Date;
+}
+
+export type MatchRunRevisionSummary = Omit<MatchRunRevision, 'matches' | 'recommendations'>;
+
+export type FeedbackVerdict = 'relevant' | 'irrelevant';
+
+/**
+ * A user's verdict on a match of a saved run
+ * Irrelevant contacts are left out of later searches for the same mission.
+ */
+export interface MatchFeedback {
+  _id?: string;
+  userId: string;
+  runId: string;
+  missionKey: string; // The run's mission, lowercased with whitespace collapsed
+  profileId: string;
+  verdict: FeedbackVerdict;
+  updatedAt: Date;
+}
+
 export interface MatchResult {
   id: string;
   name: string;
@@ -209,5 +504,6 @@ export interface MatchResult {
   experience?: string;
   education?: string;
   skills?: string[];
+  connectedOn?: string;
   similarity: number;
 }
@@ -0,0 +1,307 @@
+import { after } from 'next/server';
+import {
+  Profile,
+  MatchResult,
+  RecencyOptions,
+  findTopMatches,
+  getAllProfiles,
+  getProfilesWithoutEmbeddings,
+  findNearestProfiles,
+  getStoredVectorIndex,
+  saveStoredVectorIndex
+} from './utils';
+import { getEmbeddingModelId, isEmbeddingCurrent, needsEmbedding } from './embedding-cache';
+import { VectorIndex, createVectorIndex, loadVectorIndex } from './vector-index';
+import { SearchScope, loadScopeProfiles } from './search-scope';
+
+/**
+ * Per-user approximate nearest neighbour index over profile embeddings
+ *
+ * Each user's current embeddings are indexed in an HNSW graph (see
+ * vector-index.ts), so a search visits a few thousand vectors instead of every
+ * profile. The graph is built over a 256-dimension count sketch of each
+ * embedding: far cheaper to build and hold in memory than full 3072-dimension
+ * vectors, at the cost of approximate scores. A search therefore takes a wide
+ * candidate pool from the graph and reranks it exactly with findTopMatches on
+ * the full embeddings.
+ *
+ * Indexes are kept in memory for a few recent users and persisted per user and
+ * model, then brought up to date on use: profiles with new or re-embedded text
+ * are added, changed and removed ones are tombstoned, and the graph is rebuilt
+ * once tombstones exceed a fifth of it. Small networks are scanned exactly.
+ *
+ * Where MongoDB Atlas Vector Search is available, session searches run there
+ * instead and only the candidate pool is loaded into the process.
+ */
+
+// Below this many searchable profiles an exact scan is fast enough
+const INDEX_MIN_PROFILES = 1000;
+const SKETCH_DIMENSIONS = 256;
+// Candidates taken from the graph for exact reranking
+const MIN_CANDIDATE_POOL = 200;
+// Additions a search may apply before answering; larger updates are rebuilt in the background
+const MAX_INLINE_ADDITIONS = 2000;
+const MAX_REMOVED_RATIO = 0.2;
+const MAX_CACHED_INDEXES = 4;
+
+interface ProfileIndex {
+  userId: string;
+  modelId: string;
+  index: VectorIndex;
+  textHashes: Map<string, string>; // Profile ID -> text hash of the indexed embedding
+}
+
+export interface ProfileIndexStatus {
+  model: string;
+  size: number;
+  removed: number;
+}
+
+const cachedIndexes = new Map<string, ProfileIndex>(); // By userId + model, least recently used first
+const pendingUpdates = new Map<string, Promise<ProfileIndex | null>>();
+
+// Candidates to rerank exactly for a top N
+const getPoolSize = (topN: number, recency?: RecencyOptions): number =>
+  // Recency boosts can lift less similar profiles into the top N, so look further
+  Math.max(MIN_CANDIDATE_POOL, topN * 20) * (recency?.boostWeight ? 2 : 1);
+
+// Project an embedding onto SKETCH_DIMENSIONS by count sketch: each input dimension
+// is added with a fixed sign to one fixed output dimension, which preserves dot
+// products in expectation at O(dimensions) cost
+const sketchEmbedding = (embedding: number[]): Float32Array => {
+  if (embedding.length <= SKETCH_DIMENSIONS) {
+    return Float32Array.from(embedding);
+  }
+  const sketch = new Float32Array(SKETCH_DIMENSIONS);
+  for (let i = 0; i < embedding.length; i++) {
+    const hash = Math.imul(i + 1, 0x9e3779b1) >>> 0;
+    sketch[hash % SKETCH_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * embedding[i];
+  }
+  return sketch;
+};
+
+// IDs of the user's profiles with current embeddings, with the text hash each was embedded from
+const getCurrentEntries = async (userId: string, modelId: string): Promise<Map<string, string>> => {
+  const entries = new Map<string, string>();
+  (await getProfilesWithoutEmbeddings(userId))
+    .filter(profile => isEmbeddingCurrent(profile, modelId))
+    .forEach(profile => entries.set(profile.id, profile.embeddingTextHash!));
+  return entries;
+};
+
+// Sketches of the current embeddings by profile ID; full vectors are dropped as soon as they are sketched
+const loadSketches = async (userId: string, modelId: string): Promise<Map<string, Float32Array>> => {
+  const sketches = new Map<string, Float32Array>();
+  (await getAllProfiles(userId)).forEach(profile => {
+    if (!needsEmbedding(profile, modelId)) {
+      sketches.set(profile.id, sketchEmbedding(profile.embedding!));
+    }
+    profile.embedding = undefined; // Releases the decoded vector (see decodeEmbeddingLazily)
+  });
+  return sketches;
+};
+
+// Load the persisted graph; null if missing, built over other vector sizes, or referencing deleted profiles
+const restoreIndex = async (userId: string, modelId: string, sketches: Map<string, Float32Array>): Promise<ProfileIndex | null> => {
+  const stored = await getStoredVectorIndex(userId, modelId);
+  if (!stored) return null;
+
+  const index = loadVectorIndex(stored, key => sketches.get(key));
+  if (!index) return null;
+
+  return { userId, modelId, index, textHashes: new Map(stored.keys.map((key, i) => [key, stored.textHashes[i]])) };
+};
+
+const persistIndex = async (entry: ProfileIndex): Promise<void> => {
+  const serialized = entry.index.serialize();
+  await saveStoredVectorIndex({
+    ...serialized,
+    userId: entry.userId,
+    model: entry.modelId,
+    textHashes: serialized.keys.map(key => entry.textHashes.get(key) || ''),
+    updatedAt: new Date()
+  });
+};
+
+// Bring the user's index up to date; null if the network is small enough to scan
+// or the update takes more than maxAdditions insertions
+const updateIndex = async (userId: string, modelId: string, maxAdditions: number): Promise<ProfileIndex | null> => {
+  const cacheKey = `${userId}\u0000${modelId}`;
+  const current = await getCurrentEntries(userId, modelId);
+  if (current.size < INDEX_MIN_PROFILES) return null;
+
+  let sketches: Map<string, Float32Array> | null = null;
+
+  let entry = cachedIndexes.get(cacheKey) || null;
+  if (!entry) {
+    sketches = await loadSketches(userId, modelId);
+    entry = await restoreIndex(userId, modelId, sketches);
+  }
+
+  // Indexed vectors whose profile was removed or re-embedded from different text
+  const outdated = entry
+    ? Array.from(entry.textHashes.entries()).filter(([key, hash]) => current.get(key) !== hash).map(([key]) => key)
+    : [];
+  const tooManyRemoved = entry !== null &&
+    entry.index.removedCount() + outdated.length > MAX_REMOVED_RATIO * (entry.index.size() + entry.index.removedCount());
+
+  if (!entry || tooManyRemoved) {
+    if (current.size > maxAdditions) return null;
+    sketches = sketches || await loadSketches(userId, modelId);
+    const first = sketches.values().next().value;
+    entry = {
+      userId,
+      modelId,
+      index: createVectorIndex(first ? first.length : SKETCH_DIMENSIONS),
+      textHashes: new Map()
+    };
+  } else {
+    outdated.forEach(key => {
+      entry!.index.remove(key);
+      entry!.textHashes.delete(key);
+    });
+  }
+
+  const additions = Array.from(current.keys()).filter(key => !entry!.textHashes.has(key));
+  if (additions.length > maxAdditions) return null;
+
+  if (additions.length > 0) {
+    sketches = sketches || await loadSketches(userId, modelId);
+    for (const key of additions) {
+      const sketch = sketches.get(key);
+      if (!sketch) continue; // Re-embedded since the entries were read
+      entry.index.add(key, sketch);
+      entry.textHashes.set(key, current.get(key)!);
+    }
+    console.log(`Indexed ${additions.length} embeddings for user ${userId} (${entry.index.size()} total)`);
+  }
+
+  // Graphs with tombstones can't be persisted (the removed vectors are gone); they are rebuilt eventually
+  if ((additions.length > 0 || outdated.length > 0) && entry.index.removedCount() === 0) {
+    await persistIndex(entry);
+  }
+
+  cachedIndexes.delete(cacheKey);
+  cachedIndexes.set(cacheKey, entry);
+  while (cachedIndexes.size > MAX_CACHED_INDEXES) {
+    cachedIndexes.delete(cachedIndexes.keys().next().value!);
+  }
+  return entry;
+};
+
+// Run one update per user and model at a time; a search doesn't wait for an update in progress
+const getProfileIndex = async (userId: string, maxAdditions: number): Promise<ProfileIndex | null> => {
+  const modelId = getEmbeddingModelId();
+  const key = `${userId}\u0000${modelId}`;
+  const pending = pendingUpdates.get(key);
+  if (pending) {
+    return Number.isFinite(maxAdditions) ? null : pending;
+  }
+
+  const update = updateIndex(userId, modelId, maxAdditions).finally(() => pendingUpdates.delete(key));
+  pendingUpdates.set(key, update);
+  return update;
+};
+
+/**
+ * Build or update a user's index with all current embeddings
+ * Run after embedding jobs finish so searches find it ready.
+ *
+ * @param userId - Owner of the profiles
+ * @returns Indexed and tombstoned vector counts, or null if the user has too few profiles to need an index
+ */
+export const refreshProfileIndex = async (userId: string): Promise<ProfileIndexStatus | null> => {
+  let entry = await getProfileIndex(userId, Infinity);
+  // An update limited to a search's additions may have been in progress; run a full one after it
+  entry = entry || await getProfileIndex(userId, Infinity);
+  return entry ? { model: entry.modelId, size: entry.index.size(), removed: entry.index.removedCount() } : null;
+};
+
+/**
+ * Find top N profiles by similarity, using the user's ANN index for large sets
+ * Same results as findTopMatches, which it falls back to for small sets, while
+ * the index is being (re)built, or if it can't be used. Request handlers only:
+ * a large index update is deferred until after the response.
+ *
+ * @param userId - Owner of the profiles
+ * @param missionEmbedding - Vector embedding of the mission statement
+ * @param profiles - Profiles to search, e.g. one upload session after filters
+ * @param topN - Number of top matches to return
+ * @param minSimilarity - Minimum similarity threshold (0-1)
+ * @param recency - Optional recency boost
+ * @returns Top matching profiles with exact similarity scores
+ */
+export const findTopMatchesIndexed = async (
+  userId: string,
+  missionEmbedding: number[],
+  profiles: Profile[],
+  topN: number = 5,
+  minSimilarity: number = 0.0,
+  recency?: RecencyOptions
+): Promise<MatchResult[]> => {
+  const searchable = profiles.filter(profile => profile.embedding && profile.embedding.length === missionEmbedding.length);
+  if (searchable.length < INDEX_MIN_PROFILES) {
+    return findTopMatches(missionEmbedding, searchable, topN, minSimilarity, recency);
+  }
+
+  let entry: ProfileIndex | null = null;
+  try {
+    entry = await getProfileIndex(userId, MAX_INLINE_ADDITIONS);
+  } catch (error) {
+    console.error('Failed to update profile index, scanning all profiles:', error);
+  }
+  if (!entry || entry.index.dimensions !== Math.min(missionEmbedding.length, SKETCH_DIMENSIONS)) {
+    if (!entry) {
+      after(() => refreshProfileIndex(userId).catch(error => console.error('Failed to rebuild profile index:', error)));
+    }
+    return findTopMatches(missionEmbedding, searchable, topN, minSimilarity, recency);
+  }
+
+  const poolSize = getPoolSize(topN, recency);
+  const byId = new Map(searchable.map(profile => [profile.id, profile]));
+  const pool = entry.index
+    .search(sketchEmbedding(missionEmbedding), poolSize, { ef: poolSize, filter: key => byId.has(key) })
+    .map(({ key }) => byId.get(key)!);
+
+  return findTopMatches(missionEmbedding, pool, topN, minSimilarity, recency);
+};
+
+/**
+ * Find top N profiles of a search scope by similarity
+ * Searches with Atlas Vector Search when available and reranks its candidates
+ * exactly; otherwise loads the scope's embeddings and uses findTopMatchesIndexed.
+ * Request handlers only.
+ *
+ * @param userId - Owner of the profiles
+ * @param scope - Sessions to search, or all of the user's profiles
+ * @param missionEmbedding - Vector embedding of the mission statement
+ * @param candidates - Profiles of the scope to consider, with current embeddings; vectors need not be loaded
+ * @param topN - Number of top matches to return
+ * @param minSimilarity - Minimum similarity threshold (0-1)
+ * @param recency - Optional recency boost
+ * @returns Top matching profiles with exact similarity scores
+ */
+export const findScopeMatches = async (
+  userId: string,
+  scope: SearchScope,
+  missionEmbedding: number[],
+  candidates: Profile[],
+  topN: number = 5,
+  minSimilarity: number = 0.0,
+  recency?: RecencyOptions
+): Promise<MatchResult[]> => {
+  const candidateIds = new Set(candidates.map(profile => profile.id));
+  const poolSize = getPoolSize(topN, recency);
+
+  const nearest = await findNearestProfiles(userId, missionEmbedding, { model: getEmbeddingModelId(), limit: poolSize, sessionIds: scope.sessionIds });
+  if (nearest) {
+    const pool = nearest.filter(profile => candidateIds.has(profile.id));
+    // If filters removed most of a full pool, better matches may lie beyond it
+    if (pool.length >= topN || nearest.length < poolSize) {
+      return findTopMatches(missionEmbedding, pool, topN, minSimilarity, recency);
+    }
+  }
+
+  const profiles = (await loadScopeProfiles(userId, scope, true)).filter(profile => candidateIds.has(profile.id));
+  return findTopMatchesIndexed(userId, missionEmbedding, profiles, topN, minSimilarity, recency);
+};
@@ -0,0 +1,107 @@
+import { getMissionFeedback, getRunFeedback, getProfilesByIds } from './utils';
+import { getEmbeddingModelId, needsEmbedding } from './embedding-cache';
+
+/**
+ * Relevance feedback
+ *
+ * Users mark matches of a saved run as relevant or irrelevant. Searching again
+ * for the run moves the query vector with Rocchio's method:
+ * alpha * query + beta * mean(relevant) - gamma * mean(irrelevant), all at unit
+ * length, so results drift towards the contacts the user liked. Contacts marked
+ * irrelevant in any run of the same mission are left out of later searches.
+ */
+
+export interface RocchioWeights {
+  alpha: number; // Original query
+  beta: number; // Relevant contacts
+  gamma: number; // Irrelevant contacts
+}
+
+export const ROCCHIO_WEIGHTS: RocchioWeights = { alpha: 1, beta: 0.75, gamma: 0.15 };
+
+export interface MissionFeedback {
+  relevantIds: string[]; // Verdicts of the run being re-ranked
+  irrelevantIds: string[];
+  rejectedIds: Set<string>; // Irrelevant in any run of the mission
+}
+
+const toUnitLength = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+// Mean of the unit-length vectors, or null if there are none
+const centroid = (vectors: number[][]): number[] | null => {
+  if (vectors.length === 0) return null;
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  vectors.forEach(vector => toUnitLength(vector).forEach((value, i) => {
+    sum[i] += value;
+  }));
+  return sum.map(value => value / vectors.length);
+};
+
+/**
+ * Move a query vector towards relevant and away from irrelevant examples
+ *
+ * @param query - Query embedding
+ * @param relevant - Embeddings of contacts marked relevant
+ * @param irrelevant - Embeddings of contacts marked irrelevant
+ * @param weights - Rocchio weights
+ * @returns Adjusted query at unit length; the query itself without feedback
+ */
+export const applyRocchio = (
+  query: number[],
+  relevant: number[][],
+  irrelevant: number[][],
+  weights: RocchioWeights = ROCCHIO_WEIGHTS
+): number[] => {
+  const relevantCentroid = centroid(relevant.filter(vector => vector.length === query.length));
+  const irrelevantCentroid = centroid(irrelevant.filter(vector => vector.length === query.length));
+  if (!relevantCentroid && !irrelevantCentroid) return query;
+
+  const adjusted = toUnitLength(query).map((value, i) => weights.alpha * value +
+    (relevantCentroid ? weights.beta * relevantCentroid[i] : 0) -
+    (irrelevantCentroid ? weights.gamma * irrelevantCentroid[i] : 0));
+  return toUnitLength(adjusted);
+};
+
+/**
+ * Load the feedback that applies to a search
+ *
+ * @param userId - User searching
+ * @param mission - Mission searched for
+ * @param runId - Saved run being re-ranked, whose verdicts adjust the query
+ * @returns Verdicts of the run and the contacts rejected for the mission
+ */
+export const loadMissionFeedback = async (userId: string, mission: string, runId?: string): Promise<MissionFeedback> => {
+  const [feedback, runFeedback] = await Promise.all([
+    getMissionFeedback(userId, mission),
+    runId ? getRunFeedback(userId, runId) : Promise.resolve([])
+  ]);
+  return {
+    relevantIds: runFeedback.filter(entry => entry.verdict === 'relevant').map(entry => entry.profileId),
+    irrelevantIds: runFeedback.filter(entry => entry.verdict === 'irrelevant').map(entry => entry.profileId),
+    rejectedIds: new Set(feedback.filter(entry => entry.verdict === 'irrelevant').map(entry => entry.profileId))
+  };
+};
+
+/**
+ * Adjust a query embedding with a run's verdicts
+ * Contacts without a current embedding are skipped.
+ *
+ * @param userId - Owner of the contacts
+ * @param query - Query embedding
+ * @param feedback - Feedback from loadMissionFeedback
+ * @returns Adjusted query embedding
+ */
+export const adjustQueryWithFeedback = async (userId: string, query: number[], feedback: MissionFeedback): Promise<number[]> => {
+  if (feedback.relevantIds.length === 0 && feedback.irrelevantIds.length === 0) return query;
+
+  const modelId = getEmbeddingModelId();
+  const profiles = (await getProfilesByIds([...feedback.relevantIds, ...feedback.irrelevantIds], userId))
+    .filter(profile => !needsEmbedding(profile, modelId));
+  const embeddingsOf = (ids: string[]): number[][] =>
+    profiles.filter(profile => ids.includes(profile.id)).map(profile => profile.embedding!);
+
+  return applyRocchio(query, embeddingsOf(feedback.relevantIds), embeddingsOf(feedback.irrelevantIds));
+};
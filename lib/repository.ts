@@ -0,0 +1,215 @@
+import { EmbeddingCacheEntry, EmbeddingJob, LinkedInProfile, MatchFeedback, MatchRun, MatchRunRevision, MatchRunRevisionSummary, MatchRunSummary, ProfileMergeLog, SavedColumnMapping, StoredVectorIndex, UploadJob, UserProfile, WorkspaceSettings } from './mongodb';
+
+/**
+ * Storage backends
+ *
+ * Persistence goes through these repositories instead of MongoDB collections so
+ * the app can run without Atlas. Business rules (entity resolution, history,
+ * merges) live in storage.ts; repositories only store and query documents.
+ *
+ * Backend selection (STORAGE_BACKEND):
+ * - `mongodb`: MongoDB Atlas (default when MONGODB_URI is set)
+ * - `memory`: in-process maps, lost on restart (used for tests)
+ * - `file`: in-process maps persisted to STORAGE_FILE_PATH (default .data/storage.json)
+ *
+ * `memory` and `file` are only used when set explicitly, so a deployment missing
+ * MONGODB_URI fails instead of losing uploads on restart.
+ */
+
+export type StorageBackend = 'mongodb' | 'memory' | 'file';
+
+/**
+ * Normalized and raw identifiers to look up entity resolution candidates by
+ */
+export interface IdentityLookup {
+  linkedinUrls: string[];
+  emails: string[];
+  names: string[];
+  rawLinkedinUrls: string[]; // Matched against records stored before identities were tracked
+  rawEmails: string[];
+  rawNames: string[];
+}
+
+/**
+ * Embedding to store on a profile, with the model and text it was generated from
+ */
+export interface ProfileEmbeddingUpdate {
+  uniqueKey: string;
+  embedding: number[];
+  embeddingModel?: string;
+  embeddingTextHash?: string;
+}
+
+/**
+ * Nearest neighbour query over a user's stored embeddings
+ */
+export interface ProfileVectorQuery {
+  embedding: number[];
+  model: string; // Only embeddings generated by this model ID are searched
+  limit: number;
+  sessionIds?: string[]; // Restrict to these upload sessions
+}
+
+/**
+ * Upload session (CSV upload, scraped profile, ...) holding some of a user's profiles
+ */
+export interface ProfileSessionSummary {
+  sessionId: string;
+  profileCount: number;
+  lastUploadedAt: Date;
+}
+
+export type MatchRunSortField = 'createdAt' | 'mission' | 'matchCount';
+
+/**
+ * Page of a user's saved match runs
+ */
+export interface MatchRunQuery {
+  limit: number;
+  offset: number;
+  sortBy: MatchRunSortField;
+  order: 'asc' | 'desc';
+}
+
+export interface ProfileRepository {
+  findByUser(userId: string): Promise<LinkedInProfile[]>;
+  findByUserWithoutEmbeddings(userId: string): Promise<LinkedInProfile[]>;
+  findBySession(userId: string, sessionId: string): Promise<LinkedInProfile[]>;
+  findBySessionWithoutEmbeddings(userId: string, sessionId: string): Promise<LinkedInProfile[]>;
+  findByKey(userId: string, uniqueKey: string): Promise<LinkedInProfile | null>;
+  findByIds(userId: string, ids: string[]): Promise<LinkedInProfile[]>;
+  findIdentityCandidates(userId: string, lookup: IdentityLookup): Promise<LinkedInProfile[]>;
+  findJobChanges(userId: string, since: Date, limit: number): Promise<LinkedInProfile[]>;
+  findDuplicateGroups(userId: string, limit: number): Promise<LinkedInProfile[][]>;
+  findLatestUploadSessionId(userId: string, excludeSessionId?: string): Promise<string | undefined>;
+  countBySession(userId: string, sessionId: string): Promise<number>;
+  findSessions(userId: string): Promise<ProfileSessionSummary[]>; // Most recently uploaded first
+  // Most similar profiles first, by database-side vector search; null if the backend has none available
+  findNearest(userId: string, query: ProfileVectorQuery): Promise<LinkedInProfile[] | null>;
+  // Up to `size` randomly chosen profiles embedded by this model ID
+  sampleEmbedded(userId: string, model: string, size: number): Promise<LinkedInProfile[]>;
+  upsertMany(profiles: LinkedInProfile[]): Promise<void>; // Replaces by uniqueKey
+  insert(profile: LinkedInProfile): Promise<void>;
+  setEmbeddings(userId: string, embeddings: ProfileEmbeddingUpdate[]): Promise<void>;
+  deleteByKey(userId: string, uniqueKey: string): Promise<void>;
+  deleteByUser(userId: string): Promise<void>;
+  deleteBySession(userId: string, sessionId: string): Promise<void>;
+  insertMerges(entries: ProfileMergeLog[]): Promise<void>;
+  findMerges(userId: string, limit: number): Promise<ProfileMergeLog[]>;
+  findOpenMerge(userId: string, mergeId: string): Promise<ProfileMergeLog | null>; // Not yet split
+  markMergeSplit(userId: string, mergeId: string, splitAt: Date): Promise<void>;
+}
+
+export interface MatchRepository {
+  findUserByEmail(email: string): Promise<UserProfile | null>;
+  insertUser(user: UserProfile): Promise<string>; // Returns the new user's ID
+  updateUser(email: string, update: Partial<UserProfile>): Promise<void>;
+  insertRun(run: MatchRun): Promise<void>;
+  upsertRuns(runs: MatchRun[]): Promise<void>; // Replaces by userId + id
+  findRuns(userId: string, query: MatchRunQuery): Promise<MatchRunSummary[]>; // Without the matches
+  countRuns(userId: string): Promise<number>;
+  findRun(userId: string, id: string): Promise<MatchRun | null>;
+  findRecentRun(userId: string, mission: string, matchCount: number, since: Date): Promise<MatchRun | null>;
+  deleteRun(userId: string, id: string): Promise<boolean>; // Also deletes its revisions and feedback
+  // Replaces the run only if it is still at `expectedRevision`
+  replaceRun(run: MatchRun, expectedRevision: number): Promise<boolean>;
+  // Archives a revision; a revision that is already archived is left as it is
+  insertRevision(revision: MatchRunRevision): Promise<void>;
+  findRevisions(userId: string, runId: string): Promise<MatchRunRevisionSummary[]>; // Newest first, without results
+  findRevision(userId: string, runId: string, revision: number): Promise<MatchRunRevision | null>;
+  upsertFeedback(feedback: MatchFeedback): Promise<void>; // Replaces by userId + runId + profileId
+  deleteFeedback(userId: string, runId: string, profileId: string): Promise<boolean>;
+  findRunFeedback(userId: string, runId: string): Promise<MatchFeedback[]>;
+  findMissionFeedback(userId: string, missionKey: string): Promise<MatchFeedback[]>;
+}
+
+export interface UploadRepository {
+  findColumnMapping(userId: string, headerSignature: string): Promise<SavedColumnMapping | null>;
+  saveColumnMapping(userId: string, headerSignature: string, mapping: Record<string, string>): Promise<void>;
+  insertJob(job: UploadJob): Promise<void>;
+  findJob(userId: string, jobId: string): Promise<UploadJob | null>;
+  // Applies the update only if the job still expects `expectedChunkIndex`
+  updateJob(userId: string, jobId: string, expectedChunkIndex: number, update: Partial<UploadJob>): Promise<boolean>;
+}
+
+export interface EmbeddingRepository {
+  findMany(model: string, textHashes: string[]): Promise<EmbeddingCacheEntry[]>;
+  upsertMany(entries: EmbeddingCacheEntry[]): Promise<void>; // Replaces by textHash + model
+  insertJob(job: EmbeddingJob): Promise<void>;
+  findJob(userId: string, jobId: string): Promise<EmbeddingJob | null>;
+  findLatestJob(userId: string, sessionId: string): Promise<EmbeddingJob | null>;
+  findDueJobs(now: Date, limit: number): Promise<EmbeddingJob[]>; // Queued or running, past backoff, not leased
+  // Leases a due job until `lockedUntil` and marks it running; null if it is not due or already leased
+  claimJob(userId: string, jobId: string, now: Date, lockedUntil: Date): Promise<EmbeddingJob | null>;
+  updateJob(userId: string, jobId: string, update: Partial<EmbeddingJob>): Promise<void>;
+  releaseJob(userId: string, jobId: string, update: Partial<EmbeddingJob>): Promise<void>; // Also clears the lease
+  findIndex(userId: string, model: string): Promise<StoredVectorIndex | null>;
+  saveIndex(index: StoredVectorIndex): Promise<void>; // Replaces by userId + model
+}
+
+export interface SettingsRepository {
+  find(userId: string): Promise<WorkspaceSettings | null>;
+  // Sets the given fields, creating the document if needed
+  save(userId: string, update: Partial<Omit<WorkspaceSettings, '_id' | 'userId' | 'updatedAt'>>): Promise<void>;
+  unset(userId: string, fields: (keyof Omit<WorkspaceSettings, '_id' | 'userId' | 'updatedAt'>)[]): Promise<void>;
+}
+
+export interface Repositories {
+  backend: StorageBackend;
+  profiles: ProfileRepository;
+  matches: MatchRepository;
+  uploads: UploadRepository;
+  embeddings: EmbeddingRepository;
+  settings: SettingsRepository;
+}
+
+let repositories: Repositories | null = null;
+
+/**
+ * Whether a storage backend is configured: MONGODB_URI, or STORAGE_BACKEND=memory|file
+ */
+export const isStorageConfigured = (): boolean => {
+  const configured = process.env.STORAGE_BACKEND;
+  return configured === 'memory' || configured === 'file' || !!process.env.MONGODB_URI;
+};
+
+/**
+ * Storage backend configured for this process
+ * Throws if neither MONGODB_URI nor STORAGE_BACKEND is set.
+ */
+export const getStorageBackend = (): StorageBackend => {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured === 'mongodb' || configured === 'memory' || configured === 'file') {
+    return configured;
+  }
+  if (!process.env.MONGODB_URI) {
+    throw new Error('Storage not configured. Please set MONGODB_URI, or STORAGE_BACKEND=memory or file.');
+  }
+  return 'mongodb';
+};
+
+/**
+ * Get the repositories for the configured backend (created once per process)
+ */
+export const getRepositories = async (): Promise<Repositories> => {
+  if (!repositories) {
+    const backend = getStorageBackend();
+    if (backend === 'mongodb') {
+      const { createMongoRepositories } = await import('./mongo-repository');
+      repositories = createMongoRepositories();
+    } else {
+      const { createMemoryRepositories } = await import('./memory-repository');
+      repositories = createMemoryRepositories(
+        backend === 'file' ? process.env.STORAGE_FILE_PATH || '.data/storage.json' : undefined
+      );
+    }
+  }
+  return repositories;
+};
+
+/**
+ * Replace the repositories, e.g. with a fresh in-memory store in tests
+ */
+export const setRepositories = (replacement: Repositories | null): void => {
+  repositories = replacement;
+};
@@ -0,0 +1,63 @@
+import { Profile, cosineSimilarity } from './utils';
+import { HybridMatchResult } from './hybrid-search';
+import { TaxonomyClassification } from './taxonomy';
+
+/**
+ * Match score breakdown
+ *
+ * Splits the ranking score of a dashboard search into the parts it is made of,
+ * so users can see why a contact ranks where it does: semantic and keyword
+ * relevance, their fusion, the recency and taxonomy boosts added to it, the
+ * filters the contact passed and how much relevance feedback moved its
+ * semantic similarity.
+ */
+
+export interface ScoreBreakdown {
+  semantic: number; // Cosine similarity to the query ranked with (0 if not embedded yet)
+  lexical: number; // BM25 relative to the best keyword hit (0-1)
+  fused: number; // Semantic and lexical relevance fused by the ranking method (0-1)
+  recencyBoost: number;
+  taxonomyBoost: number; // For sharing the mission's industry or role family
+  industryMatch: boolean;
+  roleMatch: boolean;
+  filterHits: string[]; // Filters the contact passed
+  feedbackAdjustment: number; // Change in semantic similarity from relevance feedback
+  total: number; // fused + recencyBoost + taxonomyBoost, the ranking score
+}
+
+export interface ScoreContext {
+  classification: TaxonomyClassification;
+  missionClassification: TaxonomyClassification;
+  filterHits: string[];
+  missionEmbedding: number[]; // Query before relevance feedback
+  feedbackApplied: boolean;
+}
+
+/**
+ * Explain the ranking score of a hybrid match
+ *
+ * @param match - Ranked match
+ * @param profile - Matched profile, with its embedding loaded
+ * @param context - Classifications, filters and the unadjusted query of the search
+ * @returns Score breakdown
+ */
+export const explainHybridMatch = (match: HybridMatchResult, profile: Profile, context: ScoreContext): ScoreBreakdown => {
+  const { classification, missionClassification } = context;
+  const embedding = profile.embedding;
+  const feedbackAdjustment = context.feedbackApplied && match.similarity !== 0 && embedding && embedding.length === context.missionEmbedding.length
+    ? match.similarity - cosineSimilarity(context.missionEmbedding, embedding)
+    : 0;
+
+  return {
+    semantic: match.similarity,
+    lexical: match.lexicalScore,
+    fused: match.fusedScore,
+    recencyBoost: match.recencyBoost,
+    taxonomyBoost: match.customBoost,
+    industryMatch: !!missionClassification.industry && classification.industry === missionClassification.industry,
+    roleMatch: !!missionClassification.roleFamily && classification.roleFamily === missionClassification.roleFamily,
+    filterHits: context.filterHits,
+    feedbackAdjustment,
+    total: match.score
+  };
+};
@@ -0,0 +1,123 @@
+import { Profile } from './utils';
+import { normalizeCompanyName } from './identity';
+import { findPlace, distanceKm, locationContains, Place } from './geo';
+import { TaxonomyClassification, TaxonomyFilter, matchesTaxonomyFilter } from './taxonomy';
+
+/**
+ * Structured search filters
+ *
+ * Hard constraints applied to contacts before ranking, next to the free-text
+ * mission. Every given filter must pass; list filters (industries, companies to
+ * include, ...) pass on any of their values.
+ */
+
+export interface LocationFilter {
+  query: string; // City, region or country as written in contact locations
+  radiusKm?: number; // Also accept contacts in known places within this distance (see geo)
+}
+
+export interface CompanyFilter {
+  include?: string[]; // Current company must match one of these
+  exclude?: string[]; // Current company must match none of these
+}
+
+export interface SearchFilters extends TaxonomyFilter {
+  location?: LocationFilter;
+  companies?: CompanyFilter;
+  connectedAfter?: string; // ISO date; contacts connected on or after
+  connectedBefore?: string; // ISO date; contacts connected on or before
+  hasEmail?: boolean;
+  enrichedOnly?: boolean;
+}
+
+/**
+ * Whether a contact has details beyond a connections export
+ * Enrichment (profile scraping, data exports) adds a summary, experience or skills.
+ */
+export const isEnriched = (profile: Profile): boolean =>
+  !!(profile.summary?.trim() || profile.experience?.trim() || (profile.skills && profile.skills.length > 0));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Company names match on whole words after normalization ("Google" matches "Google LLC" and "Google Cloud")
+const companyMatches = (company: string | undefined, names: string[]): boolean => {
+  const normalized = ` ${normalizeCompanyName(company || '')} `;
+  return names.some(name => {
+    const wanted = normalizeCompanyName(name);
+    return wanted.length > 0 && normalized.includes(` ${wanted} `);
+  });
+};
+
+/**
+ * Build a predicate checking contacts against search filters
+ *
+ * @param filters - Filters to apply
+ * @param classify - Taxonomy classification of a contact, for industry, role family and seniority filters
+ * @returns Predicate that is true for contacts passing every filter
+ */
+export const createProfileFilter = (
+  filters: SearchFilters,
+  classify: (profile: Profile) => TaxonomyClassification
+): ((profile: Profile) => boolean) => {
+  const { location, companies, connectedAfter, connectedBefore, hasEmail, enrichedOnly } = filters;
+  const center = location?.radiusKm !== undefined ? findPlace(location.query) : null;
+  const places = new Map<string, Place | null>(); // Contacts often share locations; resolve each once
+  const after = connectedAfter ? new Date(connectedAfter).getTime() : null;
+  // A bare date includes the whole day
+  const before = connectedBefore
+    ? new Date(connectedBefore).getTime() + (/^\d{4}-\d{2}-\d{2}$/.test(connectedBefore) ? DAY_MS - 1 : 0)
+    : null;
+
+  const isNearby = (profileLocation: string): boolean => {
+    if (!center || location?.radiusKm === undefined) return false;
+    if (!places.has(profileLocation)) {
+      places.set(profileLocation, findPlace(profileLocation));
+    }
+    const place = places.get(profileLocation);
+    return !!place && distanceKm(center, place) <= location.radiusKm;
+  };
+
+  return (profile: Profile): boolean => {
+    if (hasEmail && !profile.email?.trim()) return false;
+    if (enrichedOnly && !isEnriched(profile)) return false;
+
+    if (after !== null || before !== null) {
+      const connected = profile.connectedOn ? new Date(profile.connectedOn).getTime() : NaN;
+      if (isNaN(connected)) return false;
+      if (after !== null && connected < after) return false;
+      if (before !== null && connected > before) return false;
+    }
+
+    if (companies?.include?.length && !companyMatches(profile.company, companies.include)) return false;
+    if (companies?.exclude?.length && companyMatches(profile.company, companies.exclude)) return false;
+
+    if (location) {
+      const profileLocation = profile.location || '';
+      if (!locationContains(profileLocation, location.query) && !isNearby(profileLocation)) return false;
+    }
+
+    return matchesTaxonomyFilter(classify(profile), filters);
+  };
+};
+
+/**
+ * Names of the filters that are set
+ * Every contact that passed them hit each one, so ranking explanations list them.
+ *
+ * @param filters - Filters applied to a search
+ * @returns Filter names, such as 'industries' or 'location'
+ */
+export const getActiveFilters = (filters?: SearchFilters): string[] => {
+  if (!filters) return [];
+  const active: string[] = [];
+  if (filters.industries?.length) active.push('industries');
+  if (filters.roleFamilies?.length) active.push('roleFamilies');
+  if (filters.seniorities?.length) active.push('seniorities');
+  if (filters.location) active.push('location');
+  if (filters.companies?.include?.length || filters.companies?.exclude?.length) active.push('companies');
+  if (filters.connectedAfter) active.push('connectedAfter');
+  if (filters.connectedBefore) active.push('connectedBefore');
+  if (filters.hasEmail) active.push('hasEmail');
+  if (filters.enrichedOnly) active.push('enrichedOnly');
+  return active;
+};
@@ -0,0 +1,102 @@
+import { getWorkspaceSettings } from './utils';
+
+/**
+ * Search result paging
+ *
+ * Searches return `limit` matches starting at `offset` in the ranked list, and
+ * leave out matches below `minSimilarity`. A cursor is the opaque form of the
+ * next page's offset. Values a request leaves out come from the user's saved
+ * search defaults, then from the endpoint's own defaults.
+ */
+
+export interface SearchDefaults {
+  limit?: number; // Matches per page
+  minSimilarity?: number; // Cosine similarity threshold (0-1)
+}
+
+export interface SearchPage {
+  limit: number;
+  offset: number;
+  minSimilarity: number;
+}
+
+export interface SearchPageInfo extends SearchPage {
+  hasMore: boolean;
+  nextOffset?: number;
+  nextCursor?: string;
+}
+
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Encode the offset of a page as a cursor
+ */
+export const encodeSearchCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+/**
+ * Decode a cursor from encodeSearchCursor
+ *
+ * @param cursor - Cursor from a previous response
+ * @returns The page offset, or null if the cursor is invalid
+ */
+export const decodeSearchCursor = (cursor: string): number | null => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Saved search defaults of a user
+ *
+ * @param userId - Workspace owner
+ * @returns The saved defaults; empty if none were saved
+ */
+export const getSearchDefaults = async (userId: string): Promise<SearchDefaults> =>
+  (await getWorkspaceSettings(userId))?.searchDefaults || {};
+
+/**
+ * Resolve the page to return for a search request
+ *
+ * @param userId - User searching, whose saved defaults apply
+ * @param requested - Paging values given in the request
+ * @param fallback - The endpoint's defaults
+ * @returns Complete paging values
+ */
+export const resolveSearchPage = async (
+  userId: string,
+  requested: Partial<SearchPage>,
+  fallback: Required<SearchDefaults>
+): Promise<SearchPage> => {
+  const defaults = await getSearchDefaults(userId);
+  return {
+    limit: requested.limit ?? defaults.limit ?? fallback.limit,
+    offset: requested.offset ?? 0,
+    minSimilarity: requested.minSimilarity ?? defaults.minSimilarity ?? fallback.minSimilarity
+  };
+};
+
+/**
+ * Take a page out of ranked matches
+ * Rank `page.offset + page.limit + 1` matches so the extra one tells whether more follow.
+ *
+ * @param ranked - Matches ranked from the top of the list, best first
+ * @param page - Page to take
+ * @returns The page's matches and paging info for the response
+ */
+export const takeSearchPage = <T>(ranked: T[], page: SearchPage): { matches: T[]; pagination: SearchPageInfo } => {
+  const end = page.offset + page.limit;
+  const hasMore = ranked.length > end;
+  return {
+    matches: ranked.slice(page.offset, end),
+    pagination: {
+      ...page,
+      hasMore,
+      nextOffset: hasMore ? end : undefined,
+      nextCursor: hasMore ? encodeSearchCursor(end) : undefined
+    }
+  };
+};
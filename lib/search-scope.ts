@@ -0,0 +1,55 @@
+import { Profile, getProfileSessions, getAllProfiles, getProfilesWithoutEmbeddings, getProfilesBySession, getProfilesBySessionWithoutEmbeddings } from './utils';
+
+/**
+ * Search scope
+ *
+ * Searches cover all of a user's contacts unless they pick some of their
+ * sessions: CSV uploads (`upload-...`), single scraped profiles (`scrape-...`)
+ * and legacy `user-...` sessions. Session ownership is checked by the routes
+ * (see isUserSessionId).
+ */
+
+export interface SearchScope {
+  sessionIds?: string[]; // Omitted: every contact of the user
+}
+
+export type SessionSource = 'upload' | 'scrape' | 'user';
+
+export interface ScopeSession {
+  sessionId: string;
+  source: SessionSource; // CSV upload, single scraped profile, or legacy session
+  profileCount: number;
+  lastUploadedAt: Date;
+}
+
+/**
+ * Load the profiles in a search scope
+ *
+ * @param userId - Owner of the profiles
+ * @param scope - Sessions to load, or all of the user's profiles
+ * @param withEmbeddings - Whether to load embedding vectors (metadata is always loaded)
+ * @returns Profiles of the scope
+ */
+export const loadScopeProfiles = async (userId: string, scope: SearchScope, withEmbeddings: boolean): Promise<Profile[]> => {
+  if (!scope.sessionIds) {
+    return withEmbeddings ? getAllProfiles(userId) : getProfilesWithoutEmbeddings(userId);
+  }
+  const sessions = await Promise.all(scope.sessionIds.map(sessionId => withEmbeddings
+    ? getProfilesBySession(sessionId, userId)
+    : getProfilesBySessionWithoutEmbeddings(sessionId, userId)));
+  return sessions.flat();
+};
+
+/**
+ * List the sessions a user can search, most recent first
+ *
+ * @param userId - Owner of the sessions
+ * @returns Sessions with their source and number of contacts
+ */
+export const listScopeSessions = async (userId: string): Promise<ScopeSession[]> => {
+  const sessions = await getProfileSessions(userId);
+  return sessions.map(session => ({
+    ...session,
+    source: session.sessionId.startsWith('scrape-') ? 'scrape' : session.sessionId.startsWith('upload-') ? 'upload' : 'user'
+  }));
+};
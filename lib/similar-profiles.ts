@@ -0,0 +1,47 @@
+import { Profile } from './utils';
+import { getIdentityKey } from './identity';
+
+/**
+ * Similar-contact search
+ *
+ * Uses contacts instead of a mission as the query: the seed contacts' stored
+ * embeddings are averaged (each scaled to unit length, so every seed counts the
+ * same) and the nearest contacts of the network are returned. The seeds, and
+ * other records of the same people, are left out of the results.
+ */
+
+export const MAX_SEED_PROFILES = 20;
+
+/**
+ * Combine seed embeddings into one query vector
+ *
+ * @param seeds - Seed profiles with current embeddings loaded
+ * @returns Unit-length mean of the seed embeddings
+ */
+export const combineSeedEmbeddings = (seeds: Profile[]): number[] => {
+  const dimensions = seeds[0].embedding!.length;
+  const sum = new Array<number>(dimensions).fill(0);
+
+  seeds.forEach(seed => {
+    const embedding = seed.embedding!;
+    const norm = Math.sqrt(embedding.reduce((total, value) => total + value * value, 0)) || 1;
+    for (let i = 0; i < dimensions; i++) {
+      sum[i] += embedding[i] / norm;
+    }
+  });
+
+  const norm = Math.sqrt(sum.reduce((total, value) => total + value * value, 0)) || 1;
+  return sum.map(value => value / norm);
+};
+
+/**
+ * Build a predicate excluding the seeds from their own results
+ *
+ * @param seeds - Seed profiles
+ * @returns Predicate that is false for the seeds and other records of the same people
+ */
+export const createSeedExclusion = (seeds: Profile[]): ((profile: Profile) => boolean) => {
+  const seedIds = new Set(seeds.map(seed => seed.id));
+  const seedIdentities = new Set(seeds.map(seed => getIdentityKey(seed)));
+  return profile => !seedIds.has(profile.id) && !seedIdentities.has(getIdentityKey(profile));
+};
@@ -1,129 +1,331 @@
-import { Profile } from './utils';
-import { getDatabase, LinkedInProfile } from './mongodb';
+import { Profile, generateProfileText } from './utils';
+import { EmbeddingCacheEntry, EmbeddingJob, FeedbackVerdict, LinkedInProfile, MatchFeedback, MatchResult, MatchRun, MatchRunRevision, MatchRunRevisionSummary, MatchRunSummary, ProfileHistoryEntry, ProfileMergeLog, StoredVectorIndex, UploadJob, UserProfile, WorkspaceSettings } from './mongodb';
+import { ColumnMapping } from './column-mapping';
+import { IdentityMatchRule, getIdentityKey, getProfileIdentity, resolveIdentity } from './identity';
+import { MatchRunQuery, ProfileSessionSummary, getRepositories } from './repository';
 
-// Load profiles from MongoDB for a specific user
+/**
+ * A profile about to be written, with the stored record it resolved to
+ */
+export interface ResolvedProfile {
+  profile: Profile;
+  uniqueKey: string;
+  existing?: LinkedInProfile;
+  previous?: Profile; // `existing` as a Profile
+  combined?: Profile; // `profile` with its blank fields filled from `previous`, as it is stored
+  rule?: IdentityMatchRule;
+}
+
+const MAX_HISTORY_ENTRIES = 20;
+
+// Blank fields filled from the other record when two records of a person are combined
+const FILLABLE_FIELDS = ['title', 'company', 'location', 'industry', 'linkedinUrl', 'email', 'summary', 'experience', 'education', 'profilePicture', 'connectedOn', 'connectionNote', 'connectionSource'] as const;
+
+// Build the per-user storage key for a new profile from its strongest identifier
+const buildUniqueKey = (profile: Profile, userId: string): string => {
+  return `${userId}-${getIdentityKey(profile)}`;
+};
+
+const sameRole = (a: { title?: string; company?: string }, b: { title?: string; company?: string }): boolean =>
+  (a.title || '').trim().toLowerCase() === (b.title || '').trim().toLowerCase() &&
+  (a.company || '').trim().toLowerCase() === (b.company || '').trim().toLowerCase();
+
+/**
+ * Append the incoming title/company/location to the stored record's history
+ * Blank incoming roles (files without those columns) are not treated as a change.
+ */
+const buildHistory = (
+  profile: Profile,
+  existing: LinkedInProfile | undefined,
+  source: ProfileHistoryEntry['source']
+): Pick<LinkedInProfile, 'history' | 'jobChangedAt'> => {
+  const now = new Date();
+  const history: ProfileHistoryEntry[] = existing?.history?.length
+    ? [...existing.history]
+    : existing
+      ? [{ title: existing.title || '', company: existing.company || '', location: existing.location || '', observedAt: existing.uploadedAt || now, source: 'import' }]
+      : [];
+
+  const current = { title: profile.title || '', company: profile.company || '', location: profile.location || '' };
+  const last = history[history.length - 1];
+  const hasRole = !!(current.title || current.company);
+  let jobChangedAt = existing?.jobChangedAt;
+
+  if (!last) {
+    history.push({ ...current, observedAt: now, source });
+  } else if (hasRole && (!sameRole(last, current) || (current.location && current.location !== last.location))) {
+    if (!sameRole(last, current) && (last.title || last.company)) {
+      jobChangedAt = now;
+    }
+    history.push({ ...current, observedAt: now, source });
+  }
+
+  return { history: history.slice(-MAX_HISTORY_ENTRIES), jobChangedAt };
+};
+
+/**
+ * Fill the blank fields of an incoming profile from the stored record it updates
+ * Partial rows (e.g. a CRM export with only emails) add to what is known about a
+ * contact instead of erasing it, and its stored identifiers keep matching it.
+ */
+const fillFromStored = (profile: Profile, previous: Profile): Profile => {
+  const combined: Profile = { ...profile };
+  for (const field of FILLABLE_FIELDS) {
+    if (!combined[field] && previous[field]) {
+      combined[field] = previous[field];
+    }
+  }
+  if (!combined.skills?.length) {
+    combined.skills = previous.skills;
+  }
+  combined.messageCount = profile.messageCount ?? previous.messageCount;
+  if (previous.lastMessagedAt && (!profile.lastMessagedAt || previous.lastMessagedAt > profile.lastMessagedAt)) {
+    combined.lastMessagedAt = previous.lastMessagedAt;
+  }
+  return combined;
+};
+
+// Convert a Profile into the LinkedInProfile document stored in MongoDB
+const toLinkedInProfile = (
+  profile: Profile,
+  userId: string,
+  uniqueKey: string = buildUniqueKey(profile, userId),
+  existing?: LinkedInProfile,
+  source: ProfileHistoryEntry['source'] = 'import'
+): LinkedInProfile => ({
+  // Incoming IDs are new on every import; feedback and runs refer to the stored one
+  id: existing?.id || profile.id,
+  userId: userId,
+  name: profile.name,
+  title: profile.title || '',
+  company: profile.company || '',
+  location: profile.location || '',
+  industry: profile.industry || '',
+  linkedinUrl: profile.linkedinUrl || '',
+  email: profile.email || '',
+  summary: profile.summary || '',
+  experience: profile.experience || '',
+  education: profile.education || '',
+  skills: profile.skills || [],
+  profilePicture: profile.profilePicture || '',
+  messageCount: profile.messageCount,
+  lastMessagedAt: profile.lastMessagedAt,
+  connectedOn: profile.connectedOn,
+  connectionNote: profile.connectionNote,
+  connectionSource: profile.connectionSource,
+  uploadSessionId: profile.uploadSessionId,
+  embedding: profile.embedding,
+  embeddingModel: profile.embeddingModel,
+  embeddingTextHash: profile.embeddingTextHash,
+  uploadedAt: new Date(),
+  lastUpdated: new Date(),
+  uniqueKey,
+  identity: getProfileIdentity(profile),
+  ...buildHistory(profile, existing, source)
+});
+
+// Convert a stored LinkedInProfile document back into a Profile
+const toProfile = (profile: LinkedInProfile): Profile => {
+  const converted: Profile = {
+    id: profile.id,
+    name: profile.name,
+    title: profile.title,
+    company: profile.company,
+    location: profile.location,
+    industry: profile.industry,
+    linkedinUrl: profile.linkedinUrl,
+    email: profile.email,
+    summary: profile.summary,
+    experience: profile.experience,
+    education: profile.education,
+    skills: profile.skills,
+    profilePicture: profile.profilePicture,
+    messageCount: profile.messageCount,
+    lastMessagedAt: profile.lastMessagedAt,
+    connectedOn: profile.connectedOn,
+    connectionNote: profile.connectionNote,
+    connectionSource: profile.connectionSource,
+    uploadSessionId: profile.uploadSessionId,
+    embeddingModel: profile.embeddingModel,
+    embeddingTextHash: profile.embeddingTextHash,
+    history: profile.history?.map(({ title, company, location, observedAt }) => ({
+      title,
+      company,
+      location,
+      observedAt: new Date(observedAt).toISOString()
+    })),
+    jobChangedAt: profile.jobChangedAt ? new Date(profile.jobChangedAt).toISOString() : undefined
+  };
+
+  // Preserve existing embeddings; packed ones stay undecoded until read
+  const embedding = Object.getOwnPropertyDescriptor(profile, 'embedding');
+  if (embedding?.get) {
+    Object.defineProperty(converted, 'embedding', embedding);
+  } else {
+    converted.embedding = profile.embedding || [];
+  }
+  return converted;
+};
+
+// Drop the embedding and _id from a document kept in the merge log
+const toMergeSnapshot = (profile: LinkedInProfile): Omit<LinkedInProfile, 'embedding'> => {
+  const snapshot = { ...profile };
+  delete snapshot.embedding;
+  delete snapshot._id;
+  return snapshot;
+};
+
+const generateMergeId = (userId: string): string => {
+  return `merge-${userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Resolve incoming profiles to the stored records they would update
+ *
+ * @param profiles - Incoming profiles
+ * @param userId - Owner of the profiles
+ * @returns Each profile with its storage key and the matched stored record, if any
+ */
+export const resolveProfiles = async (profiles: Profile[], userId: string): Promise<ResolvedProfile[]> => {
+  if (profiles.length === 0) {
+    return [];
+  }
+
+  // Each profile keeps the key of the stored record it matches (by LinkedIn URL,
+  // email, or an unambiguous name + company), so re-imports update the same person
+  // instead of creating duplicates or merging namesakes
+  const identities = profiles.map(getProfileIdentity);
+  const { profiles: repository } = await getRepositories();
+  const candidates = await repository.findIdentityCandidates(userId, {
+    linkedinUrls: identities.map(identity => identity.linkedinUrl).filter((url): url is string => !!url),
+    emails: identities.map(identity => identity.email).filter((email): email is string => !!email),
+    names: identities.map(identity => identity.name).filter(Boolean),
+    rawLinkedinUrls: profiles.map(profile => profile.linkedinUrl).filter((url): url is string => !!url),
+    rawEmails: profiles.map(profile => profile.email).filter((email): email is string => !!email),
+    rawNames: profiles.map(profile => profile.name)
+  });
+
+  // A stored record goes to one person per batch: rows of the same person share it,
+  // other people that also match it (e.g. namesakes with different URLs matching a
+  // record without one) get their own record instead of overwriting each other
+  const claimedBy = new Map<string, string>(); // Stored uniqueKey -> identity key of the profile it went to
+  return profiles.map(profile => {
+    const identityKey = getIdentityKey(profile);
+    const available = candidates.filter(candidate => {
+      const owner = claimedBy.get(candidate.uniqueKey);
+      return owner === undefined || owner === identityKey;
+    });
+    const resolved = resolveIdentity(profile, available, candidate => !candidate.splitFrom);
+    if (!resolved) {
+      return { profile, uniqueKey: buildUniqueKey(profile, userId) };
+    }
+    claimedBy.set(resolved.match.uniqueKey, identityKey);
+    const previous = toProfile(resolved.match);
+    return {
+      profile,
+      uniqueKey: resolved.match.uniqueKey,
+      existing: resolved.match,
+      previous,
+      combined: fillFromStored(profile, previous),
+      rule: resolved.rule
+    };
+  });
+};
+
+/**
+ * Record merges of distinct records in the merge log so they can be split later
+ * Only incoming profiles that would have had a record of their own (another
+ * identity than the stored record, e.g. an email-only record joining one with
+ * a URL) are logged; updates of the same person, such as job changes, are not.
+ */
+const logImportMerges = async (resolved: ResolvedProfile[], userId: string): Promise<void> => {
+  const entries: ProfileMergeLog[] = resolved
+    .filter(({ profile, uniqueKey, existing }) => existing &&
+      getIdentityKey(existing) !== getIdentityKey(profile) &&
+      buildUniqueKey(profile, userId) !== uniqueKey)
+    .map(({ profile, uniqueKey, existing, rule }) => ({
+      mergeId: generateMergeId(userId),
+      userId,
+      survivorKey: uniqueKey,
+      mergedKey: buildUniqueKey(profile, userId),
+      rule: rule!,
+      source: 'import',
+      survivorName: profile.name,
+      mergedName: existing!.name,
+      merged: toMergeSnapshot(existing!),
+      createdAt: new Date()
+    }));
+
+  const { profiles: repository } = await getRepositories();
+  await repository.insertMerges(entries);
+};
+
+// Load profiles for a specific user
 export const loadProfiles = async (userId: string): Promise<Profile[]> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
-    const profiles = await profilesCollection.find({ userId }).toArray();
+    const { profiles: repository } = await getRepositories();
+    const profiles = await repository.findByUser(userId);
     
     // Convert LinkedInProfile to Profile format
-    return profiles.map((profile: LinkedInProfile) => ({
-      id: profile.id,
-      name: profile.name,
-      title: profile.title,
-      company: profile.company,
-      location: profile.location,
-      industry: profile.industry,
-      linkedinUrl: profile.linkedinUrl,
-      email: profile.email,
-      summary: profile.summary,
-      experience: profile.experience,
-      education: profile.education,
-      skills: profile.skills,
-      profilePicture: profile.profilePicture,
-      uploadSessionId: profile.uploadSessionId,
-      embedding: profile.embedding || [] // Preserve existing embeddings
-    }));
+    return profiles.map(toProfile);
   } catch (error) {
-    console.error('Error loading profiles from MongoDB:', error);
+    console.error('Error loading profiles from storage:', error);
     // Return empty array instead of throwing to prevent app crashes
     return [];
   }
 };
 
-// Save profiles to MongoDB with user isolation and duplicate prevention
+// Save profiles with user isolation and duplicate prevention
 export const saveProfiles = async (profiles: Profile[], userId: string): Promise<void> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
+    const { profiles: repository } = await getRepositories();
     
     console.log(`Saving ${profiles.length} profiles to database for user ${userId}...`);
     
-    // Convert Profile to LinkedInProfile format and upsert with duplicate prevention
-    for (const profile of profiles) {
-      const uniqueKey = `${userId}-${profile.name.toLowerCase().trim()}-${(profile.company || 'unknown').toLowerCase().trim()}`;
-      
-      const linkedinProfile: LinkedInProfile = {
-        id: profile.id,
-        userId: userId,
-        name: profile.name,
-        title: profile.title || '',
-        company: profile.company || '',
-        location: profile.location || '',
-        industry: profile.industry || '',
-        linkedinUrl: profile.linkedinUrl || '',
-        email: profile.email || '',
-        summary: profile.summary || '',
-        experience: profile.experience || '',
-        education: profile.education || '',
-        skills: profile.skills || [],
-        profilePicture: profile.profilePicture || '',
-        uploadSessionId: profile.uploadSessionId,
-        embedding: profile.embedding,
-        uploadedAt: new Date(),
-        lastUpdated: new Date(),
-        uniqueKey: uniqueKey
-      };
-      
-      // Use uniqueKey for upsert to prevent duplicates
-      const result = await profilesCollection.replaceOne(
-        { uniqueKey: uniqueKey },
-        linkedinProfile,
-        { upsert: true }
-      );
-      
-      if (profile.embedding && profile.embedding.length > 0) {
-        console.log(`Saved profile ${profile.name} with embedding (${profile.embedding.length} dimensions)`);
-      }
-    }
+    // Resolve each profile to the stored record it belongs to
+    const resolved = await resolveProfiles(profiles, userId);
+    await logImportMerges(resolved, userId);
+    
+    // Convert Profile to LinkedInProfile format and upsert on uniqueKey to prevent duplicates
+    await repository.upsertMany(resolved.map(({ profile, combined, uniqueKey, existing }) => toLinkedInProfile(combined || profile, userId, uniqueKey, existing)));
     
-    console.log('All profiles saved successfully');
+    const withEmbeddings = profiles.filter(profile => profile.embedding && profile.embedding.length > 0).length;
+    console.log(`All profiles saved successfully (${withEmbeddings} with embeddings)`);
   } catch (error) {
-    console.error('Error saving profiles to MongoDB:', error);
+    console.error('Error saving profiles to storage:', error);
     throw error;
   }
 };
 
 // Add a single profile with user isolation and duplicate prevention
-export const addProfile = async (profile: Profile, userId: string): Promise<void> => {
+// `source` records whether title/company changes came from an import or profile enrichment;
+// enrichment updates a stored contact in place, in its upload session
+// Returns the profile as stored
+export const addProfile = async (profile: Profile, userId: string, source: ProfileHistoryEntry['source'] = 'import'): Promise<Profile> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
+    const { profiles: repository } = await getRepositories();
     
-    const uniqueKey = `${userId}-${profile.name.toLowerCase().trim()}-${(profile.company || 'unknown').toLowerCase().trim()}`;
-    
-    const linkedinProfile: LinkedInProfile = {
-      id: profile.id,
-      userId: userId,
-      name: profile.name,
-      title: profile.title || '',
-      company: profile.company || '',
-      location: profile.location || '',
-      industry: profile.industry || '',
-      linkedinUrl: profile.linkedinUrl || '',
-      email: profile.email || '',
-      summary: profile.summary || '',
-      experience: profile.experience || '',
-      education: profile.education || '',
-      skills: profile.skills || [],
-      profilePicture: profile.profilePicture || '',
-      uploadSessionId: profile.uploadSessionId,
-      embedding: profile.embedding,
-      uploadedAt: new Date(),
-      lastUpdated: new Date(),
-      uniqueKey: uniqueKey
-    };
+    const [resolved] = await resolveProfiles([profile], userId);
+    await logImportMerges([resolved], userId);
+
+    const { combined, previous } = resolved;
+    if (source === 'enrichment' && combined && previous) {
+      combined.uploadSessionId = previous.uploadSessionId;
+      // Keep the embedding while the embedded profile text is unchanged
+      const combinedText = generateProfileText({ ...combined, history: previous.history });
+      if (previous.embedding && previous.embedding.length > 0 && generateProfileText(previous) === combinedText) {
+        combined.embedding = previous.embedding;
+        combined.embeddingModel = previous.embeddingModel;
+        combined.embeddingTextHash = previous.embeddingTextHash;
+      }
+    }
     
-    // Use uniqueKey for upsert to prevent duplicates
-    await profilesCollection.replaceOne(
-      { uniqueKey: uniqueKey },
-      linkedinProfile,
-      { upsert: true }
-    );
+    // Upsert on uniqueKey to prevent duplicates
+    const document = toLinkedInProfile(combined || profile, userId, resolved.uniqueKey, resolved.existing, source);
+    await repository.upsertMany([document]);
+    return toProfile(document);
   } catch (error) {
-    console.error('Error adding profile to MongoDB:', error);
+    console.error('Error adding profile to storage:', error);
     throw error;
   }
 };
@@ -131,91 +333,236 @@ export const addProfile = async (profile: Profile, userId: string): Promise<void
 // Add multiple profiles efficiently with user isolation and duplicate prevention
 export const addProfiles = async (newProfiles: Profile[], userId: string): Promise<void> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
+    const { profiles: repository } = await getRepositories();
     
-    // Convert Profile to LinkedInProfile format with duplicate prevention
-    const linkedinProfiles: LinkedInProfile[] = newProfiles.map(profile => {
-      const uniqueKey = `${userId}-${profile.name.toLowerCase().trim()}-${(profile.company || 'unknown').toLowerCase().trim()}`;
-      
-      return {
-        id: profile.id,
-        userId: userId,
-        name: profile.name,
-        title: profile.title || '',
-        company: profile.company || '',
-        location: profile.location || '',
-        industry: profile.industry || '',
-        linkedinUrl: profile.linkedinUrl || '',
-        email: profile.email || '',
-        summary: profile.summary || '',
-        experience: profile.experience || '',
-        education: profile.education || '',
-        skills: profile.skills || [],
-        profilePicture: profile.profilePicture || '',
-        uploadSessionId: profile.uploadSessionId,
-        embedding: profile.embedding,
-        uploadedAt: new Date(),
-        lastUpdated: new Date(),
-        uniqueKey: uniqueKey
-      };
-    });
-    
-    // Use bulkWrite for efficient upsert operations
-    const operations = linkedinProfiles.map(profile => ({
-      replaceOne: {
-        filter: { uniqueKey: profile.uniqueKey },
-        replacement: profile,
-        upsert: true
-      }
-    }));
+    // Resolve each profile to the stored record it belongs to
+    const resolved = await resolveProfiles(newProfiles, userId);
+    await logImportMerges(resolved, userId);
     
-    await profilesCollection.bulkWrite(operations);
+    // Convert Profile to LinkedInProfile format and upsert on uniqueKey to prevent duplicates
+    await repository.upsertMany(resolved.map(({ profile, combined, uniqueKey, existing }) => toLinkedInProfile(combined || profile, userId, uniqueKey, existing)));
   } catch (error) {
-    console.error('Error adding profiles to MongoDB:', error);
+    console.error('Error adding profiles to storage:', error);
     throw error;
   }
 };
 
+// Store newly generated embeddings on the records the profiles resolve to
+export const saveProfileEmbeddings = async (profiles: Profile[], userId: string): Promise<void> => {
+  const withEmbeddings = profiles.filter(profile => profile.embedding && profile.embedding.length > 0);
+  const resolved = await resolveProfiles(withEmbeddings, userId);
+  const { profiles: repository } = await getRepositories();
+  await repository.setEmbeddings(userId, resolved
+    .filter(({ existing }) => existing)
+    .map(({ profile, uniqueKey }) => ({
+      uniqueKey,
+      embedding: profile.embedding!,
+      embeddingModel: profile.embeddingModel,
+      embeddingTextHash: profile.embeddingTextHash
+    })));
+};
+
+// Get the user's contacts whose title or company changed since the given date, most recent first
+export const getRecentJobChanges = async (userId: string, since: Date, limit: number = 50): Promise<Profile[]> => {
+  try {
+    const { profiles: repository } = await getRepositories();
+    const profiles = await repository.findJobChanges(userId, since, limit);
+    return profiles.map(toProfile);
+  } catch (error) {
+    console.error('Error loading recent job changes from storage:', error);
+    return [];
+  }
+};
+
+// List groups of the user's profiles that share a normalized name, as merge suggestions
+export const findDuplicateProfiles = async (userId: string, limit: number = 50): Promise<LinkedInProfile[][]> => {
+  const { profiles: repository } = await getRepositories();
+  return repository.findDuplicateGroups(userId, limit);
+};
+
+// Get the user's merge log, newest first
+export const getMergeLog = async (userId: string, limit: number = 100): Promise<ProfileMergeLog[]> => {
+  const { profiles: repository } = await getRepositories();
+  return repository.findMerges(userId, limit);
+};
+
+/**
+ * Manually merge one stored record into another
+ * Empty fields on the survivor are filled from the merged record and skills are
+ * combined; the merged record is removed and kept in the merge log for splitting.
+ *
+ * @returns The merge log entry, or null when either record is not found
+ */
+export const mergeProfileRecords = async (userId: string, survivorKey: string, mergedKey: string): Promise<ProfileMergeLog | null> => {
+  const { profiles: repository } = await getRepositories();
+
+  const [survivor, merged] = await Promise.all([
+    repository.findByKey(userId, survivorKey),
+    repository.findByKey(userId, mergedKey)
+  ]);
+  if (!survivor || !merged) {
+    return null;
+  }
+
+  const combined: LinkedInProfile = { ...survivor };
+  for (const field of FILLABLE_FIELDS) {
+    if (!combined[field] && merged[field]) {
+      combined[field] = merged[field];
+    }
+  }
+  combined.skills = Array.from(new Set([...(survivor.skills || []), ...(merged.skills || [])]));
+  combined.messageCount = (survivor.messageCount || 0) + (merged.messageCount || 0) || undefined;
+  if (merged.lastMessagedAt && (!survivor.lastMessagedAt || merged.lastMessagedAt > survivor.lastMessagedAt)) {
+    combined.lastMessagedAt = merged.lastMessagedAt;
+  }
+  combined.identity = getProfileIdentity(combined);
+  // Profile text changed; regenerated on the next search
+  combined.embedding = undefined;
+  combined.embeddingModel = undefined;
+  combined.embeddingTextHash = undefined;
+  combined.lastUpdated = new Date();
+
+  const entry: ProfileMergeLog = {
+    mergeId: generateMergeId(userId),
+    userId,
+    survivorKey,
+    mergedKey,
+    rule: 'manual',
+    source: 'manual',
+    survivorName: survivor.name,
+    mergedName: merged.name,
+    merged: toMergeSnapshot(merged),
+    survivorBefore: toMergeSnapshot(survivor),
+    createdAt: new Date()
+  };
+
+  await repository.upsertMany([combined]);
+  await repository.deleteByKey(userId, mergedKey);
+  await repository.insertMerges([entry]);
+  return entry;
+};
+
+/**
+ * Split a merge: restore the absorbed record as its own contact
+ * Restored records are excluded from name-only matching so the next import
+ * does not merge them again.
+ *
+ * @returns The updated merge log entry, or null when the merge is not found or already split
+ */
+export const splitProfileRecord = async (userId: string, mergeId: string): Promise<ProfileMergeLog | null> => {
+  const { profiles: repository } = await getRepositories();
+
+  const entry = await repository.findOpenMerge(userId, mergeId);
+  if (!entry) {
+    return null;
+  }
+
+  // Reuse the original key unless the survivor still holds it
+  const keyTaken = !!(await repository.findByKey(userId, entry.merged.uniqueKey));
+  const restored: LinkedInProfile = {
+    ...entry.merged,
+    uniqueKey: keyTaken ? `${userId}-split-${mergeId}` : entry.merged.uniqueKey,
+    splitFrom: mergeId,
+    lastUpdated: new Date()
+  };
+  await repository.insert(restored);
+
+  if (entry.survivorBefore) {
+    await repository.upsertMany([{ ...entry.survivorBefore, lastUpdated: new Date() }]);
+  }
+
+  const splitAt = new Date();
+  await repository.markMergeSplit(userId, mergeId, splitAt);
+  return { ...entry, splitAt };
+};
+
+// Find the user's most recent upload session other than the given one
+export const getLatestUploadSessionId = async (userId: string, excludeSessionId?: string): Promise<string | undefined> => {
+  const { profiles: repository } = await getRepositories();
+  return repository.findLatestUploadSessionId(userId, excludeSessionId);
+};
+
+// Count profiles remaining in an upload session
+export const countProfilesBySession = async (sessionId: string, userId: string): Promise<number> => {
+  const { profiles: repository } = await getRepositories();
+  return repository.countBySession(userId, sessionId);
+};
+
 // Get all profiles for a specific user (async version)
 export const getAllProfiles = async (userId: string): Promise<Profile[]> => {
   return await loadProfiles(userId);
 };
 
+// Get all profiles for a user without their embedding vectors (embedding metadata is kept)
+export const getProfilesWithoutEmbeddings = async (userId: string): Promise<Profile[]> => {
+  const { profiles: repository } = await getRepositories();
+  const profiles = await repository.findByUserWithoutEmbeddings(userId);
+  return profiles.map(toProfile);
+};
+
+// Get an upload session's profiles without their embedding vectors (embedding metadata is kept)
+export const getProfilesBySessionWithoutEmbeddings = async (sessionId: string, userId: string): Promise<Profile[]> => {
+  const { profiles: repository } = await getRepositories();
+  const profiles = await repository.findBySessionWithoutEmbeddings(userId, sessionId);
+  return profiles.map(toProfile);
+};
+
+// Find the user's profiles nearest to an embedding with database vector search; null if unavailable
+export const findNearestProfiles = async (
+  userId: string,
+  embedding: number[],
+  options: { model: string; limit: number; sessionIds?: string[] }
+): Promise<Profile[] | null> => {
+  const { profiles: repository } = await getRepositories();
+  const profiles = await repository.findNearest(userId, { embedding, ...options });
+  return profiles && profiles.map(toProfile);
+};
+
+// Get up to `size` randomly chosen profiles of the user embedded by a model, with their embeddings
+export const sampleEmbeddedProfiles = async (userId: string, model: string, size: number): Promise<Profile[]> => {
+  const { profiles: repository } = await getRepositories();
+  const profiles = await repository.sampleEmbedded(userId, model, size);
+  return profiles.map(toProfile);
+};
+
+// Look up cached embeddings of texts for a model
+export const findCachedEmbeddings = async (model: string, textHashes: string[]): Promise<EmbeddingCacheEntry[]> => {
+  const { embeddings } = await getRepositories();
+  return embeddings.findMany(model, textHashes);
+};
+
+// Add embeddings to the cache
+export const saveCachedEmbeddings = async (entries: EmbeddingCacheEntry[]): Promise<void> => {
+  const { embeddings } = await getRepositories();
+  await embeddings.upsertMany(entries);
+};
+
+// List the upload sessions holding a user's profiles, most recent first
+export const getProfileSessions = async (userId: string): Promise<ProfileSessionSummary[]> => {
+  const { profiles: repository } = await getRepositories();
+  return repository.findSessions(userId);
+};
+
+// Get profiles by ID with user isolation, with embeddings
+export const getProfilesByIds = async (ids: string[], userId: string): Promise<Profile[]> => {
+  const { profiles: repository } = await getRepositories();
+  return (await repository.findByIds(userId, ids)).map(toProfile);
+};
+
 // Get profiles by upload session with user isolation
 export const getProfilesBySession = async (sessionId: string, userId: string): Promise<Profile[]> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
-    const profiles = await profilesCollection.find({ 
-      uploadSessionId: sessionId,
-      userId: userId 
-    }).toArray();
+    const { profiles: repository } = await getRepositories();
+    const profiles = await repository.findBySession(userId, sessionId);
     
     console.log(`Loaded ${profiles.length} profiles for session ${sessionId} and user ${userId}`);
     const profilesWithEmbeddings = profiles.filter((p: LinkedInProfile) => p.embedding && p.embedding.length > 0);
     console.log(`${profilesWithEmbeddings.length} profiles have embeddings`);
     
     // Convert LinkedInProfile to Profile format
-    return profiles.map((profile: LinkedInProfile) => ({
-      id: profile.id,
-      name: profile.name,
-      title: profile.title,
-      company: profile.company,
-      location: profile.location,
-      industry: profile.industry,
-      linkedinUrl: profile.linkedinUrl,
-      email: profile.email,
-      summary: profile.summary,
-      experience: profile.experience,
-      education: profile.education,
-      skills: profile.skills,
-      profilePicture: profile.profilePicture,
-      uploadSessionId: profile.uploadSessionId,
-      embedding: profile.embedding || [] // Preserve existing embeddings
-    }));
+    return profiles.map(toProfile);
   } catch (error) {
-    console.error('Error loading profiles by session from MongoDB:', error);
+    console.error('Error loading profiles by session from storage:', error);
     return [];
   }
 };
@@ -223,24 +570,341 @@ export const getProfilesBySession = async (sessionId: string, userId: string): P
 // Clear all profiles for a specific user
 export const clearProfiles = async (userId: string): Promise<void> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
-    await profilesCollection.deleteMany({ userId });
+    const { profiles: repository } = await getRepositories();
+    await repository.deleteByUser(userId);
   } catch (error) {
-    console.error('Error clearing profiles from MongoDB:', error);
+    console.error('Error clearing profiles from storage:', error);
   }
 };
 
 // Clear profiles by session with user isolation
 export const clearProfilesBySession = async (sessionId: string, userId: string): Promise<void> => {
   try {
-    const db = await getDatabase();
-    const profilesCollection = db.collection<LinkedInProfile>('profiles');
-    await profilesCollection.deleteMany({ 
-      uploadSessionId: sessionId,
-      userId: userId 
-    });
+    const { profiles: repository } = await getRepositories();
+    await repository.deleteBySession(userId, sessionId);
+  } catch (error) {
+    console.error('Error clearing profiles by session from storage:', error);
+  }
+};
+
+// Load the column mapping a user last confirmed for a given CSV header layout
+export const loadColumnMapping = async (userId: string, headerSignature: string): Promise<ColumnMapping | null> => {
+  try {
+    const { uploads } = await getRepositories();
+    const saved = await uploads.findColumnMapping(userId, headerSignature);
+    return saved ? (saved.mapping as ColumnMapping) : null;
   } catch (error) {
-    console.error('Error clearing profiles by session from MongoDB:', error);
+    console.error('Error loading column mapping from storage:', error);
+    return null;
   }
 };
+
+// Remember a confirmed column mapping for future uploads with the same headers
+export const saveColumnMapping = async (userId: string, headerSignature: string, mapping: ColumnMapping): Promise<void> => {
+  try {
+    const { uploads } = await getRepositories();
+    await uploads.saveColumnMapping(userId, headerSignature, mapping as Record<string, string>);
+  } catch (error) {
+    console.error('Error saving column mapping to storage:', error);
+  }
+};
+
+// Create a chunked upload job
+export const createUploadJob = async (job: UploadJob): Promise<void> => {
+  const { uploads } = await getRepositories();
+  await uploads.insertJob(job);
+};
+
+// Get a chunked upload job with user isolation
+export const getUploadJob = async (jobId: string, userId: string): Promise<UploadJob | null> => {
+  const { uploads } = await getRepositories();
+  return uploads.findJob(userId, jobId);
+};
+
+// Apply progress to an upload job, only if no other request advanced it first
+export const updateUploadJob = async (
+  jobId: string,
+  userId: string,
+  expectedChunkIndex: number,
+  update: Partial<UploadJob>
+): Promise<boolean> => {
+  const { uploads } = await getRepositories();
+  return uploads.updateJob(userId, jobId, expectedChunkIndex, update);
+};
+
+// Create a background embedding job
+export const createEmbeddingJob = async (job: EmbeddingJob): Promise<void> => {
+  const { embeddings } = await getRepositories();
+  await embeddings.insertJob(job);
+};
+
+// Get an embedding job with user isolation
+export const getEmbeddingJob = async (jobId: string, userId: string): Promise<EmbeddingJob | null> => {
+  const { embeddings } = await getRepositories();
+  return embeddings.findJob(userId, jobId);
+};
+
+// Get the most recent embedding job of an upload session
+export const getLatestEmbeddingJob = async (sessionId: string, userId: string): Promise<EmbeddingJob | null> => {
+  const { embeddings } = await getRepositories();
+  return embeddings.findLatestJob(userId, sessionId);
+};
+
+// Find embedding jobs of any user that are ready to run
+export const getDueEmbeddingJobs = async (limit: number): Promise<EmbeddingJob[]> => {
+  const { embeddings } = await getRepositories();
+  return embeddings.findDueJobs(new Date(), limit);
+};
+
+// Lease an embedding job for one worker; null if it is not due or another worker holds it
+export const claimEmbeddingJob = async (jobId: string, userId: string, leaseMs: number): Promise<EmbeddingJob | null> => {
+  const { embeddings } = await getRepositories();
+  const now = new Date();
+  return embeddings.claimJob(userId, jobId, now, new Date(now.getTime() + leaseMs));
+};
+
+// Record progress on a leased embedding job
+export const updateEmbeddingJob = async (jobId: string, userId: string, update: Partial<EmbeddingJob>): Promise<void> => {
+  const { embeddings } = await getRepositories();
+  await embeddings.updateJob(userId, jobId, update);
+};
+
+// Update an embedding job and give up its lease
+export const releaseEmbeddingJob = async (jobId: string, userId: string, update: Partial<EmbeddingJob>): Promise<void> => {
+  const { embeddings } = await getRepositories();
+  await embeddings.releaseJob(userId, jobId, update);
+};
+
+// Get the persisted ANN graph over a user's embeddings from one model
+export const getStoredVectorIndex = async (userId: string, model: string): Promise<StoredVectorIndex | null> => {
+  const { embeddings } = await getRepositories();
+  return embeddings.findIndex(userId, model);
+};
+
+// Persist a user's ANN graph, replacing the previous one for the model
+export const saveStoredVectorIndex = async (index: StoredVectorIndex): Promise<void> => {
+  const { embeddings } = await getRepositories();
+  await embeddings.saveIndex(index);
+};
+
+// Get a user's workspace settings; null if they never changed any
+export const getWorkspaceSettings = async (userId: string): Promise<WorkspaceSettings | null> => {
+  const { settings } = await getRepositories();
+  return settings.find(userId);
+};
+
+// Set workspace settings fields, keeping the others
+export const saveWorkspaceSettings = async (
+  userId: string,
+  update: Partial<Omit<WorkspaceSettings, '_id' | 'userId' | 'updatedAt'>>
+): Promise<void> => {
+  const { settings } = await getRepositories();
+  await settings.save(userId, update);
+};
+
+// Reset workspace settings fields to their defaults
+export const clearWorkspaceSettings = async (
+  userId: string,
+  fields: (keyof Omit<WorkspaceSettings, '_id' | 'userId' | 'updatedAt'>)[]
+): Promise<void> => {
+  const { settings } = await getRepositories();
+  await settings.unset(userId, fields);
+};
+
+// Get a user's stored profile (saved matches) by email
+export const getUserProfile = async (email: string): Promise<UserProfile | null> => {
+  const { matches } = await getRepositories();
+  return matches.findUserByEmail(email);
+};
+
+// Create a user profile, returning its ID
+export const createUserProfile = async (user: UserProfile): Promise<string> => {
+  const { matches } = await getRepositories();
+  return matches.insertUser(user);
+};
+
+// Update fields of a user profile by email
+export const updateUserProfile = async (email: string, update: Partial<UserProfile>): Promise<void> => {
+  const { matches } = await getRepositories();
+  await matches.updateUser(email, update);
+};
+
+// Saving the same mission with the same number of matches within this window is treated as a repeat save
+const DUPLICATE_RUN_WINDOW_MS = 5 * 60 * 1000;
+
+const generateMatchRunId = (userId: string): string =>
+  `match-${userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Save a match run, or return the existing run if the same results were just saved
+export const saveMatchRun = async (
+  userId: string,
+  run: { mission: string; matches: MatchResult[]; recommendations: string }
+): Promise<MatchRun> => {
+  const { matches } = await getRepositories();
+  const since = new Date(Date.now() - DUPLICATE_RUN_WINDOW_MS);
+  const existing = await matches.findRecentRun(userId, run.mission, run.matches.length, since);
+  if (existing) {
+    return existing;
+  }
+
+  const now = new Date();
+  const matchRun: MatchRun = {
+    id: generateMatchRunId(userId),
+    userId,
+    mission: run.mission,
+    matches: run.matches,
+    recommendations: run.recommendations,
+    matchCount: run.matches.length,
+    revision: 1,
+    createdAt: now,
+    updatedAt: now
+  };
+  await matches.insertRun(matchRun);
+  return matchRun;
+};
+
+// List a page of the user's match runs, without their matches
+export const listMatchRuns = async (userId: string, query: MatchRunQuery): Promise<{ runs: MatchRunSummary[]; total: number }> => {
+  const { matches } = await getRepositories();
+  const [runs, total] = await Promise.all([
+    matches.findRuns(userId, query),
+    matches.countRuns(userId)
+  ]);
+  return { runs, total };
+};
+
+// Get a single match run with user isolation
+export const getMatchRun = async (userId: string, id: string): Promise<MatchRun | null> => {
+  const { matches } = await getRepositories();
+  return matches.findRun(userId, id);
+};
+
+/**
+ * Replace the results of a saved match run, keeping the previous results as a revision
+ *
+ * @param current - The run as currently stored
+ * @param update - New mission, matches and recommendations
+ * @returns The updated run, or null if another request replaced it first
+ */
+export const replaceMatchRun = async (
+  current: MatchRun,
+  update: { mission: string; matches: MatchResult[]; recommendations: string }
+): Promise<MatchRun | null> => {
+  const { matches } = await getRepositories();
+  const updated: MatchRun = {
+    ...current,
+    mission: update.mission,
+    matches: update.matches,
+    recommendations: update.recommendations,
+    matchCount: update.matches.length,
+    revision: current.revision + 1,
+    updatedAt: new Date()
+  };
+
+  // Archived before the replace, so the previous results survive a failed write;
+  // concurrent updates of the same revision archive the same results once
+  const previous: MatchRunRevision = {
+    userId: current.userId,
+    runId: current.id,
+    revision: current.revision,
+    mission: current.mission,
+    matches: current.matches,
+    recommendations: current.recommendations,
+    matchCount: current.matchCount,
+    createdAt: current.updatedAt,
+    replacedAt: updated.updatedAt
+  };
+  await matches.insertRevision(previous);
+
+  const replaced = await matches.replaceRun(updated, current.revision);
+  return replaced ? updated : null;
+};
+
+// List the earlier revisions of a match run, newest first
+export const getMatchRunRevisions = async (userId: string, runId: string): Promise<MatchRunRevisionSummary[]> => {
+  const { matches } = await getRepositories();
+  return matches.findRevisions(userId, runId);
+};
+
+// Get an earlier revision of a match run with its results
+export const getMatchRunRevision = async (userId: string, runId: string, revision: number): Promise<MatchRunRevision | null> => {
+  const { matches } = await getRepositories();
+  return matches.findRevision(userId, runId, revision);
+};
+
+// Delete a single match run and its revisions with user isolation
+export const deleteMatchRun = async (userId: string, id: string): Promise<boolean> => {
+  const { matches } = await getRepositories();
+  return matches.deleteRun(userId, id);
+};
+
+// Feedback is shared by runs whose missions differ only in case and spacing
+export const getMissionKey = (mission: string): string => mission.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Record a verdict on a match of a saved run, replacing any earlier one
+export const saveMatchFeedback = async (
+  userId: string,
+  run: MatchRun,
+  profileId: string,
+  verdict: FeedbackVerdict
+): Promise<MatchFeedback> => {
+  const { matches } = await getRepositories();
+  const feedback: MatchFeedback = {
+    userId,
+    runId: run.id,
+    missionKey: getMissionKey(run.mission),
+    profileId,
+    verdict,
+    updatedAt: new Date()
+  };
+  await matches.upsertFeedback(feedback);
+  return feedback;
+};
+
+// Remove the verdict on a match of a saved run
+export const clearMatchFeedback = async (userId: string, runId: string, profileId: string): Promise<boolean> => {
+  const { matches } = await getRepositories();
+  return matches.deleteFeedback(userId, runId, profileId);
+};
+
+// Get the verdicts on the matches of a saved run
+export const getRunFeedback = async (userId: string, runId: string): Promise<MatchFeedback[]> => {
+  const { matches } = await getRepositories();
+  return matches.findRunFeedback(userId, runId);
+};
+
+// Get the verdicts given in every saved run of a mission
+export const getMissionFeedback = async (userId: string, mission: string): Promise<MatchFeedback[]> => {
+  const { matches } = await getRepositories();
+  return matches.findMissionFeedback(userId, getMissionKey(mission));
+};
+
+/**
+ * Move match runs still embedded in the user document into the match run collection
+ * Runs keep their IDs and are upserted, so an interrupted migration can simply run again.
+ *
+ * @param email - Email of the user document
+ * @param userId - Authenticated user the runs belong to
+ * @returns Number of runs moved
+ */
+export const migrateLegacyMatchRuns = async (email: string, userId: string): Promise<number> => {
+  const { matches } = await getRepositories();
+  const userDoc = await matches.findUserByEmail(email);
+  const legacy = userDoc?.matches || [];
+  if (legacy.length === 0) {
+    return 0;
+  }
+
+  await matches.upsertRuns(legacy.map(match => ({
+    ...match,
+    userId,
+    matchCount: match.matches.length,
+    revision: 1,
+    createdAt: new Date(match.createdAt),
+    updatedAt: new Date(match.createdAt)
+  })));
+  await matches.updateUser(email, { matches: [] });
+
+  console.log(`Migrated ${legacy.length} saved match runs for user ${userId}`);
+  return legacy.length;
+};
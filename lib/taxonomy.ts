@@ -0,0 +1,415 @@
+import { Profile, MissionAttributes, getWorkspaceSettings } from './utils';
+import { tokenizeSearchText } from './hybrid-search';
+
+/**
+ * Industry, role and seniority taxonomy
+ *
+ * Classifies profiles and missions into industries (with sub-industries), role
+ * families and seniority levels by keyword phrases. The taxonomy is data: every
+ * workspace (a user's account) starts from DEFAULT_TAXONOMY and can replace it
+ * through /api/taxonomy. Classifications are computed when searching, so edits
+ * apply to all contacts immediately.
+ *
+ * Keywords are matched as whole phrases after the same normalization as search
+ * text (lowercase, no accents, singular, no stop words), so "Software Engineers"
+ * matches the keyword "software engineer".
+ */
+
+export interface TaxonomyTerm {
+  id: string;
+  label: string;
+  keywords: string[];
+}
+
+export interface IndustryTerm extends TaxonomyTerm {
+  subIndustries?: TaxonomyTerm[];
+}
+
+export interface SeniorityLevel extends TaxonomyTerm {
+  rank: number; // Higher is more senior
+}
+
+export interface Taxonomy {
+  industries: IndustryTerm[];
+  roleFamilies: TaxonomyTerm[];
+  seniorityLevels: SeniorityLevel[];
+}
+
+/**
+ * Term IDs a profile or mission was classified into
+ */
+export interface TaxonomyClassification {
+  industry?: string;
+  subIndustry?: string;
+  roleFamily?: string;
+  seniority?: string;
+}
+
+/**
+ * Taxonomy filters: a profile passes if it matches any ID of each dimension given
+ * Industry IDs may be sub-industry IDs.
+ */
+export interface TaxonomyFilter {
+  industries?: string[];
+  roleFamilies?: string[];
+  seniorities?: string[];
+}
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  industries: [
+    {
+      id: 'technology',
+      label: 'Technology',
+      keywords: ['technology', 'tech', 'software', 'saas', 'internet', 'cloud', 'startup'],
+      subIndustries: [
+        { id: 'software', label: 'Software & SaaS', keywords: ['software', 'saas', 'platform', 'developer tools'] },
+        { id: 'cybersecurity', label: 'Cybersecurity', keywords: ['cybersecurity', 'security', 'infosec'] },
+        { id: 'ai-data', label: 'AI & Data', keywords: ['ai', 'artificial intelligence', 'machine learning', 'data science', 'analytics'] },
+        { id: 'hardware', label: 'Hardware & Semiconductors', keywords: ['hardware', 'semiconductor', 'electronics', 'robotics'] }
+      ]
+    },
+    {
+      id: 'financial-services',
+      label: 'Financial Services',
+      keywords: ['finance', 'financial', 'financial services', 'capital'],
+      subIndustries: [
+        { id: 'banking', label: 'Banking', keywords: ['bank', 'banking'] },
+        { id: 'investment-management', label: 'Investment Management', keywords: ['investment', 'asset management', 'wealth management', 'private equity', 'hedge fund'] },
+        { id: 'venture-capital', label: 'Venture Capital', keywords: ['venture capital', 'vc', 'venture'] },
+        { id: 'insurance', label: 'Insurance', keywords: ['insurance', 'insurtech', 'reinsurance'] },
+        { id: 'fintech', label: 'Fintech & Payments', keywords: ['fintech', 'payment', 'crypto', 'blockchain'] },
+        { id: 'accounting', label: 'Accounting & Tax', keywords: ['accounting', 'audit', 'tax'] }
+      ]
+    },
+    {
+      id: 'healthcare',
+      label: 'Healthcare & Life Sciences',
+      keywords: ['healthcare', 'health', 'medical', 'medicine', 'life science'],
+      subIndustries: [
+        { id: 'care-providers', label: 'Hospitals & Care', keywords: ['hospital', 'clinic', 'care'] },
+        { id: 'pharma-biotech', label: 'Pharma & Biotech', keywords: ['pharmaceutical', 'pharma', 'biotech', 'biotechnology'] },
+        { id: 'medtech', label: 'Medtech & Digital Health', keywords: ['medical device', 'medtech', 'healthtech', 'digital health'] }
+      ]
+    },
+    {
+      id: 'construction-real-estate',
+      label: 'Construction & Real Estate',
+      keywords: ['construction', 'contractor', 'contracting', 'building', 'infrastructure'],
+      subIndustries: [
+        { id: 'construction', label: 'Construction & Engineering', keywords: ['construction', 'civil engineering', 'contractor', 'general contractor'] },
+        { id: 'real-estate', label: 'Real Estate', keywords: ['real estate', 'property', 'realtor', 'proptech'] },
+        { id: 'architecture', label: 'Architecture', keywords: ['architecture', 'architectural'] }
+      ]
+    },
+    {
+      id: 'manufacturing',
+      label: 'Manufacturing & Industrial',
+      keywords: ['manufacturing', 'industrial', 'factory', 'production'],
+      subIndustries: [
+        { id: 'automotive', label: 'Automotive', keywords: ['automotive', 'vehicle', 'mobility'] },
+        { id: 'aerospace', label: 'Aerospace & Defense', keywords: ['aerospace', 'aviation', 'defense'] },
+        { id: 'chemicals-materials', label: 'Chemicals & Materials', keywords: ['chemical', 'materials', 'steel', 'plastics'] }
+      ]
+    },
+    {
+      id: 'retail-consumer',
+      label: 'Retail & Consumer',
+      keywords: ['retail', 'consumer', 'ecommerce', 'e-commerce', 'consumer goods', 'cpg'],
+      subIndustries: [
+        { id: 'ecommerce', label: 'E-commerce', keywords: ['ecommerce', 'e-commerce', 'online retail', 'marketplace'] },
+        { id: 'food-beverage', label: 'Food & Beverage', keywords: ['food', 'beverage', 'restaurant'] },
+        { id: 'hospitality-travel', label: 'Hospitality & Travel', keywords: ['hospitality', 'hotel', 'travel', 'tourism'] },
+        { id: 'fashion', label: 'Fashion & Apparel', keywords: ['fashion', 'apparel', 'luxury'] }
+      ]
+    },
+    {
+      id: 'media-marketing',
+      label: 'Media, Marketing & Advertising',
+      keywords: ['media', 'advertising', 'marketing agency', 'publishing', 'entertainment'],
+      subIndustries: [
+        { id: 'advertising', label: 'Advertising & Agencies', keywords: ['advertising', 'agency', 'marketing agency'] },
+        { id: 'publishing', label: 'Publishing & News', keywords: ['publishing', 'news', 'journalism'] },
+        { id: 'entertainment', label: 'Entertainment & Gaming', keywords: ['entertainment', 'film', 'music', 'gaming'] }
+      ]
+    },
+    {
+      id: 'education',
+      label: 'Education & Research',
+      keywords: ['education', 'university', 'school', 'academic', 'college', 'edtech'],
+      subIndustries: [
+        { id: 'higher-education', label: 'Higher Education', keywords: ['university', 'college', 'academic'] },
+        { id: 'edtech', label: 'Edtech', keywords: ['edtech', 'e-learning', 'online learning'] }
+      ]
+    },
+    {
+      id: 'energy',
+      label: 'Energy & Utilities',
+      keywords: ['energy', 'utility', 'utilities', 'oil', 'gas', 'power'],
+      subIndustries: [
+        { id: 'renewables', label: 'Renewables & Climate', keywords: ['renewable', 'solar', 'wind', 'cleantech', 'climate'] },
+        { id: 'oil-gas', label: 'Oil & Gas', keywords: ['oil', 'gas', 'petroleum'] }
+      ]
+    },
+    {
+      id: 'professional-services',
+      label: 'Professional Services',
+      keywords: ['consulting', 'consultancy', 'professional services', 'advisory'],
+      subIndustries: [
+        { id: 'management-consulting', label: 'Management Consulting', keywords: ['consulting', 'consultancy', 'advisory'] },
+        { id: 'legal-services', label: 'Legal', keywords: ['law firm', 'legal', 'law'] },
+        { id: 'staffing', label: 'Staffing & Recruiting', keywords: ['staffing', 'recruitment agency', 'executive search'] }
+      ]
+    },
+    {
+      id: 'logistics',
+      label: 'Transportation & Logistics',
+      keywords: ['logistics', 'transportation', 'shipping', 'freight', 'supply chain'],
+      subIndustries: []
+    },
+    {
+      id: 'public-nonprofit',
+      label: 'Government & Nonprofit',
+      keywords: ['government', 'public sector', 'nonprofit', 'non-profit', 'ngo', 'foundation', 'charity'],
+      subIndustries: []
+    }
+  ],
+  roleFamilies: [
+    { id: 'founder-executive', label: 'Founders & Executives', keywords: ['founder', 'co-founder', 'ceo', 'owner', 'managing director', 'general manager'] },
+    { id: 'engineering', label: 'Engineering', keywords: ['engineer', 'engineering', 'developer', 'software', 'devops', 'programmer', 'cto'] },
+    { id: 'product', label: 'Product', keywords: ['product manager', 'product owner', 'product management', 'product'] },
+    { id: 'design', label: 'Design', keywords: ['designer', 'design', 'ux', 'ui'] },
+    { id: 'data', label: 'Data & Analytics', keywords: ['data scientist', 'data analyst', 'data engineer', 'analytics', 'machine learning'] },
+    { id: 'sales', label: 'Sales & Business Development', keywords: ['sales', 'account executive', 'business development', 'partnership', 'revenue'] },
+    { id: 'marketing', label: 'Marketing', keywords: ['marketing', 'growth', 'brand', 'content', 'communications', 'seo'] },
+    { id: 'operations', label: 'Operations', keywords: ['operations', 'ops', 'supply chain', 'procurement', 'coo'] },
+    { id: 'finance', label: 'Finance', keywords: ['finance', 'accountant', 'controller', 'cfo', 'financial analyst', 'treasury'] },
+    { id: 'people', label: 'People & Recruiting', keywords: ['human resources', 'hr', 'recruiter', 'recruiting', 'talent', 'people operations'] },
+    { id: 'legal', label: 'Legal', keywords: ['lawyer', 'attorney', 'counsel', 'legal', 'paralegal'] },
+    { id: 'customer', label: 'Customer Success & Support', keywords: ['customer success', 'customer support', 'customer service', 'account manager'] },
+    { id: 'investing', label: 'Investing', keywords: ['investor', 'angel investor', 'venture capitalist', 'venture partner', 'portfolio manager'] },
+    { id: 'consulting', label: 'Consulting & Advisory', keywords: ['consultant', 'advisor', 'adviser'] },
+    { id: 'research', label: 'Research & Academia', keywords: ['researcher', 'professor', 'scientist', 'lecturer', 'phd'] },
+    { id: 'clinical', label: 'Clinical', keywords: ['physician', 'doctor', 'nurse', 'clinician', 'surgeon', 'pharmacist'] },
+    { id: 'trades', label: 'Construction & Trades', keywords: ['contractor', 'site manager', 'foreman', 'electrician', 'carpenter', 'builder', 'estimator'] }
+  ],
+  seniorityLevels: [
+    { id: 'intern', label: 'Intern', rank: 1, keywords: ['intern', 'internship', 'trainee', 'apprentice', 'student'] },
+    { id: 'entry', label: 'Entry level', rank: 2, keywords: ['junior', 'jr', 'associate', 'assistant', 'graduate', 'entry level'] },
+    { id: 'mid', label: 'Mid level', rank: 3, keywords: ['mid level', 'intermediate'] },
+    { id: 'senior', label: 'Senior', rank: 4, keywords: ['senior', 'sr', 'lead', 'principal', 'staff'] },
+    { id: 'manager', label: 'Manager', rank: 5, keywords: ['manager', 'supervisor', 'team lead'] },
+    { id: 'director', label: 'Director', rank: 6, keywords: ['director', 'head'] },
+    { id: 'vp', label: 'Vice President', rank: 7, keywords: ['vp', 'vice president', 'svp', 'evp'] },
+    { id: 'c-level', label: 'C-level', rank: 8, keywords: ['ceo', 'cto', 'cfo', 'coo', 'cmo', 'cio', 'chief', 'president'] },
+    { id: 'owner', label: 'Founder & Owner', rank: 9, keywords: ['founder', 'co-founder', 'owner', 'partner'] }
+  ]
+};
+
+// Score added per dimension (industry, role family) a profile shares with the mission
+const TAXONOMY_MATCH_BOOST = 0.05;
+
+/**
+ * Taxonomy of a user's workspace
+ *
+ * @param userId - Workspace owner
+ * @returns The saved taxonomy, or DEFAULT_TAXONOMY if none was saved
+ */
+export const getWorkspaceTaxonomy = async (userId: string): Promise<{ taxonomy: Taxonomy; isDefault: boolean }> => {
+  const saved = (await getWorkspaceSettings(userId))?.taxonomy;
+  return saved ? { taxonomy: saved, isDefault: false } : { taxonomy: DEFAULT_TAXONOMY, isDefault: true };
+};
+
+interface PhraseMatcher {
+  byFirstTerm: Map<string, { terms: string[]; id: string; parentId?: string }[]>;
+}
+
+/**
+ * Taxonomy prepared for classifying many profiles
+ */
+export interface CompiledTaxonomy {
+  taxonomy: Taxonomy;
+  industries: PhraseMatcher; // Industries and sub-industries; sub-industry hits count for their industry too
+  roleFamilies: PhraseMatcher;
+  seniorityLevels: PhraseMatcher;
+  seniorityRanks: Map<string, number>;
+  subIndustryParents: Map<string, string>;
+}
+
+const createMatcher = (entries: { keywords: string[]; id: string; parentId?: string }[]): PhraseMatcher => {
+  const byFirstTerm: PhraseMatcher['byFirstTerm'] = new Map();
+  entries.forEach(({ keywords, id, parentId }) => {
+    keywords.forEach(keyword => {
+      const terms = tokenizeSearchText(keyword);
+      if (terms.length === 0) return;
+      const phrases = byFirstTerm.get(terms[0]) || [];
+      phrases.push({ terms, id, parentId });
+      byFirstTerm.set(terms[0], phrases);
+    });
+  });
+  return { byFirstTerm };
+};
+
+/**
+ * Prepare a taxonomy's keyword phrases for matching
+ *
+ * @param taxonomy - Taxonomy to compile
+ * @returns Compiled taxonomy for classifyProfile and classifyMission
+ */
+export const compileTaxonomy = (taxonomy: Taxonomy): CompiledTaxonomy => {
+  const subIndustryParents = new Map<string, string>();
+  const industryEntries: { keywords: string[]; id: string; parentId?: string }[] = [];
+  taxonomy.industries.forEach(industry => {
+    industryEntries.push({ keywords: industry.keywords, id: industry.id });
+    (industry.subIndustries || []).forEach(sub => {
+      subIndustryParents.set(sub.id, industry.id);
+      industryEntries.push({ keywords: sub.keywords, id: sub.id, parentId: industry.id });
+    });
+  });
+
+  return {
+    taxonomy,
+    industries: createMatcher(industryEntries),
+    roleFamilies: createMatcher(taxonomy.roleFamilies),
+    seniorityLevels: createMatcher(taxonomy.seniorityLevels),
+    seniorityRanks: new Map(taxonomy.seniorityLevels.map(level => [level.id, level.rank])),
+    subIndustryParents
+  };
+};
+
+// Add weighted hits of the phrases found in the text; a hit on a child also counts for its parent.
+// The longest phrase at a position wins and covers its terms, so "vice president" isn't also "president".
+const addHits = (hits: Map<string, number>, matcher: PhraseMatcher, text: string | undefined, weight: number): void => {
+  if (!text) return;
+  const terms = tokenizeSearchText(text);
+  let start = 0;
+  while (start < terms.length) {
+    const found = (matcher.byFirstTerm.get(terms[start]) || [])
+      .filter(phrase => phrase.terms.every((phraseTerm, offset) => terms[start + offset] === phraseTerm));
+    const longest = Math.max(0, ...found.map(phrase => phrase.terms.length));
+    found.filter(phrase => phrase.terms.length === longest).forEach(phrase => {
+      hits.set(phrase.id, (hits.get(phrase.id) || 0) + weight);
+      if (phrase.parentId) {
+        hits.set(phrase.parentId, (hits.get(phrase.parentId) || 0) + weight);
+      }
+    });
+    start += Math.max(1, longest);
+  }
+};
+
+// ID with the most hits among those accepted; ties go to the first found
+const bestHit = (hits: Map<string, number>, accept: (id: string) => boolean): string | undefined => {
+  let best: string | undefined;
+  let bestScore = 0;
+  hits.forEach((score, id) => {
+    if (accept(id) && score > bestScore) {
+      best = id;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const classify = (
+  compiled: CompiledTaxonomy,
+  industryText: [string | undefined, number][],
+  roleText: [string | undefined, number][]
+): TaxonomyClassification => {
+  const industryHits = new Map<string, number>();
+  industryText.forEach(([text, weight]) => addHits(industryHits, compiled.industries, text, weight));
+  const industry = bestHit(industryHits, id => !compiled.subIndustryParents.has(id));
+  const subIndustry = industry
+    ? bestHit(industryHits, id => compiled.subIndustryParents.get(id) === industry)
+    : undefined;
+
+  const roleHits = new Map<string, number>();
+  roleText.forEach(([text, weight]) => addHits(roleHits, compiled.roleFamilies, text, weight));
+
+  // The most senior level named in the role text, e.g. "Senior Vice President" is a VP
+  const seniorityHits = new Map<string, number>();
+  roleText.forEach(([text, weight]) => addHits(seniorityHits, compiled.seniorityLevels, text, weight));
+  const seniority = Array.from(seniorityHits.keys())
+    .sort((a, b) => (compiled.seniorityRanks.get(b) || 0) - (compiled.seniorityRanks.get(a) || 0))[0];
+
+  return {
+    industry,
+    subIndustry,
+    roleFamily: bestHit(roleHits, () => true),
+    seniority
+  };
+};
+
+/**
+ * Classify a profile
+ * Industry comes from the industry field first, then company, title and summary;
+ * role family and seniority from the title.
+ *
+ * @param profile - Profile to classify
+ * @param compiled - Compiled taxonomy of the profile's workspace
+ * @returns Matching term IDs; dimensions without a match are left out
+ */
+export const classifyProfile = (profile: Profile, compiled: CompiledTaxonomy): TaxonomyClassification =>
+  classify(
+    compiled,
+    [[profile.industry, 3], [profile.company, 2], [profile.title, 1], [profile.summary, 1]],
+    [[profile.title, 1]]
+  );
+
+/**
+ * Classify a mission
+ *
+ * @param mission - Mission statement
+ * @param attributes - Attributes parsed from the mission, if any
+ * @param compiled - Compiled taxonomy of the user's workspace
+ * @returns Matching term IDs; dimensions without a match are left out
+ */
+export const classifyMission = (
+  mission: string,
+  attributes: Partial<MissionAttributes> | undefined,
+  compiled: CompiledTaxonomy
+): TaxonomyClassification =>
+  classify(
+    compiled,
+    [[attributes?.industry, 3], [mission, 1]],
+    [[attributes?.role, 2], [mission, 1]]
+  );
+
+/**
+ * Check whether a classification passes taxonomy filters
+ *
+ * @param classification - Classification of a profile
+ * @param filter - Accepted IDs per dimension; empty or missing dimensions accept everything
+ * @returns True if the profile passes every given dimension
+ */
+export const matchesTaxonomyFilter = (classification: TaxonomyClassification, filter: TaxonomyFilter): boolean => {
+  const accepts = (ids: string[] | undefined, ...values: (string | undefined)[]): boolean =>
+    !ids || ids.length === 0 || values.some(value => value !== undefined && ids.includes(value));
+
+  return accepts(filter.industries, classification.industry, classification.subIndustry) &&
+    accepts(filter.roleFamilies, classification.roleFamily) &&
+    accepts(filter.seniorities, classification.seniority);
+};
+
+/**
+ * All term IDs of a taxonomy by dimension, for validating filters
+ *
+ * @param taxonomy - Taxonomy to list
+ * @returns Industry (including sub-industry), role family and seniority IDs
+ */
+export const getTaxonomyIds = (taxonomy: Taxonomy): Required<TaxonomyFilter> => ({
+  industries: taxonomy.industries.flatMap(industry => [industry.id, ...(industry.subIndustries || []).map(sub => sub.id)]),
+  roleFamilies: taxonomy.roleFamilies.map(role => role.id),
+  seniorities: taxonomy.seniorityLevels.map(level => level.id)
+});
+
+/**
+ * Ranking boost for a profile classified like the mission
+ * Sub-industries count as their industry, so a fintech founder still matches a
+ * financial services mission.
+ *
+ * @param profile - Classification of the profile
+ * @param mission - Classification of the mission
+ * @returns TAXONOMY_MATCH_BOOST per shared industry and role family
+ */
+export const scoreTaxonomyMatch = (profile: TaxonomyClassification, mission: TaxonomyClassification): number =>
+  ((mission.industry && profile.industry === mission.industry) ? TAXONOMY_MATCH_BOOST : 0) +
+  ((mission.roleFamily && profile.roleFamily === mission.roleFamily) ? TAXONOMY_MATCH_BOOST : 0);
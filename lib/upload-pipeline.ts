@@ -0,0 +1,215 @@
+import Papa from 'papaparse';
+import { addProfiles } from './utils';
+import { UploadJob } from './mongodb';
+import { ColumnMapping, applyColumnMapping, detectColumnMapping, validateColumnMapping } from './column-mapping';
+import { stripNotesPreamble } from './linkedin-export';
+import { createImportDiff, finalizeImportDiff, reconcileImportBatch } from './import-diff';
+
+/**
+ * Chunked CSV upload pipeline
+ *
+ * Large connection exports are sent as sequential byte chunks. Each chunk is
+ * decoded, split on complete CSV rows, parsed with Papa (at most one chunk of
+ * rows is held at a time) and written to MongoDB in batches. Partial rows and partial UTF-8 sequences at the
+ * end of a chunk are carried over on the job so an interrupted upload can resume
+ * from the next chunk index. Each batch is diffed against the user's stored
+ * profiles before it is written (see import-diff); the diff is saved with a row
+ * cursor after each batch, so a retried chunk skips the rows an earlier attempt
+ * already wrote instead of diffing them again. A file whose headers don't
+ * fit the column mapping fails the job instead of being retried.
+ */
+
+export const UPLOAD_CHUNK_MAX_BYTES = 4 * 1024 * 1024; // Stay under the serverless request body limit
+export const UPLOAD_MAX_FILE_BYTES = 200 * 1024 * 1024;
+
+const PROFILE_BATCH_SIZE = 500;
+
+export type UploadJobProgress = Pick<
+  UploadJob,
+  'nextChunkIndex' | 'bytesReceived' | 'headers' | 'mapping' | 'remainder' | 'pendingBytes' | 'rowsProcessed' | 'profilesImported' | 'chunkRowsWritten' | 'status' | 'diff' | 'lastError'
+>;
+
+// Progress saved after each batch of a chunk, without advancing the job
+export type UploadBatchProgress = Pick<UploadJob, 'rowsProcessed' | 'profilesImported' | 'chunkRowsWritten' | 'diff'>;
+
+/**
+ * Split bytes at the last complete UTF-8 character
+ * A chunk boundary can fall inside a multi-byte character; the trailing bytes
+ * are returned separately so they can be prepended to the next chunk.
+ *
+ * @param bytes - Raw chunk bytes
+ * @returns Decodable bytes and any incomplete trailing sequence
+ */
+export const splitUtf8Boundary = (bytes: Uint8Array): { complete: Uint8Array; pending: Uint8Array } => {
+  // Walk back over continuation bytes (10xxxxxx) to the last lead byte
+  let start = bytes.length - 1;
+  while (start >= 0 && start >= bytes.length - 4 && (bytes[start] & 0xc0) === 0x80) {
+    start--;
+  }
+
+  if (start < 0 || bytes[start] < 0x80) {
+    return { complete: bytes, pending: new Uint8Array(0) };
+  }
+
+  const lead = bytes[start];
+  const expectedLength = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  if (bytes.length - start >= expectedLength) {
+    return { complete: bytes, pending: new Uint8Array(0) };
+  }
+
+  return { complete: bytes.slice(0, start), pending: bytes.slice(start) };
+};
+
+/**
+ * Split CSV text after the last row terminator that is not inside a quoted field
+ *
+ * @param text - CSV text, possibly ending in a partial row
+ * @returns Complete rows and the trailing partial row
+ */
+export const splitCompleteRows = (text: string): { complete: string; remainder: string } => {
+  let inQuotes = false;
+  let lastRowEnd = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes; // Escaped quotes ("") toggle twice
+    } else if (char === '\n' && !inQuotes) {
+      lastRowEnd = i;
+    }
+  }
+
+  return {
+    complete: text.slice(0, lastRowEnd + 1),
+    remainder: text.slice(lastRowEnd + 1)
+  };
+};
+
+/**
+ * Process one chunk of a chunked CSV upload
+ *
+ * @param job - Current upload job state
+ * @param chunk - Raw bytes of the chunk at `job.nextChunkIndex`
+ * @param saveBatchProgress - Persists the diff and row cursor after each written batch
+ * @returns Job progress to persist once the chunk has been written; status
+ *   'failed' with lastError, without advancing, if the mapping doesn't fit the headers
+ */
+export const processUploadChunk = async (
+  job: UploadJob,
+  chunk: Uint8Array,
+  saveBatchProgress: (progress: UploadBatchProgress) => Promise<void>
+): Promise<UploadJobProgress> => {
+  const isFinal = job.nextChunkIndex === job.totalChunks - 1;
+
+  // Decode, carrying over any partial UTF-8 sequence from the previous chunk
+  const carried = Buffer.from(job.pendingBytes || '', 'base64');
+  const bytes = new Uint8Array(carried.length + chunk.length);
+  bytes.set(carried, 0);
+  bytes.set(chunk, carried.length);
+
+  const { complete: decodable, pending } = isFinal
+    ? { complete: bytes, pending: new Uint8Array(0) }
+    : splitUtf8Boundary(bytes);
+  let text = job.remainder + new TextDecoder('utf-8').decode(decodable);
+
+  // The first chunk carries the header row (after LinkedIn's "Notes:" preamble)
+  if (!job.headers) {
+    text = stripNotesPreamble(text);
+  }
+
+  const { complete, remainder } = isFinal
+    ? { complete: text, remainder: '' }
+    : splitCompleteRows(text.replace(/\r\n/g, '\n'));
+
+  let headers = job.headers;
+  let mapping = job.mapping as ColumnMapping | undefined;
+  let rowsProcessed = job.rowsProcessed;
+  let profilesImported = job.profilesImported;
+  let diff = job.diff || createImportDiff();
+  let batch: Record<string, string>[] = [];
+  // Rows written by an earlier attempt at this chunk are already stored and counted
+  let rowsToSkip = job.chunkRowsWritten || 0;
+  let chunkRowsWritten = rowsToSkip;
+
+  const flush = async (): Promise<void> => {
+    if (batch.length === 0) return;
+    const profiles = applyColumnMapping(batch, mapping || {}, job.sessionId, rowsProcessed - batch.length)
+      .filter(profile => profile.name.length > 0);
+    if (profiles.length > 0) {
+      diff = await reconcileImportBatch(profiles, job.userId, diff);
+      await addProfiles(profiles, job.userId);
+    }
+    profilesImported += profiles.length;
+    chunkRowsWritten += batch.length;
+    batch = [];
+    await saveBatchProgress({ rowsProcessed, profilesImported, chunkRowsWritten, diff });
+  };
+
+  // Parse the chunk's complete rows, writing them in batches
+  const { data: rows } = Papa.parse<string[]>(complete, {
+    header: false,
+    skipEmptyLines: true
+  });
+
+  for (const values of rows) {
+    if (!headers) {
+      headers = values.map(header => header.trim());
+      mapping = mapping || detectColumnMapping(headers);
+
+      // Nothing has been written yet; the same file would fail again, so the job fails
+      const mappingErrors = validateColumnMapping(mapping, headers);
+      if (mappingErrors.length > 0) {
+        return {
+          nextChunkIndex: job.nextChunkIndex,
+          bytesReceived: job.bytesReceived,
+          headers: job.headers,
+          mapping: job.mapping,
+          remainder: job.remainder,
+          pendingBytes: job.pendingBytes,
+          rowsProcessed: job.rowsProcessed,
+          profilesImported: job.profilesImported,
+          chunkRowsWritten: job.chunkRowsWritten,
+          diff: job.diff,
+          status: 'failed',
+          lastError: mappingErrors.join(', ')
+        };
+      }
+      continue;
+    }
+
+    if (rowsToSkip > 0) {
+      rowsToSkip--;
+      continue;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = values[index] || '';
+    });
+    batch.push(row);
+    rowsProcessed++;
+
+    if (batch.length >= PROFILE_BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  if (isFinal) {
+    diff = await finalizeImportDiff(diff, job.userId, job.previousSessionId);
+  }
+
+  return {
+    nextChunkIndex: job.nextChunkIndex + 1,
+    bytesReceived: job.bytesReceived + chunk.length,
+    headers,
+    mapping: mapping as Record<string, string> | undefined,
+    remainder,
+    pendingBytes: Buffer.from(pending).toString('base64'),
+    rowsProcessed,
+    profilesImported,
+    chunkRowsWritten: 0,
+    diff,
+    status: isFinal ? 'completed' : 'uploading'
+  };
+};
@@ -1,8 +1,10 @@
 // Import persistent storage functions
-import { addProfile, addProfiles, getAllProfiles, clearProfiles, saveProfiles, getProfilesBySession, clearProfilesBySession } from './storage';
+import { addProfile, addProfiles, getAllProfiles, clearProfiles, saveProfiles, getProfilesBySession, clearProfilesBySession, loadColumnMapping, saveColumnMapping, createUploadJob, getUploadJob, updateUploadJob, resolveProfiles, getLatestUploadSessionId, countProfilesBySession, findDuplicateProfiles, getMergeLog, mergeProfileRecords, splitProfileRecord, getRecentJobChanges, saveProfileEmbeddings, getUserProfile, createUserProfile, updateUserProfile, saveMatchRun, listMatchRuns, getMatchRun, deleteMatchRun, migrateLegacyMatchRuns, replaceMatchRun, getMatchRunRevisions, getMatchRunRevision, getProfilesWithoutEmbeddings, findCachedEmbeddings, saveCachedEmbeddings, getProfilesBySessionWithoutEmbeddings, findNearestProfiles, sampleEmbeddedProfiles, createEmbeddingJob, getEmbeddingJob, getLatestEmbeddingJob, getDueEmbeddingJobs, claimEmbeddingJob, updateEmbeddingJob, releaseEmbeddingJob, getStoredVectorIndex, saveStoredVectorIndex, getWorkspaceSettings, saveWorkspaceSettings, clearWorkspaceSettings, getProfileSessions, getProfilesByIds, saveMatchFeedback, clearMatchFeedback, getRunFeedback, getMissionFeedback, getMissionKey } from './storage';
+import { ColumnMapping, applyColumnMapping, detectColumnMapping } from './column-mapping';
+import { getIdentityKey } from './identity';
 
 // Re-export storage functions (now async with user isolation)
-export { addProfile, addProfiles, getAllProfiles, clearProfiles, saveProfiles, getProfilesBySession, clearProfilesBySession };
+export { addProfile, addProfiles, getAllProfiles, clearProfiles, saveProfiles, getProfilesBySession, clearProfilesBySession, loadColumnMapping, saveColumnMapping, createUploadJob, getUploadJob, updateUploadJob, resolveProfiles, getLatestUploadSessionId, countProfilesBySession, findDuplicateProfiles, getMergeLog, mergeProfileRecords, splitProfileRecord, getRecentJobChanges, saveProfileEmbeddings, getUserProfile, createUserProfile, updateUserProfile, saveMatchRun, listMatchRuns, getMatchRun, deleteMatchRun, migrateLegacyMatchRuns, replaceMatchRun, getMatchRunRevisions, getMatchRunRevision, getProfilesWithoutEmbeddings, findCachedEmbeddings, saveCachedEmbeddings, getProfilesBySessionWithoutEmbeddings, findNearestProfiles, sampleEmbeddedProfiles, createEmbeddingJob, getEmbeddingJob, getLatestEmbeddingJob, getDueEmbeddingJobs, claimEmbeddingJob, updateEmbeddingJob, releaseEmbeddingJob, getStoredVectorIndex, saveStoredVectorIndex, getWorkspaceSettings, saveWorkspaceSettings, clearWorkspaceSettings, getProfileSessions, getProfilesByIds, saveMatchFeedback, clearMatchFeedback, getRunFeedback, getMissionFeedback, getMissionKey };
 
 /**
  * Profile Interface
@@ -22,8 +24,28 @@ export interface Profile {
   education?: string;
   skills?: string[];
   profilePicture?: string;
+  messageCount?: number; // Messages exchanged, from a full LinkedIn data export
+  lastMessagedAt?: string; // ISO date of the most recent message exchanged
+  connectedOn?: string; // ISO date the connection was made ("Connected On" in LinkedIn exports)
+  connectionNote?: string; // Invitation message or note attached to the connection
+  connectionSource?: string; // Where the contact came from (LinkedIn, CRM, event, ...)
   embedding?: number[]; // Vector embedding for similarity matching
+  embeddingModel?: string; // Model ID the embedding was generated with
+  embeddingTextHash?: string; // Hash of the profile text that was embedded
   uploadSessionId?: string; // Track which upload session this profile belongs to
+  history?: ProfileRole[]; // Title/company/location over time, oldest first (stored profiles only)
+  jobChangedAt?: string; // ISO date a title or company change was last observed
+}
+
+/**
+ * Profile Role Interface
+ * One version of a contact's title, company and location
+ */
+export interface ProfileRole {
+  title?: string;
+  company?: string;
+  location?: string;
+  observedAt: string; // ISO date this version was first seen
 }
 
 /**
@@ -64,10 +86,105 @@ export interface MatchResult {
   skills?: string[];
   experience?: string;
   education?: string;
+  connectedOn?: string;
+  jobChangedAt?: string;
+  previousRole?: ProfileRole; // Title/company before the most recent job change
   similarity: number;
   reasoning?: string;
 }
 
+/**
+ * Connection Recency Options
+ * Filter or boost matches by how recently the relationship was active
+ */
+export interface RecencyOptions {
+  connectedAfter?: string; // ISO date; contacts last active before this are excluded
+  boostWeight?: number; // 0-1 weight of the recency score added to similarity when ranking
+  halfLifeDays?: number; // Age in days at which the recency score halves
+}
+
+/**
+ * Most recent sign of an active relationship: the connection date or the last message
+ * 
+ * @param profile - Profile to inspect
+ * @returns Latest interaction date, or null when unknown
+ */
+export const getLastInteractionDate = (profile: Profile): Date | null => {
+  const dates = [profile.connectedOn, profile.lastMessagedAt]
+    .filter((value): value is string => Boolean(value))
+    .map(value => new Date(value))
+    .filter(date => !isNaN(date.getTime()));
+
+  if (dates.length === 0) {
+    return null;
+  }
+  return new Date(Math.max(...dates.map(date => date.getTime())));
+};
+
+/**
+ * Score how warm a relationship is using exponential decay on its age
+ * 
+ * @param profile - Profile to score
+ * @param halfLifeDays - Age in days at which the score halves
+ * @returns Recency score (0-1, where 1 is active today; 0 when no date is known)
+ */
+export const calculateRecencyScore = (profile: Profile, halfLifeDays: number = 365): number => {
+  const lastInteraction = getLastInteractionDate(profile);
+  if (!lastInteraction) {
+    return 0;
+  }
+
+  const ageDays = Math.max(0, (Date.now() - lastInteraction.getTime()) / (24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageDays / halfLifeDays);
+};
+
+/**
+ * Recency boost added to a ranking score
+ * Ranking scores (cosine similarity, fused score) lie on a 0-1 scale and the boost
+ * is added unscaled, so a boostWeight of 0.2 lifts a contact active today by at
+ * most 0.2 and one a half-life ago by 0.1.
+ * 
+ * @param profile - Profile to score
+ * @param recency - Recency options of the search
+ * @returns boostWeight * recency score (0 without a boostWeight)
+ */
+export const calculateRecencyBoost = (profile: Profile, recency?: RecencyOptions): number =>
+  recency?.boostWeight ? recency.boostWeight * calculateRecencyScore(profile, recency.halfLifeDays) : 0;
+
+/**
+ * Keep only profiles whose relationship was active on or after the given date
+ * Profiles without any known connection or message date are excluded
+ * 
+ * @param profiles - Profiles to filter
+ * @param connectedAfter - ISO date cut-off
+ * @returns Filtered profiles
+ */
+export const filterByRecency = (profiles: Profile[], connectedAfter?: string): Profile[] => {
+  if (!connectedAfter) {
+    return profiles;
+  }
+
+  const cutoff = new Date(connectedAfter).getTime();
+  return profiles.filter(profile => {
+    const lastInteraction = getLastInteractionDate(profile);
+    return lastInteraction !== null && lastInteraction.getTime() >= cutoff;
+  });
+};
+
+/**
+ * Role a contact held before their current one
+ * 
+ * @param profile - Profile with history
+ * @returns Most recent earlier title/company, or undefined when none is known
+ */
+export const getPreviousRole = (profile: Profile): ProfileRole | undefined => {
+  const current = `${profile.title || ''}|${profile.company || ''}`.toLowerCase();
+  return (profile.history || [])
+    .slice()
+    .reverse()
+    .find(role => (role.title || role.company) && `${role.title || ''}|${role.company || ''}`.toLowerCase() !== current);
+};
+
 /**
  * Calculate cosine similarity between two vectors
  * 
@@ -104,22 +221,25 @@ export const cosineSimilarity = (a: number[], b: number[]): number => {
  * @param profiles - Array of profiles to search through
  * @param topN - Number of top matches to return
  * @param minSimilarity - Minimum similarity threshold (0-1)
+ * @param recency - Optional recency boost; ranking uses similarity + boostWeight * recency score
  * @returns Array of top matching profiles with similarity scores
  */
 export const findTopMatches = (
   missionEmbedding: number[], 
   profiles: Profile[], 
   topN: number = 5,
-  minSimilarity: number = 0.0
+  minSimilarity: number = 0.0,
+  recency?: RecencyOptions
 ): MatchResult[] => {
   const profilesWithSimilarity: ProfileWithEmbedding[] = [];
   const seenProfiles = new Set<string>(); // Track seen profiles to avoid duplicates
 
   // Calculate similarity for each profile
   for (const profile of profiles) {
-    if (profile.embedding && profile.embedding.length > 0) {
-      // Create a unique key for deduplication based on name and company
-      const profileKey = `${profile.name.toLowerCase().trim()}-${(profile.company || 'unknown').toLowerCase().trim()}`;
+    // Embeddings from a different model can't be compared with the mission
+    if (profile.embedding && profile.embedding.length === missionEmbedding.length) {
+      // Deduplicate on the person's identity (LinkedIn URL, email, or name and company)
+      const profileKey = getIdentityKey(profile);
       
       // Skip if we've already seen this person
       if (seenProfiles.has(profileKey)) {
@@ -140,21 +260,58 @@ export const findTopMatches = (
     }
   }
 
-  // Sort by similarity (highest first) and return top N
+  // Rank by similarity plus any recency boost (highest first) and return top N
+  const rankScore = ({ profile, similarity }: ProfileWithEmbedding): number =>
+    similarity + calculateRecencyBoost(profile, recency);
+
   return profilesWithSimilarity
-    .sort((a, b) => b.similarity - a.similarity)
+    .sort((a, b) => rankScore(b) - rankScore(a))
     .slice(0, topN)
-    .map(({ profile, similarity }) => ({
-      id: profile.id,
-      name: profile.name,
-      title: profile.title,
-      company: profile.company,
-      location: profile.location,
-      industry: profile.industry,
-      linkedinUrl: profile.linkedinUrl,
-      summary: profile.summary,
-      similarity
-    }));
+    .map(({ profile, similarity }) => toMatchResult(profile, similarity));
+};
+
+/**
+ * Build the match result returned for a profile
+ * 
+ * @param profile - Matched profile
+ * @param similarity - Similarity score to report
+ * @returns Match result without the embedding
+ */
+export const toMatchResult = (profile: Profile, similarity: number): MatchResult => ({
+  id: profile.id,
+  name: profile.name,
+  title: profile.title,
+  company: profile.company,
+  location: profile.location,
+  industry: profile.industry,
+  linkedinUrl: profile.linkedinUrl,
+  summary: profile.summary,
+  connectedOn: profile.connectedOn,
+  jobChangedAt: profile.jobChangedAt,
+  previousRole: getPreviousRole(profile),
+  similarity
+});
+
+/**
+ * Describe the roles a contact held before their current one, oldest first
+ * Included in the embedded text so matching sees career trajectory
+ * 
+ * @param profile - Profile with history
+ * @returns e.g. "Previously: Engineer at Acme, then Lead at Beta", or empty when unknown
+ */
+export const formatCareerTrajectory = (profile: Profile): string => {
+  const current = `${profile.title || ''}|${profile.company || ''}`.toLowerCase();
+  const seen = new Set<string>([current]);
+  const roles: string[] = [];
+
+  for (const role of profile.history || []) {
+    const key = `${role.title || ''}|${role.company || ''}`.toLowerCase();
+    if ((!role.title && !role.company) || seen.has(key)) continue;
+    seen.add(key);
+    roles.push([role.title, role.company].filter(Boolean).join(' at '));
+  }
+
+  return roles.length > 0 ? `Previously: ${roles.join(', then ')}` : '';
 };
 
 /**
@@ -174,7 +331,8 @@ export const generateProfileText = (profile: Profile): string => {
     profile.summary,
     profile.experience,
     profile.education,
-    profile.skills?.join(', ')
+    profile.skills?.join(', '),
+    formatCareerTrajectory(profile)
   ].filter(Boolean);
 
   return parts.join(' ');
@@ -198,56 +356,12 @@ export const generateMissionText = (mission: string, attributes: MissionAttribut
  * 
  * @param csvData - Raw CSV data from LinkedIn export
  * @param sessionId - Upload session ID to track this batch
+ * @param mapping - Optional column mapping; detected from the headers when omitted
  * @returns Array of structured Profile objects
  */
-export const parseLinkedInCSV = (csvData: Record<string, string>[], sessionId?: string): Profile[] => {
-  return csvData.map((row, index) => {
-    // Handle different possible field names from LinkedIn exports
-    const firstName = row["First Name"] || row["first_name"] || row["First name"] || "";
-    const lastName = row["Last Name"] || row["last_name"] || row["Last name"] || "";
-    const jobTitle = row["Position"] || row["Job Title"] || row["Title"] || row["position"] || row["job_title"] || "";
-    const company = row["Company"] || row["company"] || row["Organization"] || row["organization"] || "";
-    const location = row["Location"] || row["location"] || row["City"] || row["city"] || "";
-    const industry = row["Industry"] || row["industry"] || row["Sector"] || row["sector"] || "";
-    const linkedinUrl = row["URL"] || row["LinkedIn URL"] || row["Profile URL"] || row["url"] || row["linkedin_url"] || "";
-    const email = row["Email Address"] || row["email"] || row["Email"] || "";
-    
-    // Extract additional fields that might be available
-    const summary = row["Summary"] || row["summary"] || row["About"] || row["about"] || "";
-    const experience = row["Experience"] || row["experience"] || row["Work Experience"] || row["work_experience"] || "";
-    const education = row["Education"] || row["education"] || row["School"] || row["school"] || "";
-    const skills = row["Skills"] || row["skills"] || row["Endorsements"] || row["endorsements"] || "";
-    
-    // Parse skills from string to array
-    const skillsArray = skills ? skills.split(',').map(skill => skill.trim()).filter(skill => skill.length > 0) : [];
-    
-    // Create a more comprehensive summary
-    const enhancedSummary = summary || 
-      (jobTitle && company ? `${jobTitle} at ${company}` : 
-       jobTitle || company || `${firstName} ${lastName}`.trim());
-    
-    // Create experience description
-    const experienceText = experience || 
-      (jobTitle && company ? `${jobTitle} at ${company}` : 
-       jobTitle || company || "");
-
-    return {
-      id: `csv-${index}-${Date.now()}`,
-      name: `${firstName} ${lastName}`.trim(),
-      title: jobTitle,
-      company: company,
-      location: location,
-      industry: industry,
-      linkedinUrl: linkedinUrl,
-      email: email,
-      summary: enhancedSummary,
-      experience: experienceText,
-      education: education,
-      skills: skillsArray,
-      profilePicture: "", // Will be populated if we scrape the profile
-      uploadSessionId: sessionId
-    };
-  });
+export const parseLinkedInCSV = (csvData: Record<string, string>[], sessionId?: string, mapping?: ColumnMapping): Profile[] => {
+  const headers = csvData.length > 0 ? Object.keys(csvData[0]) : [];
+  return applyColumnMapping(csvData, mapping || detectColumnMapping(headers), sessionId);
 };
 
 /**
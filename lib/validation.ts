@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { findPlace } from './geo';
+import { decodeSearchCursor, MAX_SEARCH_LIMIT } from './search-paging';
+import { MAX_SEED_PROFILES } from './similar-profiles';
 
 /**
  * Input validation utilities for API endpoints
@@ -123,6 +126,467 @@ export function validateSessionId(sessionId: string): ValidationResult {
   };
 }
 
+/**
+ * Validate the scope of a search request (see search-scope)
+ * @param data - Request body with optional scope ('all' or 'sessions'), sessionIds, or a single sessionId
+ * @returns ValidationResult with the scope: the listed sessions, or all contacts when none are given
+ */
+export function validateSearchScope(data: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+  const { scope, sessionId, sessionIds } = data;
+
+  if (scope !== undefined && scope !== 'all' && scope !== 'sessions') {
+    errors.push("scope must be 'all' or 'sessions'");
+    return { isValid: false, errors };
+  }
+
+  if (scope === 'all') {
+    return { isValid: true, errors, data: {} };
+  }
+
+  const requested = sessionIds !== undefined ? sessionIds : sessionId !== undefined && sessionId !== null ? [sessionId] : undefined;
+  if (requested === undefined) {
+    if (scope === 'sessions') {
+      errors.push('sessionIds are required to search selected sessions');
+    }
+    return { isValid: errors.length === 0, errors, data: {} };
+  }
+
+  if (!Array.isArray(requested) || requested.length === 0 || requested.length > 100) {
+    errors.push('sessionIds must be an array of 1 to 100 session IDs');
+    return { isValid: false, errors };
+  }
+
+  requested.forEach(id => errors.push(...validateSessionId(id as string).errors));
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { sessionIds: Array.from(new Set((requested as string[]).map(id => id.trim()))) }
+  };
+}
+
+/**
+ * Validate connection recency options for search requests
+ * @param recency - Recency options from the request body
+ * @returns ValidationResult with normalized options
+ */
+export function validateRecencyOptions(recency: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (recency === undefined || recency === null) {
+    return { isValid: true, errors, data: undefined };
+  }
+
+  if (typeof recency !== 'object') {
+    errors.push('Recency options must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { connectedAfter, boostWeight, halfLifeDays } = recency as Record<string, unknown>;
+
+  if (connectedAfter !== undefined && (typeof connectedAfter !== 'string' || isNaN(new Date(connectedAfter).getTime()))) {
+    errors.push('connectedAfter must be a valid date');
+  }
+
+  if (boostWeight !== undefined && (typeof boostWeight !== 'number' || boostWeight < 0 || boostWeight > 1)) {
+    errors.push('boostWeight must be a number between 0 and 1');
+  }
+
+  if (halfLifeDays !== undefined && (typeof halfLifeDays !== 'number' || halfLifeDays <= 0)) {
+    errors.push('halfLifeDays must be a positive number');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { connectedAfter, boostWeight, halfLifeDays }
+  };
+}
+
+/**
+ * Validate hybrid ranking overrides (see hybrid-search)
+ * @param ranking - Optional object with method ('rrf' or 'blend'), semanticWeight and lexicalWeight
+ * @returns ValidationResult with the ranking overrides, or undefined when not provided
+ */
+export function validateRankingOptions(ranking: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (ranking === undefined || ranking === null) {
+    return { isValid: true, errors, data: undefined };
+  }
+
+  if (typeof ranking !== 'object') {
+    errors.push('Ranking options must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { method, semanticWeight, lexicalWeight } = ranking as Record<string, unknown>;
+
+  if (method !== undefined && method !== 'rrf' && method !== 'blend') {
+    errors.push("method must be 'rrf' or 'blend'");
+  }
+
+  [['semanticWeight', semanticWeight], ['lexicalWeight', lexicalWeight]].forEach(([name, weight]) => {
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+      errors.push(`${name} must be a non-negative number`);
+    }
+  });
+
+  if (semanticWeight === 0 && lexicalWeight === 0) {
+    errors.push('semanticWeight and lexicalWeight cannot both be 0');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { method, semanticWeight, lexicalWeight }
+  };
+}
+
+/**
+ * Validate the seed contacts of a similar-contact search (see similar-profiles)
+ * @param profileIds - Array of profile IDs
+ * @returns ValidationResult with the unique IDs
+ */
+export function validateSeedProfileIds(profileIds: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!Array.isArray(profileIds) || profileIds.length === 0 || profileIds.length > MAX_SEED_PROFILES) {
+    errors.push(`profileIds must be an array of 1 to ${MAX_SEED_PROFILES} profile IDs`);
+    return { isValid: false, errors };
+  }
+
+  if (profileIds.some(id => typeof id !== 'string' || id.trim().length === 0 || id.length > 200)) {
+    errors.push('profileIds must be non-empty strings');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? Array.from(new Set((profileIds as string[]).map(id => id.trim()))) : undefined
+  };
+}
+
+/**
+ * Validate diversity re-ranking options (see diversity)
+ * @param diversity - Optional object with lambda (0-1) and maxPerCompany
+ * @returns ValidationResult with the options, or undefined data when not given
+ */
+export function validateDiversityOptions(diversity: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (diversity === undefined || diversity === null) {
+    return { isValid: true, errors, data: undefined };
+  }
+
+  if (typeof diversity !== 'object' || Array.isArray(diversity)) {
+    errors.push('Diversity options must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { lambda, maxPerCompany } = diversity as Record<string, unknown>;
+
+  if (lambda !== undefined && (typeof lambda !== 'number' || !Number.isFinite(lambda) || lambda < 0 || lambda > 1)) {
+    errors.push('lambda must be a number between 0 and 1');
+  }
+
+  if (maxPerCompany !== undefined && (typeof maxPerCompany !== 'number' || !Number.isInteger(maxPerCompany) || maxPerCompany < 1)) {
+    errors.push('maxPerCompany must be a positive integer');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { lambda, maxPerCompany }
+  };
+}
+
+// Check a result count and similarity threshold, shared by search requests and saved defaults
+function checkSearchLimits(limit: unknown, minSimilarity: unknown, errors: string[]): void {
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT)) {
+    errors.push(`limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`);
+  }
+  if (minSimilarity !== undefined && (typeof minSimilarity !== 'number' || !Number.isFinite(minSimilarity) || minSimilarity < 0 || minSimilarity > 1)) {
+    errors.push('minSimilarity must be a number between 0 and 1');
+  }
+}
+
+/**
+ * Validate paging options of search requests (see search-paging)
+ * @param data - Request body with optional limit, offset or cursor, and minSimilarity
+ * @returns ValidationResult with the requested paging values
+ */
+export function validateSearchPaging(data: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+  const { limit, offset, cursor, minSimilarity } = data;
+
+  checkSearchLimits(limit, minSimilarity, errors);
+
+  let start = offset;
+  if (offset !== undefined && cursor !== undefined) {
+    errors.push('Use either offset or cursor, not both');
+  } else if (offset !== undefined && (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0)) {
+    errors.push('offset must be a non-negative integer');
+  } else if (cursor !== undefined) {
+    start = typeof cursor === 'string' ? decodeSearchCursor(cursor) ?? undefined : undefined;
+    if (start === undefined) {
+      errors.push('cursor is invalid');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { limit, offset: start, minSimilarity }
+  };
+}
+
+/**
+ * Validate saved search defaults (see search-paging)
+ * @param defaults - Object with limit and/or minSimilarity
+ * @returns ValidationResult with the defaults
+ */
+export function validateSearchDefaults(defaults: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!defaults || typeof defaults !== 'object' || Array.isArray(defaults)) {
+    errors.push('Search defaults must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { limit, minSimilarity } = defaults as Record<string, unknown>;
+  if (limit === undefined && minSimilarity === undefined) {
+    errors.push('Search defaults need a limit or minSimilarity');
+  }
+  checkSearchLimits(limit, minSimilarity, errors);
+
+  // Unset values are left out so they fall back to the endpoint's defaults
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: Object.fromEntries(Object.entries({ limit, minSimilarity }).filter(([, value]) => value !== undefined))
+  };
+}
+
+/**
+ * Validate a workspace taxonomy (see taxonomy)
+ * @param taxonomy - Object with industries (optionally with subIndustries), roleFamilies and seniorityLevels
+ * @returns ValidationResult with the taxonomy
+ */
+export function validateTaxonomy(taxonomy: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!taxonomy || typeof taxonomy !== 'object') {
+    errors.push('Taxonomy must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { industries, roleFamilies, seniorityLevels } = taxonomy as Record<string, unknown>;
+  const industryIds = new Set<string>(); // Shared by industries and sub-industries, which filter together
+  let termCount = 0;
+
+  // Check a list of terms; returns the terms as records for further checks
+  const checkTerms = (terms: unknown, name: string, seenIds: Set<string> = new Set()): Record<string, unknown>[] => {
+    if (!Array.isArray(terms)) {
+      errors.push(`${name} must be an array`);
+      return [];
+    }
+    return terms.filter((term, index): term is Record<string, unknown> => {
+      if (!term || typeof term !== 'object') {
+        errors.push(`${name}[${index}] must be an object`);
+        return false;
+      }
+      const { id, label, keywords } = term as Record<string, unknown>;
+      termCount++;
+      if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]{0,49}$/.test(id)) {
+        errors.push(`${name}[${index}].id must be lowercase letters, digits and dashes (max 50)`);
+      } else if (seenIds.has(id)) {
+        errors.push(`Duplicate id in ${name}: ${id}`);
+      } else {
+        seenIds.add(id);
+      }
+      if (typeof label !== 'string' || label.trim().length === 0 || label.length > 100) {
+        errors.push(`${name}[${index}].label must be a non-empty string (max 100 characters)`);
+      }
+      if (!Array.isArray(keywords) || keywords.some(keyword => typeof keyword !== 'string' || keyword.trim().length === 0)) {
+        errors.push(`${name}[${index}].keywords must be an array of non-empty strings`);
+      }
+      return true;
+    });
+  };
+
+  checkTerms(industries, 'industries', industryIds).forEach((industry, index) => {
+    if (industry.subIndustries !== undefined) {
+      checkTerms(industry.subIndustries, `industries[${index}].subIndustries`, industryIds);
+    }
+  });
+  checkTerms(roleFamilies, 'roleFamilies');
+  checkTerms(seniorityLevels, 'seniorityLevels').forEach((level, index) => {
+    if (typeof level.rank !== 'number' || !Number.isFinite(level.rank)) {
+      errors.push(`seniorityLevels[${index}].rank must be a number`);
+    }
+  });
+
+  if (termCount > 1000) {
+    errors.push('Taxonomy cannot have more than 1000 terms');
+  }
+
+  if (errors.length > 0) {
+    return { isValid: false, errors };
+  }
+
+  // Keep only known fields, with trimmed keywords
+  const toTerm = ({ id, label, keywords }: Record<string, unknown>) => ({
+    id,
+    label: (label as string).trim(),
+    keywords: (keywords as string[]).map(keyword => keyword.trim())
+  });
+
+  return {
+    isValid: true,
+    errors,
+    data: {
+      industries: (industries as Record<string, unknown>[]).map(industry => ({
+        ...toTerm(industry),
+        subIndustries: ((industry.subIndustries || []) as Record<string, unknown>[]).map(toTerm)
+      })),
+      roleFamilies: (roleFamilies as Record<string, unknown>[]).map(toTerm),
+      seniorityLevels: (seniorityLevels as Record<string, unknown>[]).map(level => ({ ...toTerm(level), rank: level.rank }))
+    }
+  };
+}
+
+/**
+ * Validate structured search filters (see search-filters)
+ * @param filters - Optional object with taxonomy ID arrays (industries, roleFamilies, seniorities), location,
+ *   companies, connectedAfter/connectedBefore, hasEmail and enrichedOnly
+ * @param knownIds - Term IDs of the user's taxonomy by dimension
+ * @returns ValidationResult with the filters, or undefined when not provided
+ */
+export function validateSearchFilters(filters: unknown, knownIds: Record<'industries' | 'roleFamilies' | 'seniorities', string[]>): ValidationResult {
+  const errors: string[] = [];
+
+  if (filters === undefined || filters === null) {
+    return { isValid: true, errors, data: undefined };
+  }
+
+  if (typeof filters !== 'object') {
+    errors.push('Filters must be an object');
+    return { isValid: false, errors };
+  }
+
+  const { industries, roleFamilies, seniorities, location, companies, connectedAfter, connectedBefore, hasEmail, enrichedOnly } = filters as Record<string, unknown>;
+
+  ([['industries', industries], ['roleFamilies', roleFamilies], ['seniorities', seniorities]] as const).forEach(([name, ids]) => {
+    if (ids === undefined) return;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      errors.push(`${name} must be an array of taxonomy IDs`);
+      return;
+    }
+    const unknown = ids.filter(id => !knownIds[name].includes(id));
+    if (unknown.length > 0) {
+      errors.push(`Unknown ${name}: ${unknown.join(', ')}`);
+    }
+  });
+
+  if (location !== undefined) {
+    const { query, radiusKm } = (location || {}) as Record<string, unknown>;
+    if (typeof query !== 'string' || query.trim().length === 0) {
+      errors.push('location.query must be a non-empty string');
+    } else if (radiusKm !== undefined) {
+      if (typeof radiusKm !== 'number' || !Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > 1000) {
+        errors.push('location.radiusKm must be a number between 0 and 1000');
+      } else if (!findPlace(query)) {
+        errors.push(`Unknown location for a radius search: ${query}. Use a major city or leave out the radius.`);
+      }
+    }
+  }
+
+  if (companies !== undefined) {
+    const { include, exclude } = (companies || {}) as Record<string, unknown>;
+    [['companies.include', include], ['companies.exclude', exclude]].forEach(([name, names]) => {
+      if (names !== undefined && (!Array.isArray(names) || names.some(company => typeof company !== 'string'))) {
+        errors.push(`${name} must be an array of company names`);
+      }
+    });
+  }
+
+  [['connectedAfter', connectedAfter], ['connectedBefore', connectedBefore]].forEach(([name, date]) => {
+    if (date !== undefined && (typeof date !== 'string' || isNaN(new Date(date).getTime()))) {
+      errors.push(`${name} must be a valid date`);
+    }
+  });
+
+  [['hasEmail', hasEmail], ['enrichedOnly', enrichedOnly]].forEach(([name, flag]) => {
+    if (flag !== undefined && typeof flag !== 'boolean') {
+      errors.push(`${name} must be a boolean`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { industries, roleFamilies, seniorities, location, companies, connectedAfter, connectedBefore, hasEmail, enrichedOnly }
+  };
+}
+
+/**
+ * Validate the results of a match run being saved over an existing run
+ * @param data - Request body with mission, matches, recommendations and optional revision
+ * @returns ValidationResult with the run update
+ */
+export function validateMatchRunUpdate(data: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+  const { mission, matches, recommendations, revision } = data;
+
+  if (typeof mission !== 'string' || mission.trim().length === 0) {
+    errors.push('Mission is required');
+  }
+
+  if (!Array.isArray(matches) || matches.length === 0) {
+    errors.push('Matches must be a non-empty array');
+  }
+
+  if (typeof recommendations !== 'string') {
+    errors.push('Recommendations must be a string');
+  }
+
+  if (revision !== undefined && (typeof revision !== 'number' || !Number.isInteger(revision) || revision < 1)) {
+    errors.push('Revision must be a positive integer');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { mission, matches, recommendations, revision }
+  };
+}
+
+/**
+ * Validate feedback on a match of a saved run
+ * @param data - Object with the match's profileId and a verdict ('relevant' or 'irrelevant')
+ * @returns ValidationResult with the profileId and verdict
+ */
+export function validateMatchFeedback(data: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+  const { profileId, verdict } = data;
+
+  if (typeof profileId !== 'string' || profileId.trim().length === 0) {
+    errors.push('profileId is required');
+  }
+
+  if (verdict !== 'relevant' && verdict !== 'irrelevant') {
+    errors.push("verdict must be 'relevant' or 'irrelevant'");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: { profileId, verdict }
+  };
+}
+
 /**
  * Validate email format
  * @param email - Email to validate
@@ -154,6 +618,17 @@ export function validateEmail(email: string): ValidationResult {
   };
 }
 
+/**
+ * Check whether an uploaded file is a ZIP archive (e.g. a LinkedIn data export)
+ * Browsers report ZIP MIME types inconsistently, so the extension is also checked
+ * @param file - File object to inspect
+ * @returns True if the file looks like a ZIP archive
+ */
+export function isZipUpload(file: File): boolean {
+  const zipTypes = ['application/zip', 'application/x-zip-compressed', 'application/x-zip'];
+  return zipTypes.includes(file.type) || (file.name || '').toLowerCase().endsWith('.zip');
+}
+
 /**
  * Validate file upload
  * @param file - File object to validate
@@ -168,14 +643,15 @@ export function validateFileUpload(file: File): ValidationResult {
   }
 
   // Check file type
-  if (file.type !== 'text/csv') {
-    errors.push('File must be a CSV file');
+  const isZip = isZipUpload(file);
+  if (file.type !== 'text/csv' && !isZip) {
+    errors.push('File must be a CSV file or a LinkedIn data export ZIP');
   }
 
-  // Check file size (max 10MB)
-  const maxSize = 10 * 1024 * 1024; // 10MB
+  // Check file size (max 10MB for CSV, 50MB for a full data export)
+  const maxSize = isZip ? 50 * 1024 * 1024 : 10 * 1024 * 1024;
   if (file.size > maxSize) {
-    errors.push('File size must be less than 10MB');
+    errors.push(`File size must be less than ${isZip ? '50MB' : '10MB'}`);
   }
 
   // Check file name
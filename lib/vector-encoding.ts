@@ -0,0 +1,191 @@
+import { Binary, BSON } from 'mongodb';
+
+/**
+ * Compact embedding storage
+ *
+ * MongoDB profiles store their embedding as a packed BSON vector (binary
+ * subtype 9) instead of an array of doubles, which Atlas Vector Search indexes
+ * directly. Vectors are decoded only when a profile's `embedding` is read.
+ *
+ * Storage format (EMBEDDING_STORAGE_FORMAT):
+ * - `float32`: 4 bytes per dimension, scores differ from full precision by ~1e-7 (default)
+ * - `int8`: 1 byte per dimension, scaled by the vector's largest component; see
+ *   measureQuantizationLoss for the effect on rankings
+ * - `float64`: array of doubles (8 bytes per dimension plus BSON overhead), as stored before
+ *
+ * Documents stored in another format stay readable and are converted when next written.
+ */
+
+export type EmbeddingStorageFormat = 'float64' | 'float32' | 'int8';
+
+export const EMBEDDING_STORAGE_FORMATS: EmbeddingStorageFormat[] = ['float64', 'float32', 'int8'];
+
+/**
+ * Embedding as written to a profile document
+ */
+export interface StoredEmbedding {
+  embedding: number[] | Binary;
+  embeddingScale?: number; // int8 only: value of one quantization step
+}
+
+export interface QuantizationReport {
+  format: EmbeddingStorageFormat;
+  bytesPerVector: number; // BSON size of the stored fields
+  recallAtK: number; // Share of the full-precision top K still in the top K
+  meanScoreError: number; // Mean absolute cosine similarity error
+  maxScoreError: number;
+}
+
+/**
+ * Storage format configured for this process
+ */
+export const getEmbeddingStorageFormat = (): EmbeddingStorageFormat => {
+  const configured = process.env.EMBEDDING_STORAGE_FORMAT;
+  return configured === 'float64' || configured === 'int8' ? configured : 'float32';
+};
+
+// Symmetric per-vector quantization: the largest component maps to ±127
+const quantizeInt8 = (vector: number[]): { values: Int8Array; scale: number } => {
+  const maxAbs = vector.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+  return { values: Int8Array.from(vector, value => Math.round(value / scale)), scale };
+};
+
+/**
+ * Pack an embedding for storage
+ *
+ * @param vector - Full-precision embedding
+ * @param format - Storage format, defaults to the configured one
+ * @returns Fields to set on the profile document
+ */
+export const packEmbedding = (vector: number[], format: EmbeddingStorageFormat = getEmbeddingStorageFormat()): StoredEmbedding => {
+  if (format === 'float32') {
+    return { embedding: Binary.fromFloat32Array(Float32Array.from(vector)) };
+  }
+  if (format === 'int8') {
+    const { values, scale } = quantizeInt8(vector);
+    return { embedding: Binary.fromInt8Array(values), embeddingScale: scale };
+  }
+  return { embedding: vector };
+};
+
+/**
+ * Decode a stored embedding in any format
+ *
+ * @param stored - Embedding field as read from the document
+ * @param scale - embeddingScale of the document (int8 only)
+ * @returns Embedding as numbers, or undefined if none is stored
+ */
+export const unpackEmbedding = (stored: unknown, scale?: number): number[] | undefined => {
+  if (Array.isArray(stored)) {
+    return stored as number[];
+  }
+  if (!(stored instanceof Binary) || stored.sub_type !== Binary.SUBTYPE_VECTOR) {
+    return undefined;
+  }
+  if (stored.buffer[0] === Binary.VECTOR_TYPE.Int8) {
+    const step = scale ?? 1;
+    return Array.from(stored.toInt8Array(), value => value * step);
+  }
+  return Array.from(stored.toFloat32Array());
+};
+
+/**
+ * Replace a document's packed embedding with a property that decodes it on first read
+ * The decoded vector is kept for later reads; profiles whose embedding is never
+ * read hold only the packed bytes. Assigning a new embedding replaces the
+ * property with a plain value.
+ *
+ * @param document - Document as read from the database; modified in place
+ * @returns The document
+ */
+export const decodeEmbeddingLazily = <T extends { embedding?: number[] | Binary; embeddingScale?: number }>(
+  document: T
+): Omit<T, 'embedding'> & { embedding?: number[] } => {
+  const stored = document.embedding;
+  const scale = document.embeddingScale;
+  if (!(stored instanceof Binary)) {
+    return { ...document, embedding: stored };
+  }
+
+  // Only the packed vector and its decoding are captured, so the accessor can be copied to other objects (see toProfile)
+  let decoded: number[] | undefined;
+  Object.defineProperty(document, 'embedding', {
+    configurable: true,
+    enumerable: true,
+    get: () => decoded ??= unpackEmbedding(stored, scale),
+    set(this: object, value: number[] | undefined) {
+      Object.defineProperty(this, 'embedding', { configurable: true, enumerable: true, writable: true, value });
+    }
+  });
+  return document as Omit<T, 'embedding'> & { embedding?: number[] };
+};
+
+// Cosine similarity of two vectors
+const cosine = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+// Indices of the k highest scores
+const topK = (scores: number[], k: number): number[] =>
+  scores.map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(({ index }) => index);
+
+/**
+ * Measure how much each storage format changes search results
+ * Each query vector (a full-precision embedding, as missions are) is scored
+ * against every corpus vector at full precision and after a round trip through
+ * each format, excluding the query's own vector.
+ *
+ * @param corpus - Full-precision embeddings to search, e.g. a sample of a user's profiles
+ * @param queryCount - Number of corpus vectors used as queries, spread evenly
+ * @param k - Result list length for recall
+ * @returns Size and loss of each format
+ */
+export const measureQuantizationLoss = (corpus: number[][], queryCount: number = 50, k: number = 10): QuantizationReport[] => {
+  const queryStep = Math.max(1, Math.floor(corpus.length / Math.max(1, queryCount)));
+  const queries = corpus.map((_, index) => index).filter(index => index % queryStep === 0).slice(0, queryCount);
+  const exactScores = queries.map(query => corpus.map((vector, index) => index === query ? -Infinity : cosine(corpus[query], vector)));
+
+  return EMBEDDING_STORAGE_FORMATS.map(format => {
+    const packed = corpus.map(vector => packEmbedding(vector, format));
+    const decoded = packed.map(stored => unpackEmbedding(stored.embedding, stored.embeddingScale)!);
+
+    let hits = 0;
+    let errorSum = 0;
+    let maxScoreError = 0;
+    let scored = 0;
+    queries.forEach((query, q) => {
+      const scores = decoded.map((vector, index) => index === query ? -Infinity : cosine(corpus[query], vector));
+      scores.forEach((score, index) => {
+        if (index === query) return;
+        const error = Math.abs(score - exactScores[q][index]);
+        errorSum += error;
+        maxScoreError = Math.max(maxScoreError, error);
+        scored++;
+      });
+
+      const expected = new Set(topK(exactScores[q], k));
+      hits += topK(scores, k).filter(index => expected.has(index)).length;
+    });
+
+    const relevant = queries.length * Math.min(k, Math.max(0, corpus.length - 1));
+    return {
+      format,
+      bytesPerVector: packed.length === 0 ? 0 : BSON.calculateObjectSize({ ...packed[0] }),
+      recallAtK: relevant === 0 ? 1 : hits / relevant,
+      meanScoreError: scored === 0 ? 0 : errorSum / scored,
+      maxScoreError
+    };
+  });
+};
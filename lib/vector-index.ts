@@ -0,0 +1,423 @@
+/**
+ * Approximate nearest neighbour index (HNSW)
+ *
+ * Hierarchical navigable small world graph over unit-normalized Float32Array
+ * vectors, scored by cosine similarity (dot product of normalized vectors).
+ * Each vector is linked to its nearest neighbours on layer 0 and, with
+ * exponentially decreasing probability, on sparser upper layers; a search
+ * descends greedily from the top layer and then explores layer 0 best-first,
+ * so it visits a small fraction of the vectors.
+ *
+ * Removal leaves a tombstone: the node keeps routing searches but is never
+ * returned. Callers rebuild once too many nodes are removed.
+ *
+ * Only the graph is serialized, not the vectors; they are supplied again when
+ * the index is loaded.
+ */
+
+export interface VectorIndexOptions {
+  m?: number; // Links per node on upper layers (twice as many on layer 0)
+  efConstruction?: number; // Candidate list size while inserting
+  efSearch?: number; // Default candidate list size while searching
+  seed?: number; // Seed for layer assignment, so rebuilds are reproducible
+}
+
+export interface VectorSearchResult {
+  key: string;
+  score: number; // Cosine similarity computed in float32
+}
+
+export interface VectorSearchOptions {
+  ef?: number;
+  filter?: (key: string) => boolean; // Only keys passing the filter are returned
+}
+
+export interface SerializedVectorIndex {
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  seed: number;
+  entryPoint: number;
+  maxLevel: number;
+  keys: string[]; // Node keys in insertion order
+  levels: number[]; // Top layer of each node
+  links: string; // Base64 Int32Array: per node and layer, the link count followed by the linked nodes
+}
+
+export interface VectorIndex {
+  readonly dimensions: number;
+  size(): number; // Live (not removed) vectors
+  removedCount(): number;
+  has(key: string): boolean;
+  keys(): string[]; // Live keys
+  add(key: string, vector: ArrayLike<number>): void; // Replaces an existing vector with the same key
+  remove(key: string): boolean;
+  search(query: ArrayLike<number>, k: number, options?: VectorSearchOptions): VectorSearchResult[];
+  serialize(): SerializedVectorIndex; // Only without removed nodes; their vectors are not kept
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 100;
+const DEFAULT_EF_SEARCH = 64;
+const DEFAULT_SEED = 42;
+
+interface ScoredNode {
+  node: number;
+  score: number;
+}
+
+// Binary heap ordered so that `before(a, b)` puts a nearer the top
+const createHeap = (before: (a: ScoredNode, b: ScoredNode) => boolean) => {
+  const items: ScoredNode[] = [];
+  return {
+    size: () => items.length,
+    peek: (): ScoredNode | undefined => items[0],
+    push: (item: ScoredNode): void => {
+      items.push(item);
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!before(items[i], items[parent])) break;
+        [items[i], items[parent]] = [items[parent], items[i]];
+        i = parent;
+      }
+    },
+    pop: (): ScoredNode | undefined => {
+      const top = items[0];
+      const last = items.pop();
+      if (items.length > 0 && last) {
+        items[0] = last;
+        let i = 0;
+        for (;;) {
+          const left = 2 * i + 1;
+          const right = left + 1;
+          let next = i;
+          if (left < items.length && before(items[left], items[next])) next = left;
+          if (right < items.length && before(items[right], items[next])) next = right;
+          if (next === i) break;
+          [items[i], items[next]] = [items[next], items[i]];
+          i = next;
+        }
+      }
+      return top;
+    },
+    toArray: (): ScoredNode[] => [...items]
+  };
+};
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Copy a vector into float32, scaled to unit length
+const toUnitVector = (vector: ArrayLike<number>, dimensions: number): Float32Array => {
+  if (vector.length !== dimensions) {
+    throw new Error(`Vector has ${vector.length} dimensions, index expects ${dimensions}`);
+  }
+  const unit = new Float32Array(dimensions);
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) {
+    unit[i] = vector[i];
+    norm += unit[i] * unit[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < dimensions; i++) unit[i] /= norm;
+  }
+  return unit;
+};
+
+type VectorLookup = (key: string) => ArrayLike<number> | undefined;
+
+// Create an empty index, with a way to restore a serialized graph into it
+const makeVectorIndex = (
+  dimensions: number,
+  options: VectorIndexOptions
+): { index: VectorIndex; restore: (data: SerializedVectorIndex, vectorFor: VectorLookup) => boolean } => {
+  const m = options.m ?? DEFAULT_M;
+  const maxLinks0 = m * 2;
+  const efConstruction = Math.max(options.efConstruction ?? DEFAULT_EF_CONSTRUCTION, m);
+  const efSearch = options.efSearch ?? DEFAULT_EF_SEARCH;
+  const seed = options.seed ?? DEFAULT_SEED;
+  const levelMultiplier = 1 / Math.log(m);
+  const random = createRandom(seed);
+
+  let vectors = new Float32Array(dimensions * 64);
+  const nodeKeys: string[] = [];
+  const levels: number[] = [];
+  const links: number[][][] = []; // node -> layer -> linked nodes
+  const removed: boolean[] = [];
+  const nodeByKey = new Map<string, number>();
+  let removedTotal = 0;
+  let entryPoint = -1;
+  let maxLevel = -1;
+
+  const similarityTo = (query: Float32Array, node: number): number => {
+    const offset = node * dimensions;
+    let dot = 0;
+    for (let i = 0; i < dimensions; i++) dot += query[i] * vectors[offset + i];
+    return dot;
+  };
+
+  const vectorOf = (node: number): Float32Array => vectors.subarray(node * dimensions, (node + 1) * dimensions);
+
+  const storeVector = (node: number, unit: Float32Array): void => {
+    if ((node + 1) * dimensions > vectors.length) {
+      const grown = new Float32Array(vectors.length * 2);
+      grown.set(vectors);
+      vectors = grown;
+    }
+    vectors.set(unit, node * dimensions);
+  };
+
+  // Move greedily to the most similar node on one layer
+  const greedyClosest = (query: Float32Array, start: number, level: number): number => {
+    let current = start;
+    let currentScore = similarityTo(query, current);
+    for (let improved = true; improved;) {
+      improved = false;
+      for (const neighbour of links[current][level] || []) {
+        const score = similarityTo(query, neighbour);
+        if (score > currentScore) {
+          current = neighbour;
+          currentScore = score;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  };
+
+  // Best-first search of one layer; returns up to ef accepted nodes, most similar first
+  const searchLayer = (
+    query: Float32Array,
+    start: number,
+    ef: number,
+    level: number,
+    accept: (node: number) => boolean = () => true
+  ): ScoredNode[] => {
+    const visited = new Set<number>([start]);
+    const startScore = { node: start, score: similarityTo(query, start) };
+    const candidates = createHeap((a, b) => a.score > b.score); // Most similar first
+    const results = createHeap((a, b) => a.score < b.score); // Least similar first
+    candidates.push(startScore);
+    if (accept(start)) results.push(startScore);
+
+    while (candidates.size() > 0) {
+      const closest = candidates.pop()!;
+      const worst = results.peek();
+      if (worst && results.size() >= ef && closest.score < worst.score) break;
+
+      for (const neighbour of links[closest.node][level] || []) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        const scored = { node: neighbour, score: similarityTo(query, neighbour) };
+        const currentWorst = results.peek();
+        if (results.size() < ef || !currentWorst || scored.score > currentWorst.score) {
+          candidates.push(scored);
+          if (accept(neighbour)) {
+            results.push(scored);
+            if (results.size() > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  };
+
+  // Keep diverse links: skip a candidate that is closer to an already kept neighbour than to the base
+  const selectNeighbours = (candidates: ScoredNode[], limit: number): number[] => {
+    const kept: ScoredNode[] = [];
+    const skipped: ScoredNode[] = [];
+    for (const candidate of candidates) {
+      if (kept.length >= limit) break;
+      const candidateVector = vectorOf(candidate.node);
+      const redundant = kept.some(existing => similarityTo(candidateVector, existing.node) > candidate.score);
+      (redundant ? skipped : kept).push(candidate);
+    }
+    // Fill up with the closest skipped candidates so nodes stay well connected
+    for (const candidate of skipped) {
+      if (kept.length >= limit) break;
+      kept.push(candidate);
+    }
+    return kept.map(({ node }) => node);
+  };
+
+  const linkNode = (node: number, neighbour: number, level: number): void => {
+    const neighbourLinks = links[neighbour][level];
+    neighbourLinks.push(node);
+    const limit = level === 0 ? maxLinks0 : m;
+    // Let the list overflow by half before pruning it back, so the heuristic runs once per several links
+    if (neighbourLinks.length > limit + (limit >> 1)) {
+      const base = vectorOf(neighbour);
+      const scored = neighbourLinks
+        .map(linked => ({ node: linked, score: similarityTo(base, linked) }))
+        .sort((a, b) => b.score - a.score);
+      links[neighbour][level] = selectNeighbours(scored, limit);
+    }
+  };
+
+  const insert = (key: string, unit: Float32Array): void => {
+    const node = nodeKeys.length;
+    const level = Math.floor(-Math.log(1 - random()) * levelMultiplier);
+    storeVector(node, unit);
+    nodeKeys.push(key);
+    levels.push(level);
+    links.push(Array.from({ length: level + 1 }, () => []));
+    removed.push(false);
+    nodeByKey.set(key, node);
+
+    if (entryPoint < 0) {
+      entryPoint = node;
+      maxLevel = level;
+      return;
+    }
+
+    let current = entryPoint;
+    for (let layer = maxLevel; layer > level; layer--) {
+      current = greedyClosest(unit, current, layer);
+    }
+    for (let layer = Math.min(level, maxLevel); layer >= 0; layer--) {
+      const nearest = searchLayer(unit, current, efConstruction, layer).filter(({ node: found }) => found !== node);
+      const neighbours = selectNeighbours(nearest, layer === 0 ? maxLinks0 : m);
+      links[node][layer] = neighbours;
+      neighbours.forEach(neighbour => linkNode(node, neighbour, layer));
+      if (nearest.length > 0) current = nearest[0].node;
+    }
+
+    if (level > maxLevel) {
+      entryPoint = node;
+      maxLevel = level;
+    }
+  };
+
+  const remove = (key: string): boolean => {
+    const node = nodeByKey.get(key);
+    if (node === undefined) return false;
+    nodeByKey.delete(key);
+    removed[node] = true;
+    removedTotal++;
+    return true;
+  };
+
+  // Fill the empty index from a serialized graph; false if a vector is missing
+  const restore = (data: SerializedVectorIndex, vectorFor: VectorLookup): boolean => {
+    const bytes = Buffer.from(data.links, 'base64');
+    const flat = new Int32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+    let position = 0;
+    for (let node = 0; node < data.keys.length; node++) {
+      const vector = vectorFor(data.keys[node]);
+      if (!vector) return false;
+      storeVector(node, toUnitVector(vector, dimensions));
+      nodeKeys.push(data.keys[node]);
+      levels.push(data.levels[node]);
+      removed.push(false);
+      nodeByKey.set(data.keys[node], node);
+      const layers: number[][] = [];
+      for (let layer = 0; layer <= data.levels[node]; layer++) {
+        const count = flat[position++];
+        layers.push(Array.from(flat.subarray(position, position + count)));
+        position += count;
+      }
+      links.push(layers);
+    }
+    entryPoint = data.entryPoint;
+    maxLevel = data.maxLevel;
+    return true;
+  };
+
+  const index: VectorIndex = {
+    dimensions,
+    size: () => nodeByKey.size,
+    removedCount: () => removedTotal,
+    has: (key) => nodeByKey.has(key),
+    keys: () => Array.from(nodeByKey.keys()),
+
+    add: (key, vector) => {
+      const unit = toUnitVector(vector, dimensions);
+      remove(key);
+      insert(key, unit);
+    },
+
+    remove,
+
+    search: (query, k, searchOptions = {}) => {
+      if (entryPoint < 0 || k <= 0) return [];
+      const unit = toUnitVector(query, dimensions);
+      const filter = searchOptions.filter;
+      const accept = (node: number): boolean => !removed[node] && (!filter || filter(nodeKeys[node]));
+
+      let current = entryPoint;
+      for (let layer = maxLevel; layer > 0; layer--) {
+        current = greedyClosest(unit, current, layer);
+      }
+      return searchLayer(unit, current, Math.max(searchOptions.ef ?? efSearch, k), 0, accept)
+        .slice(0, k)
+        .map(({ node, score }) => ({ key: nodeKeys[node], score }));
+    },
+
+    serialize: () => {
+      if (removedTotal > 0) {
+        throw new Error('Cannot serialize an index with removed vectors; rebuild it first');
+      }
+      const flat: number[] = [];
+      links.forEach(layers => layers.forEach(linked => flat.push(linked.length, ...linked)));
+      return {
+        dimensions,
+        m,
+        efConstruction,
+        efSearch,
+        seed,
+        entryPoint,
+        maxLevel,
+        keys: [...nodeKeys],
+        levels: [...levels],
+        links: Buffer.from(new Int32Array(flat).buffer).toString('base64')
+      };
+    }
+  };
+
+  return { index, restore };
+};
+
+/**
+ * Create an empty index
+ *
+ * @param dimensions - Vector size
+ * @param options - Graph parameters (m 16, efConstruction 100, efSearch 64)
+ * @returns Index to add vectors to
+ */
+export const createVectorIndex = (dimensions: number, options: VectorIndexOptions = {}): VectorIndex =>
+  makeVectorIndex(dimensions, options).index;
+
+/**
+ * Rebuild an index from its serialized graph and the original vectors
+ *
+ * @param data - Output of serialize()
+ * @param vectorFor - Vector for a key, as it was when the index was serialized
+ * @returns The index, or null if a vector is missing or has another size
+ */
+export const loadVectorIndex = (data: SerializedVectorIndex, vectorFor: VectorLookup): VectorIndex | null => {
+  const { index, restore } = makeVectorIndex(data.dimensions, {
+    m: data.m,
+    efConstruction: data.efConstruction,
+    efSearch: data.efSearch,
+    seed: data.seed + data.keys.length // Don't repeat the layers drawn for the loaded nodes
+  });
+
+  try {
+    return restore(data, vectorFor) ? index : null;
+  } catch {
+    return null; // Vector size changed
+  }
+};